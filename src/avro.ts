@@ -0,0 +1,687 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Apache Avro support – schema generation and the binary encoding, both
+ * driven by `_schema`.
+ *
+ * Mapping:
+ *
+ * - `t.string` → `"string"`, `t.number` → `"double"`, `t.boolean` →
+ *   `"boolean"`, `t.bigint` → `"long"`; literals use the type of their value.
+ * - Serdes fields use their raw descriptor, except `t.serdes(Date, …)` which
+ *   becomes a `long` with the `timestamp-millis` logical type.
+ * - `t.enum` → `enum`; nested classes and tuples → `record`s;
+ *   `t.variant` / `t.union` of classes → a union of records; `t.map` → `map`;
+ *   `many()`, `t.array` and `t.set` → `array`; a `t.rest` tuple element →
+ *   an `array` in the tuple's last field.
+ * - `nullable` / `optional`, as options or `t.nullable` / `t.optional`
+ *   descriptors → a union with `"null"`; optional fields default to `null`.
+ *
+ * Records are named by the class's `id` option or class name and live in
+ * its `namespace` option, falling back to the namespace given to
+ * `avroSchema()`.
+ */
+
+import {
+  TypedSpec,
+  discriminatorLiteral,
+  mapFromEntries,
+  mapKeyFromString,
+  resolveLazy,
+  t,
+} from "@src/typed";
+import type { Fields, SchemaClass, SchemaInstance } from "@src/types";
+import {
+  ByteReader,
+  ByteWriter,
+  serializedField,
+  utf8Decoder,
+  utf8Encoder,
+} from "@src/wire";
+
+export interface AvroSchemaOptions {
+  /** Namespace of records whose class declares none. */
+  namespace?: string;
+}
+
+type AvroPrimitive = "null" | "boolean" | "long" | "double" | "string";
+
+interface AvroField {
+  name: string;
+  type: AvroType;
+  /** Field definition, for fields of class records. */
+  def?: any;
+  key?: string;
+  /** Avro `default`, when the field declares one. */
+  default?: { value: unknown };
+}
+
+interface AvroRecord {
+  kind: "record";
+  name: string;
+  namespace?: string;
+  fields: AvroField[];
+  /** Class the record was generated from; tuples have none. */
+  ctor?: SchemaClass;
+  /** Tuple with a `t.rest` element – its last field holds the rest. */
+  rest?: boolean;
+}
+
+interface AvroEnum {
+  kind: "enum";
+  name: string;
+  namespace?: string;
+  symbols: string[];
+  values: (string | number | boolean)[];
+}
+
+interface AvroUnion {
+  kind: "union";
+  branches: AvroType[];
+  /** Built from `t.variant` / `t.union` – its record branches are classes. */
+  classes?: boolean;
+  /** Discriminator of `t.variant` branches. */
+  discriminator?: string;
+  /** Built from `t.optional` – `null` on the wire is an absent value. */
+  absent?: boolean;
+}
+
+type AvroType =
+  | { kind: "primitive"; name: AvroPrimitive }
+  /** `long` / `timestamp-millis`; `raw` is the serdes raw representation. */
+  | { kind: "timestamp"; raw: "string" | "number" }
+  | { kind: "array"; items: AvroType }
+  | { kind: "map"; keySpec: TypedSpec<any>; values: AvroType }
+  | AvroUnion
+  | AvroRecord
+  | AvroEnum;
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NULL: AvroType = { kind: "primitive", name: "null" };
+
+function primitive(name: AvroPrimitive): AvroType {
+  return { kind: "primitive", name };
+}
+
+function pascal(raw: string): string {
+  return raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function avroName(raw: string): string {
+  const name = raw.replace(/[^A-Za-z0-9_]/g, "_");
+  return NAME.test(name) ? name : `_${name}`;
+}
+
+function fullName(type: AvroRecord | AvroEnum): string {
+  return type.namespace ? `${type.namespace}.${type.name}` : type.name;
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+/** `T` or `["null", T]`, flattening unions (Avro unions may not nest). */
+function withNull(type: AvroType, nullFirst: boolean): AvroUnion {
+  if (type.kind === "union" && type.branches.includes(NULL)) return type;
+  const branches = type.kind === "union" ? type.branches : [type];
+  return {
+    kind: "union",
+    branches: nullFirst ? [NULL, ...branches] : [...branches, NULL],
+    ...(type.kind === "union"
+      ? { classes: type.classes, discriminator: type.discriminator }
+      : {}),
+  };
+}
+
+/** Field `default` in Avro's JSON form, when it has one. */
+function avroDefault(type: AvroType, value: unknown): unknown {
+  if (type.kind === "enum") {
+    const index = type.values.indexOf(value as string | number | boolean);
+    return index < 0 ? undefined : type.symbols[index];
+  }
+  if (type.kind !== "primitive") return undefined;
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : undefined;
+  }
+  return ["string", "number", "boolean"].includes(typeof value)
+    ? value
+    : undefined;
+}
+
+class AvroRegistry {
+  private readonly classes = new Map<SchemaClass, AvroRecord>();
+  /** Declarations of anonymous descriptors, keyed by descriptor identity. */
+  private readonly anonymous = new Map<object, AvroRecord | AvroEnum>();
+  private readonly taken = new Set<string>();
+
+  constructor(private readonly namespace?: string) {}
+
+  private unique(base: string, namespace?: string): string {
+    const prefix = namespace ? `${namespace}.` : "";
+    let name = base || "Model";
+    for (let i = 2; this.taken.has(prefix + name); i += 1) {
+      name = `${base}${i}`;
+    }
+    this.taken.add(prefix + name);
+    return name;
+  }
+
+  record(ctor: SchemaClass): AvroRecord {
+    const known = this.classes.get(ctor);
+    if (known) return known;
+
+    const options = ctor._options ?? {};
+    const namespace = options.namespace ?? this.namespace;
+    const id = options.id ?? (ctor as { name?: string }).name ?? "";
+    const record: AvroRecord = {
+      kind: "record",
+      name: this.unique(avroName(id), namespace),
+      namespace,
+      fields: [],
+      ctor,
+    };
+    this.classes.set(ctor, record);
+
+    for (const [key, def] of Object.entries<any>(fieldsOf(ctor))) {
+      const hint = `${record.name}${pascal(key)}`;
+      let type = this.type(def.spec, hint, namespace);
+      if (def.cardinality === "array" || def.cardinality === "set") {
+        type = { kind: "array", items: type };
+      }
+
+      const field: AvroField = { name: avroName(key), type, def, key };
+      const fallback =
+        typeof def.default === "function" ? undefined : def.default;
+      const value =
+        fallback === undefined ? undefined : avroDefault(type, fallback);
+      if (value !== undefined) {
+        // A union's default must match its first branch.
+        if (def.nullable || def.optional) field.type = withNull(type, false);
+        field.default = { value };
+      } else if (def.optional) {
+        field.type = withNull(type, true);
+        field.default = { value: null };
+      } else if (def.nullable) {
+        field.type = withNull(type, true);
+      }
+      record.fields.push(field);
+    }
+    return record;
+  }
+
+  private type(
+    spec: TypedSpec<any> | SchemaClass,
+    hint: string,
+    namespace: string | undefined,
+  ): AvroType {
+    if (typeof spec === "function") return this.record(spec);
+    switch (spec.kind) {
+      case "primitive":
+        if (spec === t.number) return primitive("double");
+        if (spec === t.boolean) return primitive("boolean");
+        if (spec === t.bigint) return primitive("long");
+        return primitive("string");
+      case "literal":
+        return typeof spec.literal === "number"
+          ? primitive("double")
+          : typeof spec.literal === "boolean"
+            ? primitive("boolean")
+            : primitive("string");
+      case "enum":
+        return this.enumType(spec, hint, namespace);
+      case "serdes":
+        if (spec.example === Date) {
+          return {
+            kind: "timestamp",
+            raw: spec.rawSpec === t.number ? "number" : "string",
+          };
+        }
+        return this.type(spec.rawSpec!, hint, namespace);
+      case "lazy":
+        return this.type(resolveLazy(spec), hint, namespace);
+      case "union":
+      case "variant":
+        if (spec.members) {
+          throw new Error(`avro: ${hint} is a union over descriptors`);
+        }
+        return {
+          kind: "union",
+          branches: spec.ctors!.map((C) => this.record(C)),
+          classes: true,
+          discriminator: spec.discriminator?.propertyName,
+        };
+      case "tuple":
+        return this.tuple(spec, hint, namespace);
+      case "array":
+      case "set":
+        return {
+          kind: "array",
+          items: this.type(spec.itemSpec!, `${hint}Item`, namespace),
+        };
+      case "nullable":
+        return withNull(this.type(spec.innerSpec!, hint, namespace), true);
+      case "optional":
+        return {
+          ...withNull(this.type(spec.innerSpec!, hint, namespace), true),
+          absent: true,
+        };
+      case "map": {
+        const keySpec = resolveLazy(spec.keySpec!);
+        if (typeof keySpec === "function") {
+          throw new Error(`avro: ${hint} has a class as its map key`);
+        }
+        return {
+          kind: "map",
+          keySpec,
+          values: this.type(spec.valueSpec!, `${hint}Value`, namespace),
+        };
+      }
+      default:
+        throw new Error(`avro: cannot represent a "${spec.kind}" descriptor`);
+    }
+  }
+
+  private enumType(
+    spec: TypedSpec<any>,
+    hint: string,
+    namespace: string | undefined,
+  ): AvroEnum {
+    const enumObject = spec.enumObject ?? {};
+    const known = this.anonymous.get(enumObject);
+    if (known) return known as AvroEnum;
+
+    const entries = Object.entries(enumObject);
+    const values = entries.map(([, v]) => v);
+    // Symbols are the values when they are valid names, the keys otherwise.
+    const symbols = values.every((v) => typeof v === "string" && NAME.test(v))
+      ? (values as string[])
+      : entries.map(([k]) => avroName(k));
+    const decl: AvroEnum = {
+      kind: "enum",
+      name: this.unique(hint, namespace),
+      namespace,
+      symbols,
+      values,
+    };
+    this.anonymous.set(enumObject, decl);
+    return decl;
+  }
+
+  private tuple(
+    spec: TypedSpec<any>,
+    hint: string,
+    namespace: string | undefined,
+  ): AvroRecord {
+    const known = this.anonymous.get(spec);
+    if (known) return known as AvroRecord;
+
+    const record: AvroRecord = {
+      kind: "record",
+      name: this.unique(hint, namespace),
+      namespace,
+      fields: [],
+    };
+    this.anonymous.set(spec, record);
+    spec.specs!.forEach((s, i) => {
+      record.fields.push({
+        name: `item_${i}`,
+        type: this.type(s, `${record.name}Item${i}`, namespace),
+      });
+    });
+    if (spec.restSpec) {
+      record.rest = true;
+      record.fields.push({
+        name: "rest",
+        type: {
+          kind: "array",
+          items: this.type(spec.restSpec, `${record.name}Rest`, namespace),
+        },
+      });
+    }
+    return record;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Schema emission                                                     */
+/* ------------------------------------------------------------------ */
+
+function schemaJson(
+  type: AvroType,
+  defined: Set<string>,
+  namespace: string | undefined,
+): unknown {
+  switch (type.kind) {
+    case "primitive":
+      return type.name;
+    case "timestamp":
+      return { type: "long", logicalType: "timestamp-millis" };
+    case "array":
+      return {
+        type: "array",
+        items: schemaJson(type.items, defined, namespace),
+      };
+    case "map":
+      return {
+        type: "map",
+        values: schemaJson(type.values, defined, namespace),
+      };
+    case "union":
+      return type.branches.map((b) => schemaJson(b, defined, namespace));
+    default: {
+      // Named types are declared once and referenced by name afterwards.
+      const full = fullName(type);
+      if (defined.has(full)) {
+        return type.namespace === namespace ? type.name : full;
+      }
+      defined.add(full);
+
+      const out: Record<string, unknown> = { type: type.kind, name: type.name };
+      if (type.namespace && type.namespace !== namespace) {
+        out.namespace = type.namespace;
+      }
+      if (type.kind === "enum") {
+        out.symbols = type.symbols;
+        return out;
+      }
+      out.fields = type.fields.map((f) => {
+        const field: Record<string, unknown> = { name: f.name };
+        if (f.def?.description) field.doc = f.def.description;
+        field.type = schemaJson(f.type, defined, type.namespace);
+        if (f.default) field.default = f.default.value;
+        return field;
+      });
+      return out;
+    }
+  }
+}
+
+/**
+ * Build the Avro schema of `ctor` – a `record` declaring every nested record
+ * and enum inline on first use and referring to it by name afterwards.
+ *
+ * ```ts
+ * avroSchema(OrderPlaced, { namespace: "com.acme.events" });
+ * ```
+ */
+export function avroSchema(
+  ctor: SchemaClass,
+  options: AvroSchemaOptions = {},
+): Record<string, unknown> {
+  const record = new AvroRegistry(options.namespace).record(ctor);
+  return schemaJson(record, new Set(), undefined) as Record<string, unknown>;
+}
+
+/* ------------------------------------------------------------------ */
+/* Binary encoding                                                     */
+/* ------------------------------------------------------------------ */
+
+const rootRecords = new WeakMap<SchemaClass, AvroRecord>();
+
+function rootRecord(ctor: SchemaClass): AvroRecord {
+  let record = rootRecords.get(ctor);
+  if (!record) {
+    record = new AvroRegistry().record(ctor);
+    rootRecords.set(ctor, record);
+  }
+  return record;
+}
+
+class Writer extends ByteWriter {
+  /** Zig-zag varint `long`. */
+  long(v: bigint | number): void {
+    const n = BigInt(v);
+    if (BigInt.asIntN(64, n) !== n) {
+      throw new Error(`avro: ${n} does not fit a long`);
+    }
+    this.bigVarint((n << 1n) ^ (n >> 63n));
+  }
+
+  bytes(b: Uint8Array): void {
+    this.long(b.length);
+    this.raw(b);
+  }
+}
+
+class Reader extends ByteReader {
+  constructor(buf: Uint8Array) {
+    super(buf, "avro");
+  }
+
+  long(): bigint {
+    const u = this.bigVarint();
+    return BigInt.asIntN(64, (u >> 1n) ^ -(u & 1n));
+  }
+
+  count(): number {
+    return Number(this.long());
+  }
+
+  bytes(): Uint8Array {
+    return this.raw(this.count());
+  }
+}
+
+function branchIndex(union: AvroUnion, value: unknown): number {
+  const { branches, discriminator } = union;
+  if (value === null || value === undefined) {
+    const index = branches.indexOf(NULL);
+    if (index < 0) throw new Error("avro: null in a union without null");
+    return index;
+  }
+  let index = branches.findIndex(
+    (b) => b.kind === "record" && b.ctor && value instanceof b.ctor,
+  );
+  if (index < 0 && discriminator && typeof value === "object") {
+    const tag = (value as Record<string, unknown>)[discriminator];
+    index = branches.findIndex(
+      (b) =>
+        b.kind === "record" &&
+        b.ctor &&
+        discriminatorLiteral(b.ctor, discriminator) === tag,
+    );
+  }
+  // Nullable non-record types have exactly one non-null branch.
+  if (index < 0) index = branches.findIndex((b) => b !== NULL);
+  return index;
+}
+
+function encode(w: Writer, type: AvroType, value: unknown): void {
+  switch (type.kind) {
+    case "primitive":
+      switch (type.name) {
+        case "null":
+          return;
+        case "boolean":
+          w.byte(value ? 1 : 0);
+          return;
+        case "long":
+          w.long(value as bigint);
+          return;
+        case "double":
+          w.float64(Number(value));
+          return;
+        case "string":
+          w.bytes(utf8Encoder.encode(String(value)));
+          return;
+      }
+      return;
+    case "timestamp": {
+      const ms = new Date(value as string | number).getTime();
+      if (Number.isNaN(ms)) {
+        throw new Error(`avro: ${String(value)} is not a valid timestamp`);
+      }
+      w.long(ms);
+      return;
+    }
+    case "enum": {
+      const index = type.values.indexOf(value as string | number | boolean);
+      if (index < 0) {
+        throw new Error(
+          `avro: ${String(value)} is not a member of ${type.name}`,
+        );
+      }
+      w.long(index);
+      return;
+    }
+    case "array": {
+      const items = Array.from(value as Iterable<unknown>);
+      if (items.length) {
+        w.long(items.length);
+        for (const item of items) encode(w, type.items, item);
+      }
+      w.long(0);
+      return;
+    }
+    case "map": {
+      const entries =
+        value instanceof Map
+          ? Array.from(value.entries())
+          : Object.entries(value as Record<string, unknown>);
+      if (entries.length) {
+        w.long(entries.length);
+        for (const [k, v] of entries) {
+          w.bytes(utf8Encoder.encode(String(k)));
+          encode(w, type.values, v);
+        }
+      }
+      w.long(0);
+      return;
+    }
+    case "union": {
+      const index = branchIndex(type, value);
+      w.long(index);
+      encode(w, type.branches[index], value);
+      return;
+    }
+    case "record":
+      for (const [i, field] of type.fields.entries()) {
+        const v = type.ctor
+          ? serializedField(value, field.key!, field.def)
+          : type.rest && i === type.fields.length - 1
+            ? (value as unknown[]).slice(i)
+            : (value as unknown[])[i];
+        if (v === undefined && field.type.kind !== "union") {
+          throw new Error(`avro: ${type.name}.${field.name} is missing`);
+        }
+        encode(w, field.type, v);
+      }
+      return;
+  }
+}
+
+/** Read `count`-prefixed blocks, calling `item` once per element. */
+function readBlocks(r: Reader, item: () => void): void {
+  for (;;) {
+    let count = r.count();
+    if (count === 0) return;
+    if (count < 0) {
+      count = -count;
+      r.long(); // block size in bytes
+    }
+    for (let i = 0; i < count; i += 1) item();
+  }
+}
+
+function decode(r: Reader, type: AvroType): unknown {
+  switch (type.kind) {
+    case "primitive":
+      switch (type.name) {
+        case "null":
+          return null;
+        case "boolean":
+          return r.byte() !== 0;
+        case "long":
+          return r.long();
+        case "double":
+          return r.float64();
+        case "string":
+          return utf8Decoder.decode(r.bytes());
+      }
+      return undefined;
+    case "timestamp": {
+      const ms = Number(r.long());
+      return type.raw === "number" ? ms : new Date(ms).toISOString();
+    }
+    case "enum": {
+      const index = r.count();
+      if (index < 0 || index >= type.values.length) {
+        throw new Error(`avro: ${type.name} has no symbol ${index}`);
+      }
+      return type.values[index];
+    }
+    case "array": {
+      const items: unknown[] = [];
+      readBlocks(r, () => items.push(decode(r, type.items)));
+      return items;
+    }
+    case "map": {
+      const entries: [unknown, unknown][] = [];
+      readBlocks(r, () => {
+        const key = utf8Decoder.decode(r.bytes());
+        entries.push([
+          mapKeyFromString(type.keySpec, key),
+          decode(r, type.values),
+        ]);
+      });
+      return mapFromEntries(type.keySpec, entries);
+    }
+    case "union": {
+      const index = r.count();
+      const branch = type.branches[index];
+      if (!branch) throw new Error(`avro: union has no branch ${index}`);
+      const value = decode(r, branch);
+      if (value === null && type.absent) return undefined;
+      // A variant's branch is known from the wire – construct it directly.
+      const ctor = branch.kind === "record" ? branch.ctor : undefined;
+      return ctor && type.classes ? new ctor(value) : value;
+    }
+    case "record": {
+      if (!type.ctor) {
+        const items = type.fields.map((f) => decode(r, f.type));
+        const rest = type.rest ? (items.pop() as unknown[]) : [];
+        // Omitted `t.optional` elements decode as trailing `undefined`s.
+        while (
+          !rest.length &&
+          items.length &&
+          items[items.length - 1] === undefined
+        ) {
+          items.pop();
+        }
+        return [...items, ...rest];
+      }
+      const out: Record<string, unknown> = {};
+      for (const field of type.fields) {
+        const value = decode(r, field.type);
+        // Optional-only fields carry absence as `null`.
+        if (value !== null || field.def?.nullable) out[field.key!] = value;
+      }
+      return out;
+    }
+  }
+}
+
+/** Encode an instance of `ctor` with Avro's binary encoding. */
+export function encodeAvro(
+  ctor: SchemaClass,
+  instance: SchemaInstance,
+): Uint8Array {
+  const w = new Writer();
+  encode(w, rootRecord(ctor), instance);
+  return w.finish();
+}
+
+/**
+ * Decode Avro binary data written with the `avroSchema()` of `ctor` into its
+ * constructor input.  Throws on malformed input.
+ */
+export function decodeAvro(
+  ctor: SchemaClass,
+  bytes: Uint8Array,
+): Record<string, unknown> {
+  return decode(new Reader(bytes), rootRecord(ctor)) as Record<string, unknown>;
+}
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+/*
+ * type-a-codegen – writes `Schema` classes for the models in a JSON Schema or
+ * OpenAPI document (JSON).
+ *
+ * Usage:
+ *   type-a-codegen <schema.json> [-o models.ts] [--name Root] [--import pkg]
+ *
+ * Without `-o` the module is printed to stdout.  Keywords the generated
+ * classes do not enforce are listed on stderr (and in the module header).
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+
+import { CodegenOptions, generateTypeScript } from "@src/codegen";
+
+const USAGE =
+  "usage: type-a-codegen <schema.json> [-o models.ts] [--name Root] [--import pkg]";
+
+function main(argv: string[]): number {
+  let input: string | undefined;
+  let output: string | undefined;
+  const options: CodegenOptions = {};
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (["-o", "--out", "--name", "--import"].includes(arg)) {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith("-")) {
+        console.error(`type-a-codegen: ${arg} needs a value\n${USAGE}`);
+        return 2;
+      }
+      if (arg === "--name") options.rootName = value;
+      else if (arg === "--import") options.importFrom = value;
+      else output = value;
+    } else if (arg === "-h" || arg === "--help") {
+      console.log(USAGE);
+      return 0;
+    } else if (!input && !arg.startsWith("-")) input = arg;
+    else {
+      console.error(`type-a-codegen: unexpected argument ${arg}\n${USAGE}`);
+      return 2;
+    }
+  }
+  if (!input) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let doc: Record<string, unknown>;
+  try {
+    doc = JSON.parse(readFileSync(input, "utf8"));
+  } catch (err) {
+    console.error(`type-a-codegen: cannot read ${input}: ${String(err)}`);
+    return 1;
+  }
+
+  let generated: ReturnType<typeof generateTypeScript>;
+  try {
+    generated = generateTypeScript(doc, options);
+  } catch (err) {
+    console.error(`type-a-codegen: ${(err as Error).message}`);
+    return 1;
+  }
+  for (const u of generated.unsupported) {
+    console.error(`warning: ${u.path}: ${u.message}`);
+  }
+  if (!output) {
+    process.stdout.write(generated.code);
+    return 0;
+  }
+  try {
+    writeFileSync(output, generated.code);
+  } catch (err) {
+    console.error(`type-a-codegen: cannot write ${output}: ${String(err)}`);
+    return 1;
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
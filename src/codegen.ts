@@ -0,0 +1,468 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * TypeScript source generation – writes `class X extends Schema.from({...})`
+ * modules for the models described by a JSON Schema or OpenAPI document.
+ *
+ * The document is first imported with {@link fromJsonSchema} /
+ * {@link fromJsonSchemaDefinitions}; the generated classes are then printed
+ * back as source, so both paths accept (and report) exactly the same
+ * keywords.
+ */
+
+import {
+  GeneratedSchemaClass,
+  UnsupportedKeyword,
+  fromJsonSchema,
+  fromJsonSchemaDefinitions,
+} from "@src/from-json-schema";
+import { TypedSpec, resolveLazy, t, unionMembers } from "@src/typed";
+import type {
+  Constraint,
+  Fields,
+  SchemaClass,
+  SchemaOptions,
+} from "@src/types";
+
+export interface CodegenOptions {
+  /** Module the generated code imports from; defaults to the package name. */
+  importFrom?: string;
+  /** Class name for a JSON Schema's root object; defaults to its `title`. */
+  rootName?: string;
+}
+
+export interface CodegenResult {
+  /** Source of the generated `.ts` module. */
+  code: string;
+  /** Keywords the generated classes do not enforce (also listed in `code`). */
+  unsupported: UnsupportedKeyword[];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** `"order-item"` → `"OrderItem"`; always a valid identifier. */
+function className(raw: string): string {
+  const name = raw
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  if (!name) return "Model";
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+/** `type` parenthesised when it is a union, e.g. before `[]`. */
+function grouped(type: string): string {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
+function literal(value: unknown): string {
+  return value instanceof RegExp ? value.toString() : JSON.stringify(value);
+}
+
+/** Nested classes a field spec refers to, in declaration order. */
+function specDependencies(spec: TypedSpec<any> | SchemaClass): SchemaClass[] {
+  if (typeof spec === "function") return [spec];
+  switch (spec.kind) {
+    case "union":
+    case "variant":
+      return unionMembers(spec).flatMap(specDependencies);
+    case "lazy":
+      return specDependencies(resolveLazy(spec));
+    case "tuple":
+      return [
+        ...spec.specs!,
+        ...(spec.restSpec ? [spec.restSpec] : []),
+      ].flatMap(specDependencies);
+    case "array":
+    case "set":
+      return specDependencies(spec.itemSpec!);
+    case "nullable":
+    case "optional":
+      return specDependencies(spec.innerSpec!);
+    case "map":
+      return [
+        ...specDependencies(spec.keySpec!),
+        ...specDependencies(spec.valueSpec!),
+      ];
+    case "serdes":
+      return specDependencies(spec.rawSpec!);
+    default:
+      return [];
+  }
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+/** Every class `ctor`'s fields refer to, directly or through other classes. */
+function reachable(ctor: SchemaClass): Set<SchemaClass> {
+  const seen = new Set<SchemaClass>();
+  const visit = (from: SchemaClass) => {
+    for (const field of Object.values(fieldsOf(from))) {
+      for (const dep of specDependencies((field as any).spec)) {
+        if (seen.has(dep)) continue;
+        seen.add(dep);
+        visit(dep);
+      }
+    }
+  };
+  visit(ctor);
+  return seen;
+}
+
+class Printer {
+  /** Classes in dependency order – dependencies before dependents. */
+  private readonly order: SchemaClass[] = [];
+  private readonly names = new Map<SchemaClass, string>();
+  /**
+   * Value interfaces of the classes on a reference cycle.  A cycle is broken
+   * with `t.lazy<XData>`, whose type must not mention the classes themselves.
+   */
+  private readonly shapes = new Map<SchemaClass, string>();
+  private readonly taken = new Set<string>();
+  private readonly used = new Set<string>();
+  /** Index of the class currently being printed. */
+  private current = 0;
+
+  constructor(roots: [string, SchemaClass][]) {
+    // The caller's names are claimed before any dependency can take them.
+    const reserved = new Map(
+      roots.map(([hint, ctor]) => [ctor, this.unique(hint)] as const),
+    );
+
+    const visiting = new Set<SchemaClass>();
+    const visit = (ctor: SchemaClass) => {
+      if (this.names.has(ctor) || visiting.has(ctor)) return;
+      visiting.add(ctor);
+      for (const field of Object.values(fieldsOf(ctor))) {
+        for (const dep of specDependencies((field as any).spec)) visit(dep);
+      }
+      visiting.delete(ctor);
+      this.names.set(
+        ctor,
+        reserved.get(ctor) ??
+          this.unique((ctor as { name?: string }).name ?? ""),
+      );
+      this.order.push(ctor);
+    };
+    for (const [, ctor] of roots) visit(ctor);
+
+    for (const ctor of this.order) {
+      if (reachable(ctor).has(ctor)) {
+        this.shapes.set(ctor, this.unique(`${this.names.get(ctor)}Data`));
+      }
+    }
+  }
+
+  private unique(raw: string): string {
+    const base = className(raw);
+    let name = base;
+    for (let i = 2; this.taken.has(name); i += 1) name = `${base}${i}`;
+    this.taken.add(name);
+    return name;
+  }
+
+  private use(name: string): string {
+    this.used.add(name);
+    return name;
+  }
+
+  /** `true` when `ctor` is declared above the class being printed. */
+  private declared(ctor: SchemaClass): boolean {
+    return this.order.indexOf(ctor) < this.current;
+  }
+
+  /**
+   * Reference a class.  Forward references (cycles) go through `t.lazy`, as
+   * do classes in tuple / map slots, which only accept descriptors.
+   */
+  private ref(ctor: SchemaClass, slot: boolean): string {
+    const name = this.names.get(ctor)!;
+    if (!this.declared(ctor)) {
+      this.use("t");
+      this.use("SchemaClass");
+      return `t.lazy<${this.shapes.get(ctor)}>((): SchemaClass => ${name})`;
+    }
+    if (!slot) return name;
+    this.use("t");
+    return `t.lazy<InstanceType<typeof ${name}>>(() => ${name})`;
+  }
+
+  private spec(spec: TypedSpec<any> | SchemaClass, slot = false): string {
+    if (typeof spec === "function") return this.ref(spec, slot);
+    if (spec.kind === "lazy") return this.spec(resolveLazy(spec), slot);
+
+    this.use("t");
+    switch (spec.kind) {
+      case "primitive":
+        if (spec === t.number) return "t.number";
+        if (spec === t.boolean) return "t.boolean";
+        if (spec === t.bigint) return "t.bigint";
+        return "t.string";
+      case "literal":
+        return `t.literal(${literal(spec.literal)})`;
+      case "enum": {
+        const members = Object.entries(spec.enumObject ?? {})
+          .map(([k, v]) => `${propertyKey(k)}: ${literal(v)}`)
+          .join(", ");
+        return `t.enum({ ${members} })`;
+      }
+      case "tuple": {
+        const elements = spec.specs!.map((s) => this.spec(s, true));
+        if (spec.restSpec) {
+          elements.push(`t.rest(${this.spec(spec.restSpec, true)})`);
+        }
+        return `t.tuple(${elements.join(", ")})`;
+      }
+      case "array":
+      case "set":
+        return `t.${spec.kind}(${this.spec(spec.itemSpec!, true)})`;
+      case "nullable":
+      case "optional":
+        return `t.${spec.kind}(${this.spec(spec.innerSpec!, true)})`;
+      case "map":
+        return `t.map(${this.spec(spec.keySpec!, true)}, ${this.spec(spec.valueSpec!, true)})`;
+      case "union":
+      case "variant": {
+        const members = unionMembers(spec);
+        const ctors = members.flatMap(specDependencies);
+        const names = members
+          .map((m) =>
+            typeof m === "function" ? this.names.get(m)! : this.spec(m, true),
+          )
+          .join(", ");
+        const prop = spec.discriminator?.propertyName;
+        const args = `[${names}]${prop && prop !== "kind" ? `, ${literal(prop)}` : ""}`;
+        if (ctors.every((C) => this.declared(C))) {
+          return spec.kind === "union"
+            ? `t.union([${names}])`
+            : `t.variant(${args})`;
+        }
+        // Branches must exist when the union is built – defer if they don't.
+        // The thunk's annotated return type keeps their classes out of the
+        // inference, and so out of the cycle.
+        const value = this.valueType(spec);
+        if (spec.kind === "union") {
+          return `t.lazy<${value}>((): ReturnType<typeof t.union> => t.union([${names}]))`;
+        }
+        this.use("SchemaClass");
+        return `t.lazy<${value}>((): ReturnType<typeof t.variant> => t.variant<SchemaClass[]>(${args}))`;
+      }
+      default:
+        throw new Error(`codegen: cannot print a "${spec.kind}" descriptor`);
+    }
+  }
+
+  /** TypeScript type of the values `spec` describes. */
+  private valueType(spec: TypedSpec<any> | SchemaClass): string {
+    if (typeof spec === "function") {
+      return (
+        this.shapes.get(spec) ?? `InstanceType<typeof ${this.names.get(spec)}>`
+      );
+    }
+    switch (spec.kind) {
+      case "lazy":
+        return this.valueType(resolveLazy(spec));
+      case "primitive":
+        if (spec === t.number) return "number";
+        if (spec === t.boolean) return "boolean";
+        if (spec === t.bigint) return "bigint";
+        return "string";
+      case "literal":
+        return literal(spec.literal);
+      case "enum":
+        return Object.values(spec.enumObject ?? {})
+          .map(literal)
+          .join(" | ");
+      case "tuple": {
+        const elements = spec.specs!.map((s) =>
+          s.kind === "optional"
+            ? `${grouped(this.valueType(s.innerSpec!))}?`
+            : this.valueType(s),
+        );
+        if (spec.restSpec) {
+          elements.push(`...${grouped(this.valueType(spec.restSpec))}[]`);
+        }
+        return `[${elements.join(", ")}]`;
+      }
+      case "array":
+        return `${grouped(this.valueType(spec.itemSpec!))}[]`;
+      case "set":
+        return `Set<${this.valueType(spec.itemSpec!)}>`;
+      case "nullable":
+        return `${this.valueType(spec.innerSpec!)} | null`;
+      case "optional":
+        return `${this.valueType(spec.innerSpec!)} | undefined`;
+      case "map": {
+        const args = `${this.valueType(spec.keySpec!)}, ${this.valueType(spec.valueSpec!)}`;
+        return `Record<${args}> | Map<${args}>`;
+      }
+      case "union":
+      case "variant":
+        return unionMembers(spec)
+          .map((m) => this.valueType(m))
+          .join(" | ");
+      default:
+        throw new Error(`codegen: cannot print a "${spec.kind}" descriptor`);
+    }
+  }
+
+  /** `interface XData` – the value shape of a class on a reference cycle. */
+  private shapeDecl(ctor: SchemaClass): string {
+    const lines = Object.entries<any>(fieldsOf(ctor)).map(([key, field]) => {
+      const value = this.valueType(field.spec);
+      let type =
+        field.cardinality === "array"
+          ? `${grouped(value)}[]`
+          : field.cardinality === "set"
+            ? `Set<${value}>`
+            : value;
+      if (field.nullable) type = `${type} | null`;
+      return `  ${propertyKey(key)}${field.optional ? "?" : ""}: ${type};`;
+    });
+    return [`export interface ${this.shapes.get(ctor)} {`, ...lines, `}`].join(
+      "\n",
+    );
+  }
+
+  private constraint(cst: Constraint<any>): string {
+    const meta = cst.meta;
+    if (!meta) throw new Error("codegen: constraint without metadata");
+    this.use("c");
+    if (meta.name === "matching") {
+      const { pattern, flags } = meta.params as {
+        pattern: string;
+        flags: string;
+      };
+      return `c.matching(${new RegExp(pattern, flags).toString()})`;
+    }
+    if (!meta.params) return `c.${meta.name}`;
+    const args = Object.values(meta.params).map(literal).join(", ");
+    return `c.${meta.name}(${args})`;
+  }
+
+  private field(field: any): string {
+    const opts: string[] = [];
+    if (field.optional) opts.push("optional: true");
+    if (field.nullable) opts.push("nullable: true");
+    if (field.description)
+      opts.push(`described: ${literal(field.description)}`);
+    if (field.default !== undefined) {
+      opts.push(`default: ${literal(field.default)}`);
+    }
+    if (field.is) {
+      const list = (Array.isArray(field.is) ? field.is : [field.is]).map(
+        (cst: Constraint<any>) => this.constraint(cst),
+      );
+      opts.push(`is: ${list.length === 1 ? list[0] : `[${list.join(", ")}]`}`);
+    }
+    const builder = this.use(field.cardinality === "one" ? "one" : "many");
+    const spec = this.spec(field.spec);
+    return opts.length
+      ? `${builder}(${spec}, { ${opts.join(", ")} })`
+      : `${builder}(${spec})`;
+  }
+
+  private classDecl(ctor: SchemaClass): string {
+    const lines = Object.entries(fieldsOf(ctor)).map(
+      ([key, field]) => `${propertyKey(key)}: ${this.field(field)},`,
+    );
+    const options = (ctor._options ?? {}) as SchemaOptions;
+    const extra: string[] = [];
+    if (options.unknownKeys) {
+      extra.push(`unknownKeys: ${literal(options.unknownKeys)}`);
+    }
+    if (options.dependentRequired) {
+      extra.push(`dependentRequired: ${literal(options.dependentRequired)}`);
+    }
+
+    const name = this.names.get(ctor)!;
+    const decl = extra.length
+      ? [
+          `export class ${name} extends Schema.from(`,
+          `  {`,
+          ...lines.map((l) => `    ${l}`),
+          `  },`,
+          `  { ${extra.join(", ")} },`,
+          `) {}`,
+        ]
+      : [
+          `export class ${name} extends Schema.from({`,
+          ...lines.map((l) => `  ${l}`),
+          `}) {}`,
+        ];
+    return this.shapes.has(ctor)
+      ? `${this.shapeDecl(ctor)}\n\n${decl.join("\n")}`
+      : decl.join("\n");
+  }
+
+  print(importFrom: string, unsupported: UnsupportedKeyword[]): string {
+    const classes = this.order.map((ctor, i) => {
+      this.current = i;
+      return this.classDecl(ctor);
+    });
+
+    const header = ["// Generated by type-a-codegen."];
+    if (unsupported.length) {
+      header.push("//", "// Not enforced by the classes below:");
+      for (const u of unsupported) header.push(`//   ${u.path}: ${u.message}`);
+    }
+
+    const values = ["Schema"];
+    if (this.used.has("one")) values.push("one");
+    if (this.used.has("many")) values.push("many");
+    if (this.used.has("c")) values.push("constraints as c");
+    if (this.used.has("t")) values.push("typing as t");
+    const imports = [
+      `import { ${values.join(", ")} } from ${literal(importFrom)};`,
+    ];
+    if (this.used.has("SchemaClass")) {
+      imports.push(`import type { SchemaClass } from ${literal(importFrom)};`);
+    }
+
+    return `${[header.join("\n"), imports.join("\n"), ...classes].join("\n\n")}\n`;
+  }
+}
+
+/**
+ * Generate a TypeScript module declaring one `Schema` class per model in
+ * `doc`:
+ *
+ * - an OpenAPI document → every object under `components.schemas`;
+ * - a JSON Schema whose root is an object → the root and every class it
+ *   references;
+ * - a JSON Schema with only `$defs` / `definitions` → every object definition.
+ *
+ * Classes are ordered so that each is declared before it is used; cycles are
+ * broken with `t.lazy` over a generated `XData` interface of the value shape.
+ */
+export function generateTypeScript(
+  doc: Record<string, unknown>,
+  options: CodegenOptions = {},
+): CodegenResult {
+  let roots: [string, SchemaClass][];
+  let unsupported: UnsupportedKeyword[];
+
+  if (!doc.components && doc.properties) {
+    const imported = fromJsonSchema(doc, { name: options.rootName });
+    const root = imported.schema as GeneratedSchemaClass;
+    roots = [[root.name, root as unknown as SchemaClass]];
+    unsupported = imported.unsupported;
+  } else {
+    const imported = fromJsonSchemaDefinitions(doc);
+    roots = Object.entries(imported.schemas) as [string, SchemaClass][];
+    unsupported = imported.unsupported;
+  }
+
+  const printer = new Printer(roots);
+  return {
+    code: printer.print(options.importFrom ?? "@rybosome/type-a", unsupported),
+    unsupported,
+  };
+}
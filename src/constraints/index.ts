@@ -1,2 +1,4 @@
+export * from "./meta";
 export * from "./string";
 export * from "./numeric";
+export * from "./temporal";
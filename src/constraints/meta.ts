@@ -0,0 +1,34 @@
+import type {
+  AsyncLogicalConstraint,
+  ConstraintMeta,
+  LogicalConstraint,
+  Typeable,
+} from "@src/types";
+
+/**
+ * Attach introspectable metadata to a constraint function.  Used by every
+ * built-in helper; custom constraints may opt in the same way:
+ *
+ * ```ts
+ * const even = withMeta(
+ *   { name: "even", jsonSchema: { multipleOf: 2 } },
+ *   (n: number) => (n % 2 === 0 ? true : "must be even"),
+ * );
+ * ```
+ */
+export function withMeta<T extends Typeable>(
+  meta: ConstraintMeta,
+  fn: (val: T) => true | string,
+): LogicalConstraint<T>;
+export function withMeta<T extends Typeable>(
+  meta: ConstraintMeta,
+  fn: (val: T) => Promise<true | string>,
+): AsyncLogicalConstraint<T>;
+export function withMeta<T extends Typeable>(
+  meta: ConstraintMeta,
+  fn: (val: T) => true | string | Promise<true | string>,
+): LogicalConstraint<T> | AsyncLogicalConstraint<T> {
+  return Object.assign(fn, { meta }) as
+    | LogicalConstraint<T>
+    | AsyncLogicalConstraint<T>;
+}
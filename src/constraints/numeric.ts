@@ -1,4 +1,5 @@
 import { LogicalConstraint } from "@src/types";
+import { withMeta } from "./meta";
 
 /* -------------------------------------------------------------------------- */
 /*  Numeric comparison helpers                                                */
@@ -9,20 +10,22 @@ import { LogicalConstraint } from "@src/types";
  *
  * String inputs are **not** supported – use {@link minLength} instead.
  */
-export const atLeast =
-  (min: number): LogicalConstraint<number> =>
-  (val) =>
-    val >= min ? true : `${val} is not atLeast(${min})`;
+export const atLeast = (min: number): LogicalConstraint<number> =>
+  withMeta(
+    { name: "atLeast", params: { min }, jsonSchema: { minimum: min } },
+    (val) => (val >= min ? true : `${val} is not atLeast(${min})`),
+  );
 
 /**
  * Ensures `val ≤ max`.
  *
  * String inputs are **not** supported – use {@link maxLength} instead.
  */
-export const atMost =
-  (max: number): LogicalConstraint<number> =>
-  (val) =>
-    val <= max ? true : `${val} is not atMost(${max})`;
+export const atMost = (max: number): LogicalConstraint<number> =>
+  withMeta(
+    { name: "atMost", params: { max }, jsonSchema: { maximum: max } },
+    (val) => (val <= max ? true : `${val} is not atMost(${max})`),
+  );
 
 /** Alias that reads a little nicer for some usages */
 export const noMoreThan = atMost;
@@ -32,42 +35,97 @@ export const noMoreThan = atMost;
 /* -------------------------------------------------------------------------- */
 
 /** val > min */
-export const greaterThan =
-  (min: number): LogicalConstraint<number> =>
-  (val) =>
-    val > min ? true : `${val} is not greaterThan(${min})`;
+export const greaterThan = (min: number): LogicalConstraint<number> =>
+  withMeta(
+    {
+      name: "greaterThan",
+      params: { min },
+      jsonSchema: { exclusiveMinimum: min },
+    },
+    (val) => (val > min ? true : `${val} is not greaterThan(${min})`),
+  );
 
 /** val < max */
-export const lessThan =
-  (max: number): LogicalConstraint<number> =>
-  (val) =>
-    val < max ? true : `${val} is not lessThan(${max})`;
+export const lessThan = (max: number): LogicalConstraint<number> =>
+  withMeta(
+    {
+      name: "lessThan",
+      params: { max },
+      jsonSchema: { exclusiveMaximum: max },
+    },
+    (val) => (val < max ? true : `${val} is not lessThan(${max})`),
+  );
 
 /**
  * Inclusive/Exclusive range check.
  * If `inclusive` is true (default):  min ≤ val ≤ max
  * Otherwise:                          min <  val <  max
  */
-export const between =
-  (min: number, max: number, inclusive = true): LogicalConstraint<number> =>
-  (val) => {
-    const ok = inclusive ? val >= min && val <= max : val > min && val < max;
-    return ok
-      ? true
-      : `${val} is not${inclusive ? "" : " strictly"} between(${min}, ${max})`;
-  };
+export const between = (
+  min: number,
+  max: number,
+  inclusive = true,
+): LogicalConstraint<number> =>
+  withMeta(
+    {
+      name: "between",
+      params: { min, max, inclusive },
+      jsonSchema: inclusive
+        ? { minimum: min, maximum: max }
+        : { exclusiveMinimum: min, exclusiveMaximum: max },
+    },
+    (val) => {
+      const ok = inclusive ? val >= min && val <= max : val > min && val < max;
+      return ok
+        ? true
+        : `${val} is not${inclusive ? "" : " strictly"} between(${min}, ${max})`;
+    },
+  );
 
 /** val > 0 */
-export const positive: LogicalConstraint<number> = (val) =>
-  val > 0 ? true : `${val} is not positive`;
+export const positive: LogicalConstraint<number> = withMeta(
+  { name: "positive", jsonSchema: { exclusiveMinimum: 0 } },
+  (val) => (val > 0 ? true : `${val} is not positive`),
+);
 
 /** val < 0 */
-export const negative: LogicalConstraint<number> = (val) =>
-  val < 0 ? true : `${val} is not negative`;
+export const negative: LogicalConstraint<number> = withMeta(
+  { name: "negative", jsonSchema: { exclusiveMaximum: 0 } },
+  (val) => (val < 0 ? true : `${val} is not negative`),
+);
 
 /** Integer check (no fractional component) */
-export const isInteger: LogicalConstraint<number> = (val) =>
-  Number.isInteger(val) ? true : `${val} is not an integer`;
+export const isInteger: LogicalConstraint<number> = withMeta(
+  { name: "isInteger", jsonSchema: { type: "integer" } },
+  (val) => (Number.isInteger(val) ? true : `${val} is not an integer`),
+);
 
 /* Backwards-compat alias */
 export const integer = isInteger;
+
+/** Number of decimal places in the shortest representation of `x`. */
+const decimals = (x: number): number => {
+  const [digits, exp] = String(x).split("e");
+  const fraction = digits.split(".")[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exp ?? 0));
+};
+
+/**
+ * val is an integer multiple of `n`.
+ *
+ * Both numbers are scaled to integers first, so decimal steps such as
+ * `multipleOf(0.01)` hold for `19.99` despite floating-point division.
+ */
+export const multipleOf = (n: number): LogicalConstraint<number> =>
+  withMeta(
+    { name: "multipleOf", params: { n }, jsonSchema: { multipleOf: n } },
+    (val) => {
+      const scale = 10 ** Math.max(decimals(val), decimals(n));
+      const [a, b] = [Math.round(val * scale), Math.round(n * scale)];
+      const ok =
+        Number.isSafeInteger(a) && Number.isSafeInteger(b)
+          ? a % b === 0
+          : Number.isInteger(val / n);
+      return ok ? true : `${val} is not a multipleOf(${n})`;
+    },
+  );
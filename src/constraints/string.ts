@@ -1,10 +1,17 @@
 import { LogicalConstraint } from "@src/types";
+import { withMeta } from "./meta";
+
+/** Escape `s` for literal use inside a `RegExp` / JSON-Schema `pattern`. */
+const escapeRegExp = (s: string): string =>
+  s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
 /**
  * Ensures a string has at least one character.
  */
-export const nonEmpty: LogicalConstraint<string> = (val) =>
-  val.length > 0 ? true : "must not be empty";
+export const nonEmpty: LogicalConstraint<string> = withMeta(
+  { name: "nonEmpty", jsonSchema: { minLength: 1 } },
+  (val) => (val.length > 0 ? true : "must not be empty"),
+);
 
 /**
  * Alias of {@link nonEmpty}.
@@ -14,31 +21,41 @@ export const notEmpty = nonEmpty;
 /**
  * Ensures the string is empty.
  */
-export const empty: LogicalConstraint<string> = (val) =>
-  val.length === 0 ? true : "must be empty";
+export const empty: LogicalConstraint<string> = withMeta(
+  { name: "empty", jsonSchema: { maxLength: 0 } },
+  (val) => (val.length === 0 ? true : "must be empty"),
+);
 
 /**
  * Ensures the string consists solely of whitespace (spaces, tabs, newlines).
  * The empty string is considered valid whitespace.
  */
-export const whitespace: LogicalConstraint<string> = (val) =>
-  val.trim().length === 0 ? true : "must contain only whitespace";
+export const whitespace: LogicalConstraint<string> = withMeta(
+  { name: "whitespace", jsonSchema: { pattern: "^\\s*$" } },
+  (val) => (val.trim().length === 0 ? true : "must contain only whitespace"),
+);
 
 /**
  * val === match
  */
-export const equalTo =
-  (match: string): LogicalConstraint<string> =>
-  (val) =>
-    val === match ? true : `must equal ${JSON.stringify(match)}`;
+export const equalTo = (match: string): LogicalConstraint<string> =>
+  withMeta(
+    { name: "equalTo", params: { match }, jsonSchema: { const: match } },
+    (val) => (val === match ? true : `must equal ${JSON.stringify(match)}`),
+  );
 
 /**
  * val !== match
  */
-export const notEqualTo =
-  (match: string): LogicalConstraint<string> =>
-  (val) =>
-    val !== match ? true : `must not equal ${JSON.stringify(match)}`;
+export const notEqualTo = (match: string): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "notEqualTo",
+      params: { match },
+      jsonSchema: { not: { const: match } },
+    },
+    (val) => (val !== match ? true : `must not equal ${JSON.stringify(match)}`),
+  );
 
 /* -------------------------------------------------------------------------- */
 /*  Length Constraints                                                        */
@@ -47,95 +64,150 @@ export const notEqualTo =
 /**
  * val.length > n
  */
-export const longerThan =
-  (n: number): LogicalConstraint<string> =>
-  (val) =>
-    val.length > n ? true : `length ${val.length} is not longerThan(${n})`;
+export const longerThan = (n: number): LogicalConstraint<string> =>
+  withMeta(
+    { name: "longerThan", params: { n }, jsonSchema: { minLength: n + 1 } },
+    (val) =>
+      val.length > n ? true : `length ${val.length} is not longerThan(${n})`,
+  );
 
 /**
  * val.length < n
  */
-export const shorterThan =
-  (n: number): LogicalConstraint<string> =>
-  (val) =>
-    val.length < n ? true : `length ${val.length} is not shorterThan(${n})`;
+export const shorterThan = (n: number): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "shorterThan",
+      params: { n },
+      jsonSchema: { maxLength: Math.max(n - 1, 0) },
+    },
+    (val) =>
+      val.length < n ? true : `length ${val.length} is not shorterThan(${n})`,
+  );
 
 /**
  * Ensures `val.length ≥ min`.
  */
-export const minLength =
-  (min: number): LogicalConstraint<string> =>
-  (val) =>
-    val.length >= min ? true : `length ${val.length} is not atLeast(${min})`;
+export const minLength = (min: number): LogicalConstraint<string> =>
+  withMeta(
+    { name: "minLength", params: { min }, jsonSchema: { minLength: min } },
+    (val) =>
+      val.length >= min ? true : `length ${val.length} is not atLeast(${min})`,
+  );
 
 /**
  * Ensures `val.length ≤ max`.
  */
-export const maxLength =
-  (max: number): LogicalConstraint<string> =>
-  (val) =>
-    val.length <= max ? true : `length ${val.length} is not atMost(${max})`;
+export const maxLength = (max: number): LogicalConstraint<string> =>
+  withMeta(
+    { name: "maxLength", params: { max }, jsonSchema: { maxLength: max } },
+    (val) =>
+      val.length <= max ? true : `length ${val.length} is not atMost(${max})`,
+  );
 
 /**
  * val.length === n
  */
-export const length =
-  (n: number): LogicalConstraint<string> =>
-  (val) =>
-    val.length === n ? true : `length ${val.length} must be exactly ${n}`;
+export const length = (n: number): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "length",
+      params: { n },
+      jsonSchema: { minLength: n, maxLength: n },
+    },
+    (val) =>
+      val.length === n ? true : `length ${val.length} must be exactly ${n}`,
+  );
 
 /**
  * min ≤ val.length ≤ max  (inclusive)
  */
-export const lengthBetween =
-  (min: number, max: number): LogicalConstraint<string> =>
-  (val) => {
-    const { length: len } = val;
-    return len >= min && len <= max
-      ? true
-      : `length ${len} is not between(${min}, ${max})`;
-  };
+export const lengthBetween = (
+  min: number,
+  max: number,
+): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "lengthBetween",
+      params: { min, max },
+      jsonSchema: { minLength: min, maxLength: max },
+    },
+    (val) => {
+      const { length: len } = val;
+      return len >= min && len <= max
+        ? true
+        : `length ${len} is not between(${min}, ${max})`;
+    },
+  );
 
 /* -------------------------------------------------------------------------- */
 /*  Character Set & Encoding                                                  */
 /* -------------------------------------------------------------------------- */
 
 /** ASCII (0-127) only */
-export const validAscii: LogicalConstraint<string> = (val) =>
-  // eslint-disable-next-line no-control-regex
-  /^[\x00-\x7F]*$/.test(val) ? true : "must contain only ASCII characters";
+export const validAscii: LogicalConstraint<string> = withMeta(
+  { name: "validAscii", jsonSchema: { pattern: "^[\\x00-\\x7F]*$" } },
+  (val) =>
+    // eslint-disable-next-line no-control-regex
+    /^[\x00-\x7F]*$/.test(val) ? true : "must contain only ASCII characters",
+);
 
 /** [A-Z a-z 0-9] one or more */
-export const alphanumeric: LogicalConstraint<string> = (val) =>
-  /^[A-Za-z0-9]+$/.test(val) ? true : "must be alphanumeric";
+export const alphanumeric: LogicalConstraint<string> = withMeta(
+  { name: "alphanumeric", jsonSchema: { pattern: "^[A-Za-z0-9]+$" } },
+  (val) => (/^[A-Za-z0-9]+$/.test(val) ? true : "must be alphanumeric"),
+);
 
 /** Letters only */
-export const alpha: LogicalConstraint<string> = (val) =>
-  /^[A-Za-z]+$/.test(val) ? true : "must contain only alphabetic characters";
+export const alpha: LogicalConstraint<string> = withMeta(
+  { name: "alpha", jsonSchema: { pattern: "^[A-Za-z]+$" } },
+  (val) =>
+    /^[A-Za-z]+$/.test(val) ? true : "must contain only alphabetic characters",
+);
 
 /** Digits only */
-export const numeric: LogicalConstraint<string> = (val) =>
-  /^\d+$/.test(val) ? true : "must contain only numeric characters";
+export const numeric: LogicalConstraint<string> = withMeta(
+  { name: "numeric", jsonSchema: { pattern: "^\\d+$" } },
+  (val) => (/^\d+$/.test(val) ? true : "must contain only numeric characters"),
+);
 
 /** Hexadecimal string (upper or lower) */
-export const hex: LogicalConstraint<string> = (val) =>
-  /^[0-9A-Fa-f]+$/.test(val) ? true : "must be valid hexadecimal";
+export const hex: LogicalConstraint<string> = withMeta(
+  { name: "hex", jsonSchema: { pattern: "^[0-9A-Fa-f]+$" } },
+  (val) => (/^[0-9A-Fa-f]+$/.test(val) ? true : "must be valid hexadecimal"),
+);
+
+const BASE64_RE =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
 
 /** RFC-4648 base-64 encoding */
-export const base64: LogicalConstraint<string> = (val) =>
-  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(val)
-    ? true
-    : "must be valid base64";
+export const base64: LogicalConstraint<string> = withMeta(
+  {
+    name: "base64",
+    jsonSchema: { contentEncoding: "base64", pattern: BASE64_RE.source },
+  },
+  (val) => (BASE64_RE.test(val) ? true : "must be valid base64"),
+);
 
 /**
  * RFC-4122 version-4 UUID validator (kept for backwards-compat).
  */
-export const aUUID: LogicalConstraint<string> = (val) =>
-  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
-    val,
-  )
-    ? true
-    : "Invalid UUID";
+export const aUUID: LogicalConstraint<string> = withMeta(
+  {
+    name: "aUUID",
+    jsonSchema: {
+      format: "uuid",
+      pattern:
+        "^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-4[0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$",
+    },
+  },
+  (val) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
+      val,
+    )
+      ? true
+      : "Invalid UUID",
+);
 
 /** Alias of {@link aUUID}. */
 export const uuid = aUUID;
@@ -144,134 +216,213 @@ export const uuid = aUUID;
 /*  Structural / Format Validators                                            */
 /* -------------------------------------------------------------------------- */
 
-/** val matches provided `RegExp` */
-export const matching =
-  (re: RegExp): LogicalConstraint<string> =>
-  (val) =>
-    re.test(val) ? true : `must match ${re.toString()}`;
+/**
+ * val matches provided `RegExp`.  Only the pattern source is emitted to JSON
+ * Schema – flags such as `i` have no JSON-Schema equivalent.
+ */
+export const matching = (re: RegExp): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "matching",
+      params: { pattern: re.source, flags: re.flags },
+      jsonSchema: { pattern: re.source },
+    },
+    (val) => (re.test(val) ? true : `must match ${re.toString()}`),
+  );
 
 /** val starts with prefix */
-export const startingWith =
-  (prefix: string): LogicalConstraint<string> =>
-  (val) =>
-    val.startsWith(prefix) ? true : `must start with "${prefix}"`;
+export const startingWith = (prefix: string): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "startingWith",
+      params: { prefix },
+      jsonSchema: { pattern: `^${escapeRegExp(prefix)}` },
+    },
+    (val) => (val.startsWith(prefix) ? true : `must start with "${prefix}"`),
+  );
 
 /** val ends with suffix */
-export const endingWith =
-  (suffix: string): LogicalConstraint<string> =>
-  (val) =>
-    val.endsWith(suffix) ? true : `must end with "${suffix}"`;
+export const endingWith = (suffix: string): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "endingWith",
+      params: { suffix },
+      jsonSchema: { pattern: `${escapeRegExp(suffix)}$` },
+    },
+    (val) => (val.endsWith(suffix) ? true : `must end with "${suffix}"`),
+  );
 
 /** val includes substring */
-export const containing =
-  (substr: string): LogicalConstraint<string> =>
-  (val) =>
-    val.includes(substr) ? true : `must contain "${substr}"`;
+export const containing = (substr: string): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "containing",
+      params: { substr },
+      jsonSchema: { pattern: escapeRegExp(substr) },
+    },
+    (val) => (val.includes(substr) ? true : `must contain "${substr}"`),
+  );
 
 /** val does NOT include substring */
-export const notContaining =
-  (substr: string): LogicalConstraint<string> =>
-  (val) =>
-    !val.includes(substr) ? true : `must not contain "${substr}"`;
+export const notContaining = (substr: string): LogicalConstraint<string> =>
+  withMeta(
+    {
+      name: "notContaining",
+      params: { substr },
+      jsonSchema: { not: { pattern: escapeRegExp(substr) } },
+    },
+    (val) => (!val.includes(substr) ? true : `must not contain "${substr}"`),
+  );
 
 /** slug (lower-case words separated by single hyphens) */
-export const slug: LogicalConstraint<string> = (val) =>
-  /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(val)
-    ? true
-    : "must be a valid slug (lower-case, hyphen-separated)";
+export const slug: LogicalConstraint<string> = withMeta(
+  { name: "slug", jsonSchema: { pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$" } },
+  (val) =>
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(val)
+      ? true
+      : "must be a valid slug (lower-case, hyphen-separated)",
+);
 
 /** Very lightweight email validator */
-export const email: LogicalConstraint<string> = (val) =>
-  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(val) ? true : "must be a valid email";
+export const email: LogicalConstraint<string> = withMeta(
+  { name: "email", jsonSchema: { format: "email" } },
+  (val) =>
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(val) ? true : "must be a valid email",
+);
 
 /** http(s) URL using the WHATWG URL parser */
-export const url: LogicalConstraint<string> = (val) => {
-  try {
-    const u = new URL(val);
-    return u.protocol === "http:" || u.protocol === "https:"
-      ? true
-      : "must be a valid http/https URL";
-  } catch {
-    return "must be a valid http/https URL";
-  }
-};
+export const url: LogicalConstraint<string> = withMeta(
+  { name: "url", jsonSchema: { format: "uri", pattern: "^https?://" } },
+  (val) => {
+    try {
+      const u = new URL(val);
+      return u.protocol === "http:" || u.protocol === "https:"
+        ? true
+        : "must be a valid http/https URL";
+    } catch {
+      return "must be a valid http/https URL";
+    }
+  },
+);
 
 /** Bare domain name (no protocol, path, or port) */
-export const domain: LogicalConstraint<string> = (val) =>
-  /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[A-Za-z]{2,}$/.test(val)
-    ? true
-    : "must be a valid domain";
-
-/** IPv4 or (very simple) IPv6 */
-export const ipAddress: LogicalConstraint<string> = (val) => {
-  // IPv4
+export const domain: LogicalConstraint<string> = withMeta(
+  { name: "domain", jsonSchema: { format: "hostname" } },
+  (val) =>
+    /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[A-Za-z]{2,}$/.test(
+      val,
+    )
+      ? true
+      : "must be a valid domain",
+);
+
+/** Dotted-quad IPv4, e.g. `192.168.0.1`. */
+function isIpv4(val: string): boolean {
   const parts = val.split(".");
-  if (
+  return (
     parts.length === 4 &&
-    parts.every(
-      (p) => /^\d{1,3}$/.test(p) && Number(p) >= 0 && Number(p) <= 255,
-    )
-  ) {
-    return true;
-  }
+    parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)
+  );
+}
 
-  // Relaxed IPv6 (eight 1–4 digit hex groups)
-  if (/^(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}$/i.test(val)) {
-    return true;
+/**
+ * RFC 4291 IPv6 text form – eight hex groups, at most one `::` run of zero
+ * groups and an optional dotted-quad tail, e.g. `::1` or `::ffff:10.0.0.1`.
+ */
+function isIpv6(val: string): boolean {
+  const halves = val.split("::");
+  if (halves.length > 2) return false;
+  const all = halves.flatMap((half) => (half ? half.split(":") : []));
+  let width = all.length;
+  if (width && all[width - 1].includes(".")) {
+    if (!isIpv4(all.pop()!)) return false;
+    width++;
   }
-
-  return "must be a valid IP address";
-};
+  if (!all.every((g) => /^[0-9a-f]{1,4}$/i.test(g))) return false;
+  return halves.length === 2 ? width < 8 : width === 8;
+}
+
+/** IPv4 or IPv6 */
+export const ipAddress: LogicalConstraint<string> = withMeta(
+  {
+    name: "ipAddress",
+    jsonSchema: { anyOf: [{ format: "ipv4" }, { format: "ipv6" }] },
+  },
+  (val) => (isIpv4(val) || isIpv6(val) ? true : "must be a valid IP address"),
+);
 
 /** `JSON.parse` succeeds */
-export const validJson: LogicalConstraint<string> = (val) => {
-  try {
-    JSON.parse(val);
-    return true;
-  } catch {
-    return "must be valid JSON";
-  }
-};
+export const validJson: LogicalConstraint<string> = withMeta(
+  { name: "validJson", jsonSchema: { contentMediaType: "application/json" } },
+  (val) => {
+    try {
+      JSON.parse(val);
+      return true;
+    } catch {
+      return "must be valid JSON";
+    }
+  },
+);
+
+const DATE_ISO_RE = /^\d{4}-\d{2}-\d{2}(?:[Tt ][\d:.\-+Zz]+)?$/;
 
 /** ISO-8601 date/time */
-export const dateIso: LogicalConstraint<string> = (val) =>
-  /^\d{4}-\d{2}-\d{2}(?:[Tt ][\d:.\-+Zz]+)?$/.test(val) &&
-  !Number.isNaN(Date.parse(val))
-    ? true
-    : "must be a valid ISO-8601 date";
+export const dateIso: LogicalConstraint<string> = withMeta(
+  { name: "dateIso", jsonSchema: { pattern: DATE_ISO_RE.source } },
+  (val) =>
+    DATE_ISO_RE.test(val) && !Number.isNaN(Date.parse(val))
+      ? true
+      : "must be a valid ISO-8601 date",
+);
 
 /* -------------------------------------------------------------------------- */
 /*  Casing & Style Validators                                                 */
 /* -------------------------------------------------------------------------- */
 
 /** All lower-case */
-export const lowerCase: LogicalConstraint<string> = (val) =>
-  val === val.toLowerCase() ? true : "must be lower-case";
+export const lowerCase: LogicalConstraint<string> = withMeta(
+  { name: "lowerCase" },
+  (val) => (val === val.toLowerCase() ? true : "must be lower-case"),
+);
 
 /** All upper-case */
-export const upperCase: LogicalConstraint<string> = (val) =>
-  val === val.toUpperCase() ? true : "must be upper-case";
+export const upperCase: LogicalConstraint<string> = withMeta(
+  { name: "upperCase" },
+  (val) => (val === val.toUpperCase() ? true : "must be upper-case"),
+);
 
 /** "Title Case" – every word starts with capital, rest lower */
-export const titleCase: LogicalConstraint<string> = (val) => {
-  const ok = val
-    .split(/\s+/)
-    .filter(Boolean)
-    .every(
-      (w) =>
-        w[0] === w[0]?.toUpperCase() && w.slice(1) === w.slice(1).toLowerCase(),
-    );
-  return ok ? true : "must be title-case";
-};
+export const titleCase: LogicalConstraint<string> = withMeta(
+  { name: "titleCase" },
+  (val) => {
+    const ok = val
+      .split(/\s+/)
+      .filter(Boolean)
+      .every(
+        (w) =>
+          w[0] === w[0]?.toUpperCase() &&
+          w.slice(1) === w.slice(1).toLowerCase(),
+      );
+    return ok ? true : "must be title-case";
+  },
+);
 
 /** camelCase */
-export const camelCase: LogicalConstraint<string> = (val) =>
-  /^[a-z][A-Za-z0-9]*$/.test(val) ? true : "must be camelCase";
+export const camelCase: LogicalConstraint<string> = withMeta(
+  { name: "camelCase", jsonSchema: { pattern: "^[a-z][A-Za-z0-9]*$" } },
+  (val) => (/^[a-z][A-Za-z0-9]*$/.test(val) ? true : "must be camelCase"),
+);
 
 /** snake_case */
-export const snakeCase: LogicalConstraint<string> = (val) =>
-  /^[a-z0-9]+(?:_[a-z0-9]+)*$/.test(val) ? true : "must be snake_case";
+export const snakeCase: LogicalConstraint<string> = withMeta(
+  { name: "snakeCase", jsonSchema: { pattern: "^[a-z0-9]+(?:_[a-z0-9]+)*$" } },
+  (val) =>
+    /^[a-z0-9]+(?:_[a-z0-9]+)*$/.test(val) ? true : "must be snake_case",
+);
 
 /** kebab-case */
-export const kebabCase: LogicalConstraint<string> = (val) =>
-  /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(val) ? true : "must be kebab-case";
+export const kebabCase: LogicalConstraint<string> = withMeta(
+  { name: "kebabCase", jsonSchema: { pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$" } },
+  (val) =>
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(val) ? true : "must be kebab-case",
+);
@@ -0,0 +1,75 @@
+import { LogicalConstraint } from "@src/types";
+import {
+  Duration,
+  PlainDate,
+  PlainTime,
+  TemporalPoint,
+  isTemporalString,
+  parseDateTime,
+} from "@src/temporal";
+import { withMeta } from "./meta";
+
+/** Limits may be given as values or in their ISO 8601 string form. */
+type Limit = TemporalPoint | string;
+
+const show = (v: Limit): string =>
+  v instanceof Date ? v.toISOString() : v.toString();
+
+/**
+ * `limit` as a comparable number.  Strings are parsed once, here, as an ISO
+ * 8601 date, time or date-time; anything else throws a `RangeError`.
+ */
+function pointOf(limit: Limit): number {
+  if (typeof limit !== "string") return +limit;
+  if (isTemporalString("date", limit)) return +PlainDate.parse(limit);
+  if (isTemporalString("time", limit)) return +PlainTime.parse(limit);
+  const at = parseDateTime(limit);
+  if (!at) throw new RangeError(`invalid ISO 8601 limit: ${limit}`);
+  return at.getTime();
+}
+
+/**
+ * val < limit – for `t.date`, `t.dateOnly` and `t.time` values.
+ */
+export const before = (limit: Limit): LogicalConstraint<TemporalPoint> => {
+  const point = pointOf(limit);
+  return withMeta({ name: "before", params: { limit: show(limit) } }, (val) =>
+    +val < point ? true : `${show(val)} is not before(${show(limit)})`,
+  );
+};
+
+/**
+ * val > limit – for `t.date`, `t.dateOnly` and `t.time` values.
+ */
+export const after = (limit: Limit): LogicalConstraint<TemporalPoint> => {
+  const point = pointOf(limit);
+  return withMeta({ name: "after", params: { limit: show(limit) } }, (val) =>
+    +val > point ? true : `${show(val)} is not after(${show(limit)})`,
+  );
+};
+
+/**
+ * val lies within `duration` of `origin` – either side, inclusive.  The
+ * origin defaults to the current time, read when the value is validated;
+ * `PlainDate` values are compared with its UTC date.
+ */
+export const within = (
+  duration: Duration | string,
+  origin?: Date | (() => Date),
+): LogicalConstraint<Date | PlainDate> => {
+  const span =
+    typeof duration === "string" ? Duration.parse(duration) : duration;
+  return withMeta(
+    { name: "within", params: { duration: span.toString() } },
+    (val) => {
+      let from =
+        typeof origin === "function" ? origin() : (origin ?? new Date());
+      if (val instanceof PlainDate) from = PlainDate.fromDate(from).toDate();
+      const lower = span.addTo(from, -1).getTime();
+      const upper = span.addTo(from, 1).getTime();
+      return +val >= lower && +val <= upper
+        ? true
+        : `${show(val)} is not within(${span}) of ${from.toISOString()}`;
+    },
+  );
+};
@@ -0,0 +1,239 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Standalone `.d.ts` emission – plain TypeScript declarations for consumers
+ * that want the shapes of a model without depending on type-a.
+ *
+ * Every class gets two interfaces: `User` for the JSON produced by
+ * `toJSON()` and `UserInput` for what the constructor / `fromJSON` accept
+ * (raw serdes types, `Set`s, `Map`s, `bigint`s, defaulted keys optional).
+ */
+
+import { TypedSpec, resolveLazy, t, unionMembers } from "@src/typed";
+import type { Fields, SchemaClass } from "@src/types";
+
+export interface DeclarationOptions {
+  /** Suffix of the constructor-input interfaces; defaults to `"Input"`. */
+  inputSuffix?: string;
+}
+
+type Mode = "input" | "output";
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function pascal(raw: string): string {
+  return raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+/** `type` parenthesised when it is a union, e.g. before `[]`. */
+function grouped(type: string): string {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
+/** Whether a field's type deserves its own named declaration. */
+function isStructural(field: any): boolean {
+  if (field.cardinality === "set") return true;
+  let spec = field.spec as TypedSpec<any> | SchemaClass;
+  if (typeof spec === "object" && spec.kind === "lazy")
+    spec = resolveLazy(spec);
+  if (typeof spec === "function") return false;
+  return ["enum", "union", "variant", "tuple", "set", "map"].includes(
+    spec.kind,
+  );
+}
+
+class DeclarationWriter {
+  private readonly names = new Map<SchemaClass, string>();
+  private readonly taken = new Set<string>();
+  private readonly queue: SchemaClass[] = [];
+  private readonly out: string[] = [];
+
+  constructor(private readonly inputSuffix: string) {}
+
+  private unique(base: string): string {
+    let name = base || "Model";
+    for (let i = 2; this.taken.has(name); i += 1) name = `${base}${i}`;
+    this.taken.add(name);
+    this.taken.add(`${name}${this.inputSuffix}`);
+    return name;
+  }
+
+  /** Declared name of `ctor`, queuing it for emission on first sight. */
+  private className(ctor: SchemaClass): string {
+    let name = this.names.get(ctor);
+    if (name === undefined) {
+      name = this.unique(pascal((ctor as { name?: string }).name ?? ""));
+      this.names.set(ctor, name);
+      this.queue.push(ctor);
+    }
+    return name;
+  }
+
+  private specType(spec: TypedSpec<any> | SchemaClass, mode: Mode): string {
+    if (typeof spec === "function") {
+      const name = this.className(spec);
+      return mode === "input" ? `${name}${this.inputSuffix}` : name;
+    }
+    switch (spec.kind) {
+      case "primitive":
+        if (spec === t.number) return "number";
+        if (spec === t.boolean) return "boolean";
+        if (spec === t.bigint) return mode === "input" ? "bigint" : "string";
+        return "string";
+      case "literal":
+        return JSON.stringify(spec.literal);
+      case "enum":
+        return Object.values(spec.enumObject ?? {})
+          .map((v) => JSON.stringify(v))
+          .join(" | ");
+      case "serdes":
+        return this.specType(spec.rawSpec!, mode);
+      case "lazy":
+        return this.specType(resolveLazy(spec), mode);
+      case "union":
+      case "variant":
+        return unionMembers(spec)
+          .map((m) => this.specType(m, mode))
+          .join(" | ");
+      case "tuple": {
+        const elements = spec.specs!.map((s) =>
+          s.kind === "optional"
+            ? `${grouped(this.specType(s.innerSpec!, mode))}?`
+            : this.specType(s, mode),
+        );
+        if (spec.restSpec) {
+          elements.push(`...${grouped(this.specType(spec.restSpec, mode))}[]`);
+        }
+        return `[${elements.join(", ")}]`;
+      }
+      case "nullable":
+        return `${this.specType(spec.innerSpec!, mode)} | null`;
+      case "optional":
+        return `${this.specType(spec.innerSpec!, mode)} | undefined`;
+      case "array":
+      case "set": {
+        const item = this.specType(spec.itemSpec!, mode);
+        // `t.set` also takes an array as input.
+        if (spec.kind === "set" && mode === "input") {
+          return `Set<${item}> | ${grouped(item)}[]`;
+        }
+        return `${grouped(item)}[]`;
+      }
+      case "map": {
+        const value = this.specType(spec.valueSpec!, mode);
+        const key = this.specType(spec.keySpec!, mode);
+        if (mode === "input") {
+          return `Record<${key}, ${value}> | Map<${key}, ${value}>`;
+        }
+        // JSON object keys are always strings.
+        const jsonKey = /^(string|"[^"]*"( \| "[^"]*")*)$/.test(key)
+          ? key
+          : "string";
+        return `Record<${jsonKey}, ${value}>`;
+      }
+      default:
+        return "unknown";
+    }
+  }
+
+  private fieldType(field: any, mode: Mode): string {
+    const element = this.specType(field.spec, mode);
+    switch (field.cardinality) {
+      case "array":
+        return `${grouped(element)}[]`;
+      case "set":
+        return mode === "input" ? `Set<${element}>` : `${grouped(element)}[]`;
+      default:
+        return element;
+    }
+  }
+
+  private interfaceDecl(
+    name: string,
+    ctor: SchemaClass,
+    mode: Mode,
+    aliases: Map<string, [string, string]>,
+  ): string {
+    const lines = [`export interface ${name} {`];
+    for (const [key, field] of Object.entries<any>(fieldsOf(ctor))) {
+      const alias = aliases.get(key);
+      let type = alias
+        ? mode === "input"
+          ? alias[1]
+          : alias[0]
+        : this.fieldType(field, mode);
+      if (field.nullable) type = `${type} | null`;
+      const optional =
+        field.optional || (mode === "input" && field.default !== undefined);
+      if (field.description) lines.push(`  /** ${field.description} */`);
+      lines.push(`  ${propertyKey(key)}${optional ? "?" : ""}: ${type};`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  private classDecls(ctor: SchemaClass): void {
+    const name = this.names.get(ctor)!;
+    const decls: string[] = [];
+
+    // Field types that get their own `type X = …` – [output, input] names.
+    const aliases = new Map<string, [string, string]>();
+    for (const [key, field] of Object.entries<any>(fieldsOf(ctor))) {
+      if (!isStructural(field)) continue;
+      const alias = this.unique(`${name}${pascal(key)}`);
+      const output = this.fieldType(field, "output");
+      const input = this.fieldType(field, "input");
+      decls.push(`export type ${alias} = ${output};`);
+      if (input === output) {
+        aliases.set(key, [alias, alias]);
+      } else {
+        decls.push(`export type ${alias}${this.inputSuffix} = ${input};`);
+        aliases.set(key, [alias, `${alias}${this.inputSuffix}`]);
+      }
+    }
+
+    this.out.push(
+      this.interfaceDecl(name, ctor, "output", aliases),
+      this.interfaceDecl(`${name}${this.inputSuffix}`, ctor, "input", aliases),
+      ...decls,
+    );
+  }
+
+  write(roots: SchemaClass[]): string {
+    for (const ctor of roots) this.className(ctor);
+    for (let i = 0; i < this.queue.length; i += 1) {
+      this.classDecls(this.queue[i]);
+    }
+    return `${this.out.join("\n\n")}\n`;
+  }
+}
+
+/**
+ * Print `.d.ts` text for `classes` and every class they reference: an
+ * interface for the JSON output shape, one for the constructor input, and a
+ * named `type` for each variant, union, tuple, map, `Set` or literal-union
+ * field.
+ *
+ * ```ts
+ * writeFileSync("api.d.ts", emitDeclarations([User, Order]));
+ * ```
+ */
+export function emitDeclarations(
+  classes: SchemaClass | SchemaClass[],
+  options: DeclarationOptions = {},
+): string {
+  const writer = new DeclarationWriter(options.inputSuffix ?? "Input");
+  return writer.write(Array.isArray(classes) ? classes : [classes]);
+}
@@ -6,7 +6,8 @@ import type {
   Typeable,
   InputOf,
   OutputOf,
-  LogicalConstraint,
+  Constraint,
+  RequirementCondition,
   Serdes,
 } from "@src/types";
 import type { RawOfSpec, TypedSpec, ValueOfSpec } from "@src/typed.js";
@@ -22,8 +23,8 @@ export interface BaseFieldOpts<T extends Typeable, R = T> {
   /** Optional default value or thunk returning the value. */
   default?: T | (() => T);
 
-  /** Runtime validator (or array of validators). */
-  is?: LogicalConstraint<NonNullable<T>> | LogicalConstraint<NonNullable<T>>[];
+  /** Runtime validator (or array of validators), sync or async. */
+  is?: Constraint<NonNullable<T>> | Constraint<NonNullable<T>>[];
 
   /** Custom serialisation/deserialisation tuple. */
   serdes?: Serdes<T, R>;
@@ -43,6 +44,13 @@ interface FieldExtras {
   /** When `true`, the field accepts `null` in addition to its regular type. */
   nullable?: boolean;
 
+  /**
+   * Makes an `optional` field required whenever the sibling fields match the
+   * condition, e.g. `{ delivery: "ship" }`.  Emitted as `if` / `then` by
+   * `jsonSchema()`.
+   */
+  requiredWhen?: RequirementCondition;
+
   /** Human-readable description forwarded to JSON-Schema `description`. */
   described?: string;
 
@@ -52,6 +60,13 @@ interface FieldExtras {
    * passed to {@link one}.
    */
   asSet?: boolean;
+
+  /**
+   * Protocol Buffers field number used by `protoSchema()` and the protobuf
+   * codec.  Unpinned fields take the lowest free numbers in declaration
+   * order, so pin numbers before reordering or removing fields.
+   */
+  fieldNumber?: number;
 }
 
 export type FieldOpts<T extends Typeable, R = T> = BaseFieldOpts<T, R> &
@@ -94,10 +109,16 @@ function makeField<S extends SchemaClass | TypedSpec<any, any>>(
   // Attach optional metadata
   if (opts.default !== undefined) (field as any).default = opts.default;
   if (opts.is) (field as any).is = opts.is;
-  if (opts.serdes) (field as any).serdes = opts.serdes;
+  // Built-in temporal descriptors bring their own serdes pair.
+  const serdes =
+    opts.serdes ?? (typeof spec === "object" ? spec.serdes : undefined);
+  if (serdes) (field as any).serdes = serdes;
   if (opts.optional) (field as any).optional = true;
   if (opts.nullable) (field as any).nullable = true;
   if (opts.described) (field as any).description = opts.described;
+  if (opts.requiredWhen) (field as any).requiredWhen = opts.requiredWhen;
+  if (opts.fieldNumber !== undefined)
+    (field as any).fieldNumber = opts.fieldNumber;
 
   // Nested schema handling — if the *spec* is a SchemaClass attach it so that
   // the constructor can rehydrate later on.
@@ -116,7 +137,17 @@ export function one<S extends SchemaClass | TypedSpec<any, any>>(
   spec: S,
   opts: FieldOpts<ValueOf<S>, RawOf<S>> = {},
 ): FieldType<ValueOf<S>, RawOf<S>> & { spec: S } {
-  const field = makeField(spec, opts);
+  // On a field, `t.nullable` / `t.optional` are the options of the same name.
+  let inner: SchemaClass | TypedSpec<any, any> = spec;
+  const extras: FieldExtras = {};
+  while (
+    typeof inner === "object" &&
+    (inner.kind === "nullable" || inner.kind === "optional")
+  ) {
+    extras[inner.kind] = true;
+    inner = inner.innerSpec!;
+  }
+  const field = makeField(inner as S, { ...opts, ...extras });
   (field as any).cardinality = "one";
   return field;
 }
@@ -125,10 +156,23 @@ export function one<S extends SchemaClass | TypedSpec<any, any>>(
 // many() builder
 // ---------------------------------------------------------------------------
 
+/**
+ * `many()` options over collection `C`.  Constraints run once per element, so
+ * `is` is typed over the element rather than the collection.
+ */
+export type ManyFieldOpts<S, C extends Typeable, R = C> = Omit<
+  FieldOpts<C, R>,
+  "is"
+> & {
+  is?:
+    | Constraint<NonNullable<ValueOf<S>>>
+    | Constraint<NonNullable<ValueOf<S>>>[];
+};
+
 // Overload – Array (default)
 export function many<S extends SchemaClass | TypedSpec<any, any>>(
   spec: S,
-  opts?: FieldOpts<Array<ValueOf<S>>, Array<RawOf<S>>> & {
+  opts?: ManyFieldOpts<S, Array<ValueOf<S>>, Array<RawOf<S>>> & {
     asSet?: false | undefined;
   },
 ): FieldType<Array<ValueOf<S>>, Array<RawOf<S>>> & { spec: S };
@@ -136,7 +180,7 @@ export function many<S extends SchemaClass | TypedSpec<any, any>>(
 // Overload – Set (when opts.asSet === true)
 export function many<S extends SchemaClass | TypedSpec<any, any>>(
   spec: S,
-  opts: FieldOpts<Set<ValueOf<S>>, Set<RawOf<S>>> & { asSet: true },
+  opts: ManyFieldOpts<S, Set<ValueOf<S>>, Set<RawOf<S>>> & { asSet: true },
 ): FieldType<Set<ValueOf<S>>, Set<RawOf<S>>> & { spec: S };
 
 // Implementation
@@ -0,0 +1,721 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * JSON Schema → runtime `SchemaClass` – the reverse of `jsonSchema()`.
+ *
+ * Object schemas become generated `Schema` classes, property schemas become
+ * `one()` / `many()` fields over `t.*` descriptors, and standard validation
+ * keywords become built-in constraints.  Keywords with no runtime
+ * counterpart are listed in the returned report instead of being dropped
+ * silently.
+ */
+
+import * as c from "@src/constraints";
+import { many, one } from "@src/field";
+import { Schema } from "@src/schema";
+import { isTemporalString } from "@src/temporal";
+import { TupleElement, TypedSpec, t } from "@src/typed";
+import type {
+  Fields,
+  LogicalConstraint,
+  SchemaClass,
+  SchemaOptions,
+} from "@src/types";
+
+type JsonObject = Record<string, any>;
+
+/** A keyword (or whole sub-schema) the importer could not honour. */
+export interface UnsupportedKeyword {
+  /** JSON Pointer of the schema holding the keyword, e.g. `#/properties/a`. */
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+/** A class produced by `Schema.from` over fields only known at runtime. */
+export type GeneratedSchemaClass = ReturnType<typeof Schema.from<Fields>>;
+
+export interface JsonSchemaImport {
+  /** Generated class for the root object schema. */
+  schema: GeneratedSchemaClass;
+  /** Everything that is *not* enforced by `schema`; empty on a full import. */
+  unsupported: UnsupportedKeyword[];
+}
+
+export interface FromJsonSchemaOptions {
+  /** Class name for the root schema; defaults to its `title`. */
+  name?: string;
+}
+
+/** Keywords that only annotate and never affect validation. */
+const ANNOTATIONS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "title",
+  "description",
+  "examples",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+  "default",
+  "definitions",
+  "$defs",
+  "contentMediaType",
+  "contentEncoding",
+  "discriminator",
+  "nullable",
+]);
+
+/** Keywords the importer maps onto descriptors or constraints. */
+const HANDLED = new Set([
+  "$ref",
+  "type",
+  "enum",
+  "const",
+  "oneOf",
+  "anyOf",
+  "allOf",
+  "properties",
+  "required",
+  "additionalProperties",
+  "propertyNames",
+  "dependentRequired",
+  "dependencies",
+  "items",
+  "prefixItems",
+  "additionalItems",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+]);
+
+/** `format: name` enforced by `test`, and exported back as the same keyword. */
+function formatCheck(
+  name: string,
+  test: (val: string) => boolean,
+): LogicalConstraint<string> {
+  return c.withMeta(
+    { name: "format", params: { format: name }, jsonSchema: { format: name } },
+    (val) => (test(val) ? true : `must be a valid ${name}`),
+  );
+}
+
+const isIp = (val: string) => c.ipAddress(val) === true;
+
+/** Formats with an exact runtime check; any other is reported. */
+const FORMATS: Record<string, LogicalConstraint<string>> = {
+  email: c.email,
+  uuid: c.uuid,
+  hostname: c.domain,
+  ipv4: formatCheck("ipv4", (val) => !val.includes(":") && isIp(val)),
+  ipv6: formatCheck("ipv6", (val) => val.includes(":") && isIp(val)),
+  "date-time": formatCheck("date-time", (val) =>
+    isTemporalString("date-time", val),
+  ),
+  date: formatCheck("date", (val) => isTemporalString("date", val)),
+  time: formatCheck("time", (val) => isTemporalString("time", val)),
+  duration: formatCheck("duration", (val) => isTemporalString("duration", val)),
+};
+
+/** What a sub-schema turns into once imported. */
+interface Shape {
+  spec: TypedSpec<any> | SchemaClass;
+  /** `true` for a homogeneous array – built with `many()`. */
+  collection: boolean;
+  nullable: boolean;
+  is: LogicalConstraint<any>[];
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function isObjectSchema(schema: JsonObject): boolean {
+  return (
+    schema.type === "object" ||
+    (Array.isArray(schema.type) && schema.type.includes("object")) ||
+    (schema.type === undefined && schema.properties !== undefined)
+  );
+}
+
+/** Wrap a class where only a `TypedSpec` is accepted (tuple slots, maps). */
+function asSpec(spec: TypedSpec<any> | SchemaClass): TypedSpec<any> {
+  return typeof spec === "function" ? t.lazy(() => spec) : spec;
+}
+
+/** Descriptor of a shape nested in a tuple, map or array. */
+function nestedSpec(shape: Shape): TypedSpec<any> {
+  const spec = shape.collection
+    ? t.array(asSpec(shape.spec))
+    : asSpec(shape.spec);
+  return shape.nullable ? t.nullable(spec) : spec;
+}
+
+class Importer {
+  readonly unsupported: UnsupportedKeyword[] = [];
+  private readonly classes = new Map<string, SchemaClass>();
+  private readonly building = new Set<string>();
+
+  constructor(private readonly root: JsonObject) {}
+
+  report(path: string, keyword: string, message: string): void {
+    this.unsupported.push({ path, keyword, message });
+  }
+
+  /** Generated class for the object schema at `pointer`, built once. */
+  classFor(
+    schema: JsonObject,
+    pointer: string,
+    name?: string,
+  ): TypedSpec<any> | SchemaClass {
+    const done = this.classes.get(pointer);
+    if (done) return done;
+    // Recursive reference – resolve once the class exists.
+    if (this.building.has(pointer)) {
+      return t.lazy(() => this.classes.get(pointer)!);
+    }
+
+    this.building.add(pointer);
+    this.checkKeywords(schema, pointer);
+
+    const required = new Set<string>(schema.required ?? []);
+    const fields: Fields = {};
+    for (const [key, prop] of Object.entries<any>(schema.properties ?? {})) {
+      const path = `${pointer}/properties/${escapePointer(key)}`;
+      const shape = this.shape(prop, path);
+      if (!shape) {
+        this.report(path, "properties", `property "${key}" was dropped`);
+        continue;
+      }
+      fields[key] = this.field(shape, prop, !required.has(key));
+    }
+
+    const options: SchemaOptions = {};
+    const extra = schema.additionalProperties;
+    if (extra === false) options.unknownKeys = "strict";
+    else if (extra === true) options.unknownKeys = "passthrough";
+    else if (extra !== undefined) {
+      this.report(
+        pointer,
+        "additionalProperties",
+        "schema-valued additionalProperties next to properties is not supported",
+      );
+    }
+    if (schema.dependentRequired) {
+      options.dependentRequired = schema.dependentRequired;
+    }
+    // Draft-07 spelling; schema-valued entries have no runtime counterpart.
+    for (const [key, deps] of Object.entries<any>(schema.dependencies ?? {})) {
+      if (Array.isArray(deps)) {
+        options.dependentRequired = {
+          ...options.dependentRequired,
+          [key]: deps,
+        };
+      } else {
+        this.report(
+          pointer,
+          "dependencies",
+          `schema dependency for "${key}" is not supported`,
+        );
+      }
+    }
+
+    class Generated extends Schema.from(fields, options) {}
+    const last = unescapePointer(pointer.split("/").pop()!);
+    const className =
+      name ??
+      schema.title ??
+      (pointer === "#" ? "Generated" : last[0].toUpperCase() + last.slice(1));
+    Object.defineProperty(Generated, "name", { value: className });
+
+    this.building.delete(pointer);
+    this.classes.set(pointer, Generated as unknown as SchemaClass);
+    return Generated as unknown as SchemaClass;
+  }
+
+  private field(shape: Shape, prop: JsonObject, optional: boolean) {
+    const opts: Record<string, unknown> = {};
+    if (optional) opts.optional = true;
+    if (shape.nullable) opts.nullable = true;
+    if (shape.is.length)
+      opts.is = shape.is.length === 1 ? shape.is[0] : shape.is;
+    if (prop?.default !== undefined) opts.default = prop.default;
+    if (prop?.description) opts.described = prop.description;
+    return shape.collection
+      ? many(shape.spec as any, opts as any)
+      : one(shape.spec as any, opts as any);
+  }
+
+  /** Resolve a local `$ref` to its schema and pointer. */
+  private deref(ref: string, path: string): [JsonObject, string] | undefined {
+    if (!ref.startsWith("#")) {
+      this.report(path, "$ref", `remote reference ${ref} is not supported`);
+      return undefined;
+    }
+    let target: any = this.root;
+    for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+      target = target?.[unescapePointer(segment)];
+    }
+    if (target === undefined) {
+      this.report(path, "$ref", `reference ${ref} does not resolve`);
+      return undefined;
+    }
+    return [target, ref === "#/" ? "#" : ref];
+  }
+
+  /** Report every keyword that is neither handled nor an annotation. */
+  private checkKeywords(schema: JsonObject, path: string): void {
+    for (const keyword of Object.keys(schema)) {
+      if (!HANDLED.has(keyword) && !ANNOTATIONS.has(keyword)) {
+        this.report(path, keyword, `keyword "${keyword}" is not supported`);
+      }
+    }
+  }
+
+  shape(schema: unknown, path: string): Shape | undefined {
+    if (schema === null || typeof schema !== "object") {
+      this.report(path, "schema", "boolean schemas are not supported");
+      return undefined;
+    }
+    const s = schema as JsonObject;
+
+    if (typeof s.$ref === "string") {
+      const resolved = this.deref(s.$ref, path);
+      if (!resolved) return undefined;
+      const [target, pointer] = resolved;
+      if (isObjectSchema(target)) {
+        return {
+          spec: this.classFor(target, pointer),
+          collection: false,
+          nullable: false,
+          is: [],
+        };
+      }
+      return this.shape(target, pointer);
+    }
+
+    let nullable = s.nullable === true;
+    let types: string[] = Array.isArray(s.type)
+      ? s.type
+      : s.type === undefined
+        ? []
+        : [s.type];
+    if (types.includes("null")) {
+      nullable = true;
+      types = types.filter((x) => x !== "null");
+    }
+    if (types.length > 1) {
+      this.report(path, "type", `multiple types ${types.join(", ")}`);
+      return undefined;
+    }
+    const type = types[0];
+
+    if (s.const !== undefined) {
+      this.checkKeywords(s, path);
+      if (s.const === null || typeof s.const === "object") {
+        this.report(path, "const", "only primitive constants are supported");
+        return undefined;
+      }
+      return { spec: t.literal(s.const), collection: false, nullable, is: [] };
+    }
+
+    if (Array.isArray(s.enum)) {
+      this.checkKeywords(s, path);
+      const values = (s.enum as unknown[]).filter(
+        (v): v is string | number => v !== null,
+      );
+      if (values.length < s.enum.length) nullable = true;
+      const kind = typeof values[0];
+      if (
+        !values.length ||
+        (kind !== "string" && kind !== "number") ||
+        values.some((v: unknown) => typeof v !== kind)
+      ) {
+        this.report(path, "enum", "enum values must all be strings or numbers");
+        return undefined;
+      }
+      const members = Object.fromEntries(values.map((v) => [String(v), v]));
+      return { spec: t.enum(members), collection: false, nullable, is: [] };
+    }
+
+    const branches = s.oneOf ?? s.anyOf;
+    if (Array.isArray(branches)) {
+      return this.unionShape(s, branches, path, nullable);
+    }
+
+    if (Array.isArray(s.allOf)) {
+      // OpenAPI 3.0 wraps a nullable `$ref` as `allOf: [ref]`.
+      if (s.allOf.length === 1) {
+        const inner = this.shape(s.allOf[0], `${path}/allOf/0`);
+        return inner && { ...inner, nullable: inner.nullable || nullable };
+      }
+      this.report(path, "allOf", "allOf with several schemas is not supported");
+      return undefined;
+    }
+
+    if (type === "object" || (type === undefined && s.properties)) {
+      return this.objectShape(s, path, nullable);
+    }
+    if (type === "array") return this.arrayShape(s, path, nullable);
+
+    this.checkKeywords(s, path);
+    switch (type) {
+      case "string":
+        return {
+          spec: t.string,
+          collection: false,
+          nullable,
+          is: this.stringConstraints(s, path),
+        };
+      case "number":
+      case "integer": {
+        const is = this.numberConstraints(s);
+        if (type === "integer") is.unshift(c.isInteger);
+        return { spec: t.number, collection: false, nullable, is };
+      }
+      case "boolean":
+        return { spec: t.boolean, collection: false, nullable, is: [] };
+      default:
+        this.report(
+          path,
+          "type",
+          type
+            ? `type "${type}" is not supported`
+            : "schemas without a type accept any value and are not supported",
+        );
+        return undefined;
+    }
+  }
+
+  private unionShape(
+    s: JsonObject,
+    branches: unknown[],
+    path: string,
+    nullable: boolean,
+  ): Shape | undefined {
+    this.checkKeywords(s, path);
+    const keyword = s.oneOf ? "oneOf" : "anyOf";
+    const shapes: Shape[] = [];
+    for (const [i, branch] of branches.entries()) {
+      if ((branch as JsonObject)?.type === "null") {
+        nullable = true;
+        continue;
+      }
+      const shape = this.shape(branch, `${path}/${keyword}/${i}`);
+      if (!shape) return undefined;
+      shapes.push(shape);
+    }
+
+    // `anyOf: [X, { type: "null" }]` is just a nullable X.
+    if (shapes.length === 1) {
+      return { ...shapes[0], nullable: shapes[0].nullable || nullable };
+    }
+
+    const ctors: SchemaClass[] = [];
+    for (const { spec } of shapes) {
+      const ctor =
+        typeof spec === "object" && spec.kind === "lazy"
+          ? spec.getter!()
+          : spec;
+      if (typeof ctor !== "function") {
+        this.report(
+          path,
+          keyword,
+          `${keyword} is only supported over object schemas`,
+        );
+        return undefined;
+      }
+      ctors.push(ctor);
+    }
+    const prop = s.discriminator?.propertyName;
+    return {
+      spec: prop ? t.variant(ctors, prop) : t.union(ctors),
+      collection: false,
+      nullable,
+      is: [],
+    };
+  }
+
+  private objectShape(
+    s: JsonObject,
+    path: string,
+    nullable: boolean,
+  ): Shape | undefined {
+    if (s.properties) {
+      return {
+        spec: this.classFor(s, path),
+        collection: false,
+        nullable,
+        is: [],
+      };
+    }
+    this.checkKeywords(s, path);
+    const values = s.additionalProperties;
+    if (values === undefined || typeof values === "boolean") {
+      this.report(
+        path,
+        "additionalProperties",
+        "free-form objects without properties are not supported",
+      );
+      return undefined;
+    }
+    const value = this.shape(values, `${path}/additionalProperties`);
+    if (!value) return undefined;
+    if (value.is.length) {
+      this.report(
+        `${path}/additionalProperties`,
+        "additionalProperties",
+        "map values must be plain types without constraints",
+      );
+    }
+    let keySpec: TypedSpec<any> = t.string;
+    if (s.propertyNames) {
+      const key = this.shape(s.propertyNames, `${path}/propertyNames`);
+      if (key && !key.collection && typeof key.spec === "object") {
+        keySpec = key.spec;
+      }
+      if (key?.is.length) {
+        this.report(
+          `${path}/propertyNames`,
+          "propertyNames",
+          "constraints on map keys are not enforced",
+        );
+      }
+    }
+    return {
+      spec: t.map(keySpec, nestedSpec(value)),
+      collection: false,
+      nullable,
+      is: [],
+    };
+  }
+
+  private arrayShape(
+    s: JsonObject,
+    path: string,
+    nullable: boolean,
+  ): Shape | undefined {
+    this.checkKeywords(s, path);
+    const positional = Array.isArray(s.prefixItems)
+      ? { keyword: "prefixItems", items: s.prefixItems as unknown[] }
+      : Array.isArray(s.items)
+        ? { keyword: "items", items: s.items as unknown[] }
+        : undefined;
+
+    if (positional) {
+      if (s.uniqueItems !== undefined) {
+        this.report(
+          path,
+          "uniqueItems",
+          'array keyword "uniqueItems" is not enforced',
+        );
+      }
+      // Members past `minItems` may be left out.
+      const required =
+        typeof s.minItems === "number" ? s.minItems : positional.items.length;
+      const specs: TupleElement[] = [];
+      for (const [i, item] of positional.items.entries()) {
+        const itemPath = `${path}/${positional.keyword}/${i}`;
+        const shape = this.shape(item, itemPath);
+        if (!shape) return undefined;
+        if (shape.is.length) {
+          this.report(
+            itemPath,
+            positional.keyword,
+            "tuple members must be plain types without constraints",
+          );
+        }
+        const spec = nestedSpec(shape);
+        specs.push(i < required ? spec : t.optional(spec));
+      }
+      // Further members: `items` next to `prefixItems`, else `additionalItems`.
+      const restKeyword =
+        positional.keyword === "prefixItems" ? "items" : "additionalItems";
+      const rest = s[restKeyword];
+      if (rest !== undefined && typeof rest !== "boolean") {
+        const shape = this.shape(rest, `${path}/${restKeyword}`);
+        if (!shape) return undefined;
+        if (shape.is.length) {
+          this.report(
+            `${path}/${restKeyword}`,
+            restKeyword,
+            "tuple members must be plain types without constraints",
+          );
+        }
+        specs.push(t.rest(nestedSpec(shape)));
+      }
+      return { spec: t.tuple(...specs), collection: false, nullable, is: [] };
+    }
+
+    if (s.items === undefined || typeof s.items === "boolean") {
+      this.report(
+        path,
+        "items",
+        "arrays without an items schema are not supported",
+      );
+      return undefined;
+    }
+    for (const keyword of ["minItems", "maxItems", "uniqueItems"]) {
+      if (s[keyword] !== undefined) {
+        this.report(
+          path,
+          keyword,
+          `array keyword "${keyword}" is not enforced`,
+        );
+      }
+    }
+    const item = this.shape(s.items, `${path}/items`);
+    if (!item) return undefined;
+    if (!item.collection) {
+      if (item.nullable && typeof item.spec === "function") {
+        this.report(
+          `${path}/items`,
+          "nullable",
+          "nullable object array items are not supported",
+        );
+        return { spec: item.spec, collection: true, nullable, is: item.is };
+      }
+      const spec = item.nullable ? t.nullable(asSpec(item.spec)) : item.spec;
+      return { spec, collection: true, nullable, is: item.is };
+    }
+    if (item.is.length) {
+      this.report(
+        `${path}/items`,
+        "items",
+        "constraints on nested array items are not enforced",
+      );
+    }
+    return { spec: nestedSpec(item), collection: true, nullable, is: [] };
+  }
+
+  private stringConstraints(
+    s: JsonObject,
+    path: string,
+  ): LogicalConstraint<string>[] {
+    const is: LogicalConstraint<string>[] = [];
+    if (typeof s.minLength === "number") is.push(c.minLength(s.minLength));
+    if (typeof s.maxLength === "number") is.push(c.maxLength(s.maxLength));
+    if (typeof s.pattern === "string") {
+      // Patterns outside ECMA-262 syntax (e.g. `(?i)`) cannot be enforced.
+      try {
+        is.push(c.matching(new RegExp(s.pattern, "u")));
+      } catch {
+        this.report(path, "pattern", `pattern "${s.pattern}" is not valid`);
+      }
+    }
+    if (typeof s.format === "string") {
+      const format = FORMATS[s.format];
+      if (format) is.push(format);
+      else this.report(path, "format", `format "${s.format}" is not enforced`);
+    }
+    return is;
+  }
+
+  private numberConstraints(s: JsonObject): LogicalConstraint<number>[] {
+    const is: LogicalConstraint<number>[] = [];
+    // OpenAPI 3.0 spells exclusive bounds as a boolean next to the bound.
+    if (typeof s.minimum === "number") {
+      is.push(
+        s.exclusiveMinimum === true
+          ? c.greaterThan(s.minimum)
+          : c.atLeast(s.minimum),
+      );
+    }
+    if (typeof s.maximum === "number") {
+      is.push(
+        s.exclusiveMaximum === true
+          ? c.lessThan(s.maximum)
+          : c.atMost(s.maximum),
+      );
+    }
+    if (typeof s.exclusiveMinimum === "number") {
+      is.push(c.greaterThan(s.exclusiveMinimum));
+    }
+    if (typeof s.exclusiveMaximum === "number") {
+      is.push(c.lessThan(s.exclusiveMaximum));
+    }
+    if (typeof s.multipleOf === "number") is.push(c.multipleOf(s.multipleOf));
+    return is;
+  }
+}
+
+/**
+ * Build a working `SchemaClass` from a JSON Schema (Draft-07, 2020-12 or an
+ * OpenAPI Schema Object).  The root must be an object schema; local `$ref`s
+ * into `definitions` / `$defs` become shared (possibly recursive) classes.
+ *
+ * ```ts
+ * const { schema: Partner, unsupported } = fromJsonSchema(partnerDoc);
+ * const res = Partner.fromJSON(payload);
+ * ```
+ *
+ * @throws Error when the root is not an object schema with `properties`.
+ */
+export function fromJsonSchema(
+  doc: Record<string, unknown>,
+  options: FromJsonSchemaOptions = {},
+): JsonSchemaImport {
+  if (!isObjectSchema(doc) || !doc.properties) {
+    throw new Error("fromJsonSchema: the root must be an object schema");
+  }
+  const importer = new Importer(doc);
+  const schema = importer.classFor(
+    doc,
+    "#",
+    options.name,
+  ) as GeneratedSchemaClass;
+  return { schema, unsupported: importer.unsupported };
+}
+
+export interface JsonSchemaDefinitionsImport {
+  /** One generated class per object definition, keyed by definition name. */
+  schemas: Record<string, GeneratedSchemaClass>;
+  unsupported: UnsupportedKeyword[];
+}
+
+/**
+ * Import every object schema declared under an OpenAPI document's
+ * `components.schemas`, or a JSON Schema's `$defs` / `definitions`.  Classes
+ * share one import, so references between definitions resolve to the same
+ * class.
+ */
+export function fromJsonSchemaDefinitions(
+  doc: Record<string, unknown>,
+): JsonSchemaDefinitionsImport {
+  const components = (doc.components as JsonObject | undefined)?.schemas;
+  const [base, definitions] = components
+    ? ["#/components/schemas", components as JsonObject]
+    : doc.$defs
+      ? ["#/$defs", doc.$defs as JsonObject]
+      : ["#/definitions", (doc.definitions ?? {}) as JsonObject];
+
+  const importer = new Importer(doc);
+  const schemas: Record<string, GeneratedSchemaClass> = {};
+  for (const [name, schema] of Object.entries(definitions)) {
+    const pointer = `${base}/${escapePointer(name)}`;
+    if (!isObjectSchema(schema) || !schema.properties) {
+      importer.report(pointer, "type", `definition "${name}" is not an object`);
+      continue;
+    }
+    schemas[name] = importer.classFor(
+      schema,
+      pointer,
+      name,
+    ) as GeneratedSchemaClass;
+  }
+  return { schemas, unsupported: importer.unsupported };
+}
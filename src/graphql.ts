@@ -0,0 +1,357 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * GraphQL SDL generation – `type` and `input` definitions kept in sync with
+ * the `Schema` classes they describe.
+ *
+ * Every class gets an output `type User` and an `input UserInput`.  Enums
+ * become GraphQL enums, variants / unions of classes become `union`s
+ * (output) and tagged input objects with one field per branch (input),
+ * tuples become objects with `item_0`, `item_1`, … fields (and a `rest`
+ * list for a `t.rest` element), `t.array` / `t.set` become lists and maps
+ * become lists of `{ key, value }` entries.  `t.nullable` / `t.optional`
+ * drop the `!` of list items and object fields.  `bigint` and serdes fields
+ * get custom scalars.
+ */
+
+import { TypedSpec, resolveLazy, t } from "@src/typed";
+import type { Fields, SchemaClass } from "@src/types";
+
+export interface GraphQLSchemaOptions {
+  /** Suffix of the generated input object types; defaults to `"Input"`. */
+  inputSuffix?: string;
+}
+
+type Mode = "input" | "output";
+
+/** Output and input names of a declared type (equal for enums). */
+type Named = Record<Mode, string>;
+
+const NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+const RESERVED = new Set(["true", "false", "null"]);
+
+function pascal(raw: string): string {
+  return raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function graphqlName(raw: string): string {
+  const name = raw.replace(/[^_0-9A-Za-z]/g, "_");
+  return NAME.test(name) ? name : `_${name}`;
+}
+
+function camel(raw: string): string {
+  return raw[0].toLowerCase() + raw.slice(1);
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+function description(text: string | undefined, indent: string): string[] {
+  return text ? [`${indent}${JSON.stringify(text)}`] : [];
+}
+
+class SdlWriter {
+  private readonly names = new Map<SchemaClass, string>();
+  /** Named types of anonymous descriptors, keyed by descriptor identity. */
+  private readonly anonymous = new Map<object, Named>();
+  private readonly enumSymbols = new Map<object, Map<unknown, string>>();
+  private readonly taken = new Set<string>();
+  private readonly scalars = new Set<string>();
+  private readonly queue: SchemaClass[] = [];
+  private readonly out: string[] = [];
+  /** Declarations produced while printing the current class. */
+  private pending: string[] = [];
+
+  constructor(private readonly inputSuffix: string) {}
+
+  private unique(base: string): string {
+    let name = base || "Model";
+    for (let i = 2; this.taken.has(name); i += 1) name = `${base}${i}`;
+    this.taken.add(name);
+    this.taken.add(`${name}${this.inputSuffix}`);
+    return name;
+  }
+
+  private named(name: string): Named {
+    return { output: name, input: `${name}${this.inputSuffix}` };
+  }
+
+  /** Declared name of `ctor`, queuing it for emission on first sight. */
+  private className(ctor: SchemaClass): string {
+    let name = this.names.get(ctor);
+    if (name === undefined) {
+      const id = ctor._options?.id ?? (ctor as { name?: string }).name ?? "";
+      name = this.unique(pascal(id));
+      this.names.set(ctor, name);
+      this.queue.push(ctor);
+    }
+    return name;
+  }
+
+  private scalar(name: string): string {
+    this.scalars.add(name);
+    return name;
+  }
+
+  /** Nullable GraphQL type of a `spec` value (maps are entry lists). */
+  private typeName(
+    spec: TypedSpec<any> | SchemaClass,
+    mode: Mode,
+    hint: string,
+  ): string {
+    if (typeof spec === "function") {
+      const name = this.className(spec);
+      return mode === "input" ? `${name}${this.inputSuffix}` : name;
+    }
+    switch (spec.kind) {
+      case "primitive":
+        if (spec === t.number) return "Float";
+        if (spec === t.boolean) return "Boolean";
+        if (spec === t.bigint) return this.scalar("BigInt");
+        return "String";
+      case "literal":
+        return typeof spec.literal === "number"
+          ? "Float"
+          : typeof spec.literal === "boolean"
+            ? "Boolean"
+            : "String";
+      case "enum":
+        return this.enumType(spec, hint);
+      case "serdes": {
+        const example = spec.example;
+        if (example === Date) return this.scalar("DateTime");
+        if (typeof example === "bigint") return this.scalar("BigInt");
+        if (typeof example === "function" && example.name) {
+          return this.scalar(pascal(example.name));
+        }
+        return this.typeName(spec.rawSpec!, mode, hint);
+      }
+      case "lazy":
+        return this.typeName(resolveLazy(spec), mode, hint);
+      case "union":
+      case "variant":
+        // GraphQL unions only admit object types.
+        if (spec.members) {
+          throw new Error(`graphql: ${hint} is a union over descriptors`);
+        }
+        return this.unionType(spec, hint)[mode];
+      case "tuple":
+        return this.tupleType(spec, hint)[mode];
+      case "array":
+      case "set":
+        return `[${this.elementType(spec.itemSpec!, mode, `${hint}Item`)}]`;
+      // Nullability is up to the enclosing list or field – see `elementType`.
+      case "nullable":
+      case "optional":
+        return this.typeName(spec.innerSpec!, mode, hint);
+      case "map":
+        return `[${this.entryType(spec, hint)[mode]}!]`;
+      default:
+        throw new Error(
+          `graphql: cannot represent a "${spec.kind}" descriptor`,
+        );
+    }
+  }
+
+  /** Type of a list item or object field: non-null unless the spec allows it. */
+  private elementType(
+    spec: TypedSpec<any> | SchemaClass,
+    mode: Mode,
+    hint: string,
+  ): string {
+    const type = this.typeName(spec, mode, hint);
+    const target = typeof spec === "object" ? resolveLazy(spec) : spec;
+    return typeof target === "object" &&
+      (target.kind === "nullable" || target.kind === "optional")
+      ? type
+      : `${type}!`;
+  }
+
+  private enumType(spec: TypedSpec<any>, hint: string): string {
+    const enumObject = spec.enumObject ?? {};
+    const known = this.anonymous.get(enumObject);
+    if (known) return known.output;
+
+    const name = this.unique(hint);
+    const entries = Object.entries(enumObject);
+    // Values become the enum names when they are valid names, keys otherwise.
+    const useValues = entries.every(
+      ([, v]) => typeof v === "string" && NAME.test(v) && !RESERVED.has(v),
+    );
+    const symbols = new Map(
+      entries.map(([k, v]) => [v, useValues ? String(v) : graphqlName(k)]),
+    );
+    this.anonymous.set(enumObject, { output: name, input: name });
+    this.enumSymbols.set(enumObject, symbols);
+    this.pending.push(
+      [
+        `enum ${name} {`,
+        ...Array.from(symbols.values(), (s) => `  ${s}`),
+        "}",
+      ].join("\n"),
+    );
+    return name;
+  }
+
+  private unionType(spec: TypedSpec<any>, hint: string): Named {
+    const known = this.anonymous.get(spec);
+    if (known) return known;
+
+    const named = this.named(this.unique(hint));
+    this.anonymous.set(spec, named);
+    const branches = spec.ctors!.map((C) => this.className(C));
+    this.pending.push(
+      `union ${named.output} = ${branches.join(" | ")}`,
+      [
+        `"Exactly one field must be set."`,
+        `input ${named.input} {`,
+        ...branches.map((b) => `  ${camel(b)}: ${b}${this.inputSuffix}`),
+        "}",
+      ].join("\n"),
+    );
+    return named;
+  }
+
+  private tupleType(spec: TypedSpec<any>, hint: string): Named {
+    const known = this.anonymous.get(spec);
+    if (known) return known;
+
+    const named = this.named(this.unique(hint));
+    this.anonymous.set(spec, named);
+    for (const mode of ["output", "input"] as const) {
+      const fields = spec.specs!.map(
+        (s, i) =>
+          `  item_${i}: ${this.elementType(s, mode, `${named.output}Item${i}`)}`,
+      );
+      if (spec.restSpec) {
+        const rest = this.elementType(
+          spec.restSpec,
+          mode,
+          `${named.output}Rest`,
+        );
+        fields.push(`  rest: [${rest}]!`);
+      }
+      const keyword = mode === "output" ? "type" : "input";
+      this.pending.push(
+        [`${keyword} ${named[mode]} {`, ...fields, "}"].join("\n"),
+      );
+    }
+    return named;
+  }
+
+  /** Maps become lists of `{ key, value }` entry objects. */
+  private entryType(spec: TypedSpec<any>, hint: string): Named {
+    const known = this.anonymous.get(spec);
+    if (known) return known;
+
+    const named = this.named(this.unique(`${hint}Entry`));
+    this.anonymous.set(spec, named);
+    for (const mode of ["output", "input"] as const) {
+      const key = this.typeName(spec.keySpec!, mode, `${named.output}Key`);
+      const value = this.elementType(
+        spec.valueSpec!,
+        mode,
+        `${named.output}Value`,
+      );
+      const keyword = mode === "output" ? "type" : "input";
+      this.pending.push(
+        [
+          `${keyword} ${named[mode]} {`,
+          `  key: ${key}!`,
+          `  value: ${value}`,
+          "}",
+        ].join("\n"),
+      );
+    }
+    return named;
+  }
+
+  /** GraphQL literal of a constant input default, when representable. */
+  private defaultLiteral(field: any): string | undefined {
+    const value = field.default;
+    if (value === undefined || typeof value === "function") return undefined;
+    let spec = field.spec as TypedSpec<any> | SchemaClass;
+    if (typeof spec === "object") spec = resolveLazy(spec);
+    if (typeof spec === "object" && spec.kind === "enum") {
+      return this.enumSymbols.get(spec.enumObject ?? {})?.get(value);
+    }
+    if (field.cardinality !== "one") return undefined;
+    // `Infinity` / `NaN` have no literal (JSON.stringify gives `null`).
+    if (typeof value === "number" && !Number.isFinite(value)) return undefined;
+    return ["string", "number", "boolean"].includes(typeof value)
+      ? JSON.stringify(value)
+      : undefined;
+  }
+
+  private fieldLine(key: string, field: any, mode: Mode, owner: string) {
+    const hint = `${owner}${pascal(key)}`;
+    let type =
+      field.cardinality === "one"
+        ? this.typeName(field.spec, mode, hint)
+        : `[${this.elementType(field.spec, mode, hint)}]`;
+    const defaultValue =
+      mode === "input" ? this.defaultLiteral(field) : undefined;
+    const nullable =
+      field.optional || field.nullable || defaultValue !== undefined;
+    if (!nullable) type = `${type}!`;
+    const suffix = defaultValue === undefined ? "" : ` = ${defaultValue}`;
+    return [
+      ...description(field.description, "  "),
+      `  ${graphqlName(key)}: ${type}${suffix}`,
+    ];
+  }
+
+  private classDecls(ctor: SchemaClass): void {
+    const name = this.names.get(ctor)!;
+    this.pending = [];
+    const entries = Object.entries<any>(fieldsOf(ctor));
+    // GraphQL object and input types must declare at least one field.
+    if (!entries.length) throw new Error(`graphql: ${name} has no fields`);
+    for (const mode of ["output", "input"] as const) {
+      const keyword = mode === "output" ? "type" : "input";
+      const declared = mode === "output" ? name : `${name}${this.inputSuffix}`;
+      this.out.push(
+        [
+          `${keyword} ${declared} {`,
+          ...entries.flatMap(([key, field]) =>
+            this.fieldLine(key, field, mode, name),
+          ),
+          "}",
+        ].join("\n"),
+      );
+    }
+    this.out.push(...this.pending);
+  }
+
+  write(roots: SchemaClass[]): string {
+    for (const ctor of roots) this.className(ctor);
+    for (let i = 0; i < this.queue.length; i += 1) {
+      this.classDecls(this.queue[i]);
+    }
+    const scalars = Array.from(this.scalars, (s) => `scalar ${s}`);
+    return `${[...scalars, ...this.out].join("\n\n")}\n`;
+  }
+}
+
+/**
+ * Print GraphQL SDL for `classes` and every class they reference: an output
+ * `type` and an `input` per class, plus the enums, unions, tuple / map-entry
+ * objects and custom scalars they need.  Non-optional, non-nullable fields
+ * are non-null; `many()` fields are lists of non-null elements.
+ *
+ * ```ts
+ * writeFileSync("models.graphql", graphqlSchema([User, Order]));
+ * ```
+ */
+export function graphqlSchema(
+  classes: SchemaClass | SchemaClass[],
+  options: GraphQLSchemaOptions = {},
+): string {
+  const writer = new SdlWriter(options.inputSuffix ?? "Input");
+  return writer.write(Array.isArray(classes) ? classes : [classes]);
+}
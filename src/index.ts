@@ -18,7 +18,22 @@ export { constraints };
 export * from "./schema";
 export * from "./field";
 export * from "./types";
+export { formatIssue, formatPath } from "./issues";
+export * from "./from-json-schema";
+export * from "./codegen";
+export * from "./dts";
+export * from "./openapi";
+export * from "./protobuf";
+export * from "./avro";
+export * from "./msgpack";
+export * from "./graphql";
+export * from "./sql";
 
 // runtime descriptor helpers — expose both modern (`typing`) and legacy
 // (`typed`) aliases for the `t` runtime descriptor factory.
 export { t as typing, t as typed } from "./typed";
+
+// Values exposed by the temporal descriptors (`t.dateOnly`, `t.time`,
+// `t.duration`).
+export { PlainDate, PlainTime, Duration } from "./temporal";
+export type { DurationParts, TemporalFormat, TemporalPoint } from "./temporal";
@@ -0,0 +1,97 @@
+/**
+ * Helpers for working with structured {@link ValidationIssue}s.
+ */
+
+import type { ErrLog, IssuePath, ValidationIssue } from "@src/types";
+
+/**
+ * Render a path the way it would be written in TypeScript: property names
+ * joined by dots and numeric indices in brackets (`user.tags[2]`).
+ */
+export function formatPath(path: IssuePath): string {
+  let out = "";
+  for (const seg of path) {
+    if (typeof seg === "number") out += `[${seg}]`;
+    else out += out ? `.${seg}` : seg;
+  }
+  return out;
+}
+
+/**
+ * Flatten an issue to the legacy `"<path>: <message>"` string returned by
+ * `Schema.validate()`.
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path.length
+    ? `${formatPath(issue.path)}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Short runtime description of a value for {@link ValidationIssue.received}.
+ */
+export function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Set) return "set";
+  if (value instanceof Map) return "map";
+  if (typeof value === "number" && !Number.isFinite(value))
+    return String(value);
+  return typeof value;
+}
+
+/**
+ * Prefix every issue's path with `prefix` (used when bubbling nested issues up
+ * to the parent instance).
+ */
+export function prefixIssues(
+  prefix: IssuePath,
+  issues: ValidationIssue[],
+): ValidationIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    path: [...prefix, ...issue.path],
+  }));
+}
+
+/**
+ * Fold a list of issues into the nested {@link ErrLog} tree returned by
+ * `Schema.fromJSON`.  Every message is kept, in reporting order.
+ *
+ * Path segments are own properties whatever their name (map keys such as
+ * `constructor` or `__proto__` included), except `_errors`, which would hide
+ * the message list: from such a segment on the path is kept in the message
+ * instead (`"_errors.x: expected number"`).
+ */
+export function buildErrLog<T>(issues: ValidationIssue[]): ErrLog<T> {
+  type Node = { _errors: string[] } & Record<string | number, unknown>;
+
+  const root = { _errors: [] } as unknown as Node;
+  for (const issue of issues) {
+    let node = root;
+    let message = issue.message;
+    for (const [i, seg] of issue.path.entries()) {
+      if (seg === "_errors") {
+        message = `${formatPath(issue.path.slice(i))}: ${message}`;
+        break;
+      }
+      if (!Object.prototype.hasOwnProperty.call(node, seg)) {
+        // Defined rather than assigned so that `__proto__` is a plain key.
+        Object.defineProperty(node, seg, {
+          value: { _errors: [] },
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      node = node[seg] as Node;
+    }
+    node._errors.push(message);
+  }
+
+  // Non-enumerable so that the tree can be walked / serialised as plain data.
+  Object.defineProperty(root, "summarize", {
+    value: () => issues.map(formatIssue),
+  });
+  return root as unknown as ErrLog<T>;
+}
@@ -0,0 +1,486 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * JSON-Schema emission for `Schema` classes – shared by `Schema.jsonSchema()`
+ * and the OpenAPI document builder.
+ */
+
+import type {
+  Constraint,
+  Fields,
+  JsonSchemaOptions,
+  JsonSchemaTarget,
+  RequirementCondition,
+  SchemaClass,
+} from "@src/types";
+import {
+  TypedSpec,
+  discriminatorLiteral,
+  requiredLength,
+  resolveLazy,
+  t,
+} from "@src/typed";
+
+// ---------------------------------------------------------------------------
+// Shared state threaded through nested classes
+// ---------------------------------------------------------------------------
+
+export interface JsonSchemaContext {
+  /** Class `jsonSchema()` was called on – referenced as `#`. */
+  root?: SchemaClass;
+  /** Hoisted definitions, keyed by definition name. */
+  definitions: Record<string, Record<string, unknown>>;
+  /** Definition name already assigned to each hoisted class. */
+  names: Map<SchemaClass, string>;
+  /** Reference nested classes through `definitions` instead of inlining. */
+  refs: boolean;
+  /** Prefix of every definition `$ref`, e.g. `"#/definitions/"`. */
+  refPrefix: string;
+  /** Output dialect; Draft-07 unless the caller chose another. */
+  target: JsonSchemaTarget;
+}
+
+const SCHEMA_DIALECTS: Partial<Record<JsonSchemaTarget, string>> = {
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+/** Targets whose schemas are embedded in an OpenAPI document. */
+function isOpenApi(target: JsonSchemaTarget): boolean {
+  return target === "openapi-3.0" || target === "openapi-3.1";
+}
+
+/** Targets whose tuples use `prefixItems` and definitions live in `$defs`. */
+function is202012(target: JsonSchemaTarget): boolean {
+  return target === "2020-12" || target === "openapi-3.1";
+}
+
+const LOWER_BOUNDS = new Set([
+  "minimum",
+  "exclusiveMinimum",
+  "minLength",
+  "minItems",
+]);
+const UPPER_BOUNDS = new Set([
+  "maximum",
+  "exclusiveMaximum",
+  "maxLength",
+  "maxItems",
+]);
+
+/**
+ * Fold a constraint's JSON-Schema fragment into `target`.  Repeated bounds
+ * keep the stricter value, `integer` narrows `number`, and any other clash
+ * (a second `pattern`, say) is pushed into `allOf` so both still apply.
+ */
+function mergeKeywords(
+  target: Record<string, unknown>,
+  fragment: Record<string, unknown>,
+): void {
+  for (const [key, value] of Object.entries(fragment)) {
+    const current = target[key];
+    if (current === undefined) {
+      target[key] = value;
+    } else if (LOWER_BOUNDS.has(key)) {
+      target[key] = Math.max(current as number, value as number);
+    } else if (UPPER_BOUNDS.has(key)) {
+      target[key] = Math.min(current as number, value as number);
+    } else if (key === "type" && current === "number" && value === "integer") {
+      target[key] = value;
+    } else if (JSON.stringify(current) !== JSON.stringify(value)) {
+      target.allOf = [...((target.allOf as unknown[]) ?? []), { [key]: value }];
+    }
+  }
+}
+
+/** JSON-Schema keywords contributed by a field's `is:` constraint(s). */
+function constraintKeywords(
+  is: Constraint<any> | Constraint<any>[] | undefined,
+  target: JsonSchemaTarget,
+): Record<string, unknown> | undefined {
+  if (!is) return undefined;
+  const out: Record<string, unknown> = {};
+  for (const c of Array.isArray(is) ? is : [is]) {
+    if (c.meta?.jsonSchema) mergeKeywords(out, c.meta.jsonSchema);
+  }
+  if (target === "openapi-3.0") toOpenApi30Keywords(out);
+  return Object.keys(out).length ? out : undefined;
+}
+
+/**
+ * Rewrite keywords OpenAPI 3.0 spells differently: numeric
+ * `exclusiveMinimum` / `exclusiveMaximum` become a bound plus a boolean flag
+ * and `const` becomes a single-value `enum`.
+ */
+function toOpenApi30Keywords(schema: Record<string, unknown>): void {
+  for (const [exclusive, bound] of [
+    ["exclusiveMinimum", "minimum"],
+    ["exclusiveMaximum", "maximum"],
+  ] as const) {
+    const value = schema[exclusive];
+    if (typeof value !== "number") continue;
+    const inclusive = schema[bound] as number | undefined;
+    const stricter =
+      inclusive === undefined ||
+      (bound === "minimum" ? value >= inclusive : value <= inclusive);
+    if (stricter) {
+      schema[bound] = value;
+      schema[exclusive] = true;
+    } else {
+      delete schema[exclusive];
+    }
+  }
+  if ("const" in schema) {
+    schema.enum = [schema.const];
+    delete schema.const;
+  }
+}
+
+/**
+ * Return a `$ref` pointing at `ctor`, hoisting its object schema into
+ * `ctx.definitions` on first sight.  The name is reserved *before* the body is
+ * generated so that self-references terminate.  OpenAPI schemas live inside a
+ * larger document where `#` is not the schema, so there the root is hoisted
+ * like any other class.
+ */
+export function definitionRef(
+  ctor: SchemaClass,
+  ctx: JsonSchemaContext,
+): Record<string, unknown> {
+  if (ctor === ctx.root && !isOpenApi(ctx.target)) return { $ref: "#" };
+
+  let name = ctx.names.get(ctor);
+  if (name === undefined) {
+    const base =
+      ctor._options?.id ||
+      (ctor as unknown as { name?: string }).name ||
+      "Schema";
+    name = base;
+    for (let i = 2; name in ctx.definitions; i += 1) name = `${base}${i}`;
+    ctx.names.set(ctor, name);
+    ctx.definitions[name] = {};
+    ctx.definitions[name] = objectJsonSchema(ctor, ctx);
+  }
+  return { $ref: `${ctx.refPrefix}${name}` };
+}
+
+/**
+ * Widen `schema` to also accept `null` – `type: [x, "null"]` (or an extra
+ * `null` branch) for JSON-Schema targets, `nullable: true` for OpenAPI 3.0.
+ * A `const` / `enum` would still reject `null`, so `null` joins the values.
+ */
+function withNull(
+  schema: Record<string, unknown>,
+  target: JsonSchemaTarget,
+): Record<string, unknown> {
+  if ("const" in schema) {
+    const { const: value, ...rest } = schema;
+    schema = { ...rest, enum: [value] };
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema = { ...schema, enum: [...schema.enum, null] };
+  }
+  if (target === "openapi-3.0") {
+    // 3.0 ignores `nullable` without a sibling `type`, so a `$ref` or a
+    // union gains a branch accepting `null` alone instead.
+    if (typeof schema.type === "string") return { ...schema, nullable: true };
+    const nullBranch = { type: "object", nullable: true, enum: [null] };
+    for (const key of ["oneOf", "anyOf"] as const) {
+      if (Array.isArray(schema[key]) && !schema.discriminator) {
+        return { ...schema, [key]: [...schema[key], nullBranch] };
+      }
+    }
+    return { anyOf: [schema, nullBranch] };
+  }
+  if (schema.type) {
+    if (Array.isArray(schema.type)) {
+      if (!(schema.type as string[]).includes("null")) {
+        schema.type = [...(schema.type as string[]), "null"];
+      }
+    } else if (typeof schema.type === "string") {
+      schema.type = [schema.type as string, "null"];
+    }
+    return schema;
+  }
+  if (schema.oneOf) {
+    schema.oneOf = [...(schema.oneOf as unknown[]), { type: "null" }];
+    return schema;
+  }
+  if (schema.anyOf) {
+    schema.anyOf = [...(schema.anyOf as unknown[]), { type: "null" }];
+    return schema;
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+/** Schema for a nested class: a `$ref` in `refs` mode, inlined otherwise. */
+function nestedJsonSchema(
+  ctor: SchemaClass,
+  ctx: JsonSchemaContext,
+): Record<string, unknown> {
+  return ctx.refs ? definitionRef(ctor, ctx) : objectJsonSchema(ctor, ctx);
+}
+
+export function objectJsonSchema(
+  ctor: SchemaClass,
+  ctx: JsonSchemaContext,
+): Record<string, unknown> {
+  const schema = (ctor as any)._schema as Fields;
+
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  const specToSchema = (
+    spec: TypedSpec<any> | SchemaClass,
+  ): Record<string, unknown> => {
+    if (typeof spec === "function") {
+      return nestedJsonSchema(spec, ctx);
+    }
+
+    switch (spec.kind) {
+      case "primitive": {
+        let typeStr: string;
+        if (spec === t.string) typeStr = "string";
+        else if (spec === t.number) typeStr = "number";
+        else if (spec === t.boolean) typeStr = "boolean";
+        else if (spec === t.bigint)
+          typeStr = "string"; // encode bigint as string in JSON
+        else typeStr = "string"; // fallback
+        return { type: typeStr };
+      }
+      case "literal": {
+        const baseType = typeof spec.literal;
+        return ctx.target === "openapi-3.0"
+          ? { type: baseType, enum: [spec.literal] }
+          : { type: baseType, const: spec.literal };
+      }
+      case "enum": {
+        const values = Object.values(spec.enumObject ?? {});
+        const types = Array.from(new Set(values.map((v) => typeof v)));
+        if (types.length <= 1)
+          return { type: types[0] ?? "string", enum: values };
+        // OpenAPI 3.0 has no type arrays – the values alone say it all.
+        return ctx.target === "openapi-3.0"
+          ? { enum: values }
+          : { type: types, enum: values };
+      }
+      case "serdes": {
+        const raw = specToSchema(spec.rawSpec!);
+        return spec.format ? { ...raw, format: spec.format } : raw;
+      }
+      case "union": {
+        // Members may overlap (`t.string` and a string literal), and the
+        // first one accepting a value wins – hence `anyOf`.
+        if (spec.members) return { anyOf: spec.members.map(specToSchema) };
+        return { oneOf: spec.ctors!.map((C) => nestedJsonSchema(C, ctx)) };
+      }
+      case "variant": {
+        const propertyName =
+          (spec.discriminator?.propertyName as string) ?? "kind";
+        if (!isOpenApi(ctx.target)) {
+          return {
+            oneOf: spec.ctors!.map((C) => nestedJsonSchema(C, ctx)),
+            discriminator: { propertyName },
+          };
+        }
+        // OpenAPI's `mapping` points at named schemas, so branches are
+        // always referenced rather than inlined.
+        const oneOf = spec.ctors!.map((C) => definitionRef(C, ctx));
+        const mapping: Record<string, string> = {};
+        spec.ctors!.forEach((C, i) => {
+          const value = discriminatorLiteral(C, propertyName);
+          if (value !== undefined) {
+            mapping[String(value)] = oneOf[i].$ref as string;
+          }
+        });
+        return { oneOf, discriminator: { propertyName, mapping } };
+      }
+
+      case "tuple": {
+        const items = spec.specs!.map((s) => specToSchema(s));
+        const rest = spec.restSpec && specToSchema(spec.restSpec);
+        const bounds = {
+          minItems: requiredLength(spec.specs!),
+          ...(rest ? {} : { maxItems: items.length }),
+        };
+        if (is202012(ctx.target)) {
+          return {
+            type: "array",
+            prefixItems: items,
+            items: rest ?? false,
+            ...bounds,
+          };
+        }
+        if (ctx.target === "openapi-3.0") {
+          // No positional items in 3.0 – the closest is "any of the members".
+          const all = rest ? [...items, rest] : items;
+          const distinct = all.filter(
+            (s, i) =>
+              all.findIndex((o) => JSON.stringify(o) === JSON.stringify(s)) ===
+              i,
+          );
+          return {
+            type: "array",
+            items: distinct.length === 1 ? distinct[0] : { anyOf: distinct },
+            ...bounds,
+          };
+        }
+        return {
+          type: "array",
+          items,
+          ...(rest ? { additionalItems: rest } : {}),
+          ...bounds,
+        };
+      }
+
+      case "nullable":
+        return withNull(specToSchema(spec.innerSpec!), ctx.target);
+
+      // An omitted tuple element or map value has no JSON form of its own.
+      case "optional":
+        return specToSchema(spec.innerSpec!);
+
+      case "array":
+      case "set":
+        return { type: "array", items: specToSchema(spec.itemSpec!) };
+
+      case "map": {
+        const out: Record<string, unknown> = {
+          type: "object",
+          additionalProperties: specToSchema(spec.valueSpec!),
+        };
+        if (ctx.target !== "openapi-3.0") {
+          out.propertyNames = specToSchema(spec.keySpec!);
+        }
+        return out;
+      }
+      case "lazy": {
+        const target = resolveLazy(spec);
+        return typeof target === "function"
+          ? definitionRef(target, ctx)
+          : specToSchema(target);
+      }
+      default:
+        return {};
+    }
+  };
+
+  for (const [key, fieldDef] of Object.entries(schema)) {
+    const spec = (fieldDef as any).spec as TypedSpec<any> | SchemaClass;
+    const cardinality = (fieldDef as any).cardinality ?? "one";
+
+    let propSchema = specToSchema(spec);
+
+    // Constraints run against the in-memory value, which for serdes fields
+    // is not the raw JSON being described – so only plain specs get them.
+    const keywords = constraintKeywords((fieldDef as any).is, ctx.target);
+    if (keywords && !(typeof spec === "object" && spec.kind === "serdes")) {
+      mergeKeywords(propSchema, keywords);
+    }
+
+    if (
+      cardinality === "array" ||
+      cardinality === "set" ||
+      cardinality === "many"
+    ) {
+      propSchema = { type: "array", items: propSchema };
+    }
+
+    // ---------------------------------------------------------------
+    // Nullable support — when the field is flagged as `nullable: true`
+    // we widen the schema to also allow the JSON literal `null`.
+    // ---------------------------------------------------------------
+    const isNullable = (fieldDef as any).nullable === true;
+    if (isNullable) propSchema = withNull(propSchema, ctx.target);
+
+    const desc = (fieldDef as any).description;
+    if (desc) propSchema.description = desc;
+
+    if ((fieldDef as any).default !== undefined) {
+      const d = (fieldDef as any).default;
+      propSchema.default = typeof d === "function" ? d() : d;
+    }
+
+    properties[key] = propSchema;
+
+    const optional = (fieldDef as any).optional;
+    if (!optional && (fieldDef as any).default === undefined) {
+      required.push(key);
+    }
+  }
+
+  const out: Record<string, unknown> = {
+    type: "object",
+    properties,
+  };
+  if (required.length) out.required = required;
+
+  const unknownKeys = ctor._options?.unknownKeys;
+  if (unknownKeys === "strict") out.additionalProperties = false;
+  else if (unknownKeys === "passthrough") out.additionalProperties = true;
+
+  // OpenAPI 3.0 has neither `if` / `then` nor `dependentRequired`; conditional
+  // requirements are only enforced at runtime there.
+  if (ctx.target === "openapi-3.0") return out;
+
+  // Conditional requirements: `requiredWhen` → `if` / `then`, schema-level
+  // `dependentRequired` copied verbatim (as `dependencies` for draft-07).
+  const conditionals: Record<string, unknown>[] = [];
+  for (const [key, fieldDef] of Object.entries(schema)) {
+    const when = (fieldDef as any).requiredWhen as
+      | RequirementCondition
+      | undefined;
+    if (!when) continue;
+    const ifProps: Record<string, unknown> = {};
+    for (const [k, expected] of Object.entries(when)) {
+      ifProps[k] = Array.isArray(expected)
+        ? { enum: expected }
+        : { const: expected };
+    }
+    conditionals.push({
+      if: { properties: ifProps, required: Object.keys(when) },
+      then: { required: [key] },
+    });
+  }
+  if (conditionals.length) out.allOf = conditionals;
+
+  const dependentRequired = ctor._options?.dependentRequired;
+  if (dependentRequired && Object.keys(dependentRequired).length) {
+    out[ctx.target === "draft-07" ? "dependencies" : "dependentRequired"] =
+      dependentRequired;
+  }
+
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Complete JSON-Schema document for `ctor`, with hoisted definitions and the
+ * dialect's `$schema` marker.  Backs `Schema.jsonSchema()`.
+ */
+export function classJsonSchema(
+  ctor: SchemaClass,
+  options: JsonSchemaOptions = {},
+): Record<string, unknown> {
+  const target = options.target ?? "draft-07";
+  const definitionsKey =
+    options.definitionsKey ?? (is202012(target) ? "$defs" : "definitions");
+  const ctx: JsonSchemaContext = {
+    root: ctor,
+    definitions: {},
+    names: new Map(),
+    refs: options.refs === true,
+    refPrefix: `#/${definitionsKey}/`,
+    target,
+  };
+  const body = objectJsonSchema(ctor, ctx);
+  const dialect = options.target && SCHEMA_DIALECTS[options.target];
+  const out = dialect ? { $schema: dialect, ...body } : body;
+  if (Object.keys(ctx.definitions).length) {
+    out[definitionsKey] = ctx.definitions;
+  }
+  return out;
+}
@@ -0,0 +1,536 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * MessagePack binary encoding, guided by `_schema` so that decoding restores
+ * what JSON loses.
+ *
+ * Mapping:
+ *
+ * - Instances → maps keyed by field name; unset fields are left out.
+ * - `t.bigint` → the int family (up to 64 bits), decoded back to `bigint`;
+ *   integral numbers use the int family too, other numbers `float 64`.
+ * - `t.map` → maps with typed keys, so numeric / bigint keys survive.
+ * - `many()` and tuples → arrays; `Set` fields decode to `Set`s again.
+ * - `null` and `undefined` → nil, decoded to `undefined` where the spec is
+ *   `t.optional`.
+ * - `t.variant` / `t.union` → `[branchIndex, map]`.
+ * - Field serdes are applied, except that deserialised `Uint8Array`s and
+ *   `Date`s are written natively as `bin` and the timestamp extension
+ *   (type -1); decoding passes them through the field's serializer to
+ *   recover the raw form.
+ */
+
+import {
+  TypedSpec,
+  conformsTo,
+  discriminatorLiteral,
+  mapFromEntries,
+  mapKeyFromString,
+  resolveLazy,
+  t,
+  unionMembers,
+} from "@src/typed";
+import type { Fields, SchemaClass, SchemaInstance } from "@src/types";
+import { ByteReader, ByteWriter, utf8Decoder, utf8Encoder } from "@src/wire";
+
+/** Extension type of the standard timestamp extension. */
+const TIMESTAMP = -1;
+
+type Serdes = [(val: unknown) => unknown, (raw: unknown) => unknown];
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+function className(ctor: SchemaClass): string {
+  return ctor._options?.id ?? (ctor as { name?: string }).name ?? "";
+}
+
+class Writer extends ByteWriter {
+  /** Big-endian two's complement of `n` in `size` bytes. */
+  private be(n: bigint | number, size: number): void {
+    const u = BigInt.asUintN(size * 8, BigInt(n));
+    for (let i = size - 1; i >= 0; i -= 1) {
+      this.byte(Number((u >> BigInt(i * 8)) & 0xffn));
+    }
+  }
+
+  /** Header byte followed by a big-endian length / value. */
+  private head(b: number, n: number, size: number): void {
+    this.byte(b);
+    this.be(n, size);
+  }
+
+  nil(): void {
+    this.byte(0xc0);
+  }
+
+  bool(b: boolean): void {
+    this.byte(b ? 0xc3 : 0xc2);
+  }
+
+  int(v: bigint | number): void {
+    const n = BigInt(v);
+    if (n >= 0n) {
+      if (n < 0x80n) this.byte(Number(n));
+      else if (n < 0x100n) this.head(0xcc, Number(n), 1);
+      else if (n < 0x10000n) this.head(0xcd, Number(n), 2);
+      else if (n < 0x100000000n) this.head(0xce, Number(n), 4);
+      else if (BigInt.asUintN(64, n) === n) {
+        this.byte(0xcf);
+        this.be(n, 8);
+      } else throw new Error(`msgpack: ${n} does not fit 64 bits`);
+      return;
+    }
+    if (n >= -0x20n) this.byte(Number(n) & 0xff);
+    else if (n >= -0x80n) this.head(0xd0, Number(n), 1);
+    else if (n >= -0x8000n) this.head(0xd1, Number(n), 2);
+    else if (n >= -0x80000000n) this.head(0xd2, Number(n), 4);
+    else if (BigInt.asIntN(64, n) === n) {
+      this.byte(0xd3);
+      this.be(n, 8);
+    } else throw new Error(`msgpack: ${n} does not fit 64 bits`);
+  }
+
+  number(n: number): void {
+    if (Number.isSafeInteger(n) && !Object.is(n, -0)) {
+      this.int(n);
+    } else {
+      this.byte(0xcb);
+      this.float64(n, false);
+    }
+  }
+
+  str(s: string): void {
+    const bytes = utf8Encoder.encode(s);
+    const n = bytes.length;
+    if (n < 0x20) this.byte(0xa0 | n);
+    else if (n < 0x100) this.head(0xd9, n, 1);
+    else if (n < 0x10000) this.head(0xda, n, 2);
+    else this.head(0xdb, n, 4);
+    this.raw(bytes);
+  }
+
+  bin(bytes: Uint8Array): void {
+    const n = bytes.length;
+    if (n < 0x100) this.head(0xc4, n, 1);
+    else if (n < 0x10000) this.head(0xc5, n, 2);
+    else this.head(0xc6, n, 4);
+    this.raw(bytes);
+  }
+
+  array(n: number): void {
+    if (n < 0x10) this.byte(0x90 | n);
+    else if (n < 0x10000) this.head(0xdc, n, 2);
+    else this.head(0xdd, n, 4);
+  }
+
+  map(n: number): void {
+    if (n < 0x10) this.byte(0x80 | n);
+    else if (n < 0x10000) this.head(0xde, n, 2);
+    else this.head(0xdf, n, 4);
+  }
+
+  /** Timestamp extension in its smallest form (32, 64 or 96 bits). */
+  timestamp(date: Date): void {
+    const ms = date.getTime();
+    if (Number.isNaN(ms)) throw new Error("msgpack: invalid Date");
+    const sec = Math.floor(ms / 1000);
+    const ns = (ms - sec * 1000) * 1e6;
+    if (sec >= 0 && sec < 2 ** 34) {
+      if (ns === 0 && sec < 2 ** 32) {
+        this.head(0xd6, TIMESTAMP, 1);
+        this.be(sec, 4);
+      } else {
+        this.head(0xd7, TIMESTAMP, 1);
+        this.be((BigInt(ns) << 34n) | BigInt(sec), 8);
+      }
+      return;
+    }
+    this.head(0xc7, 12, 1);
+    this.be(TIMESTAMP, 1);
+    this.be(ns, 4);
+    this.be(sec, 8);
+  }
+}
+
+class Reader extends ByteReader {
+  constructor(buf: Uint8Array) {
+    super(buf, "msgpack");
+  }
+
+  /** Big-endian unsigned integer of `size` bytes. */
+  private uint(size: number): bigint {
+    let n = 0n;
+    for (const b of this.raw(size)) n = (n << 8n) | BigInt(b);
+    return n;
+  }
+
+  private length(size: number): number {
+    return Number(this.uint(size));
+  }
+
+  /** Integers within the safe range as numbers, larger ones as bigints. */
+  private int(size: number, signed: boolean): number | bigint {
+    const u = this.uint(size);
+    const n = signed ? BigInt.asIntN(size * 8, u) : u;
+    return Number.isSafeInteger(Number(n)) ? Number(n) : n;
+  }
+
+  private ext(length: number): unknown {
+    const type = Number(BigInt.asIntN(8, this.uint(1)));
+    if (type !== TIMESTAMP) {
+      throw new Error(`msgpack: unsupported extension type ${type}`);
+    }
+    let sec: bigint;
+    let ns = 0n;
+    if (length === 4) {
+      sec = this.uint(4);
+    } else if (length === 8) {
+      const v = this.uint(8);
+      ns = v >> 34n;
+      sec = v & 0x3ffffffffn;
+    } else if (length === 12) {
+      ns = this.uint(4);
+      sec = BigInt.asIntN(64, this.uint(8));
+    } else {
+      throw new Error(`msgpack: invalid timestamp length ${length}`);
+    }
+    return new Date(Number(sec) * 1000 + Math.floor(Number(ns) / 1e6));
+  }
+
+  private items(n: number): unknown[] {
+    const out: unknown[] = [];
+    for (let i = 0; i < n; i += 1) out.push(this.value());
+    return out;
+  }
+
+  private entries(n: number): Map<unknown, unknown> {
+    const out = new Map<unknown, unknown>();
+    for (let i = 0; i < n; i += 1) {
+      const key = this.value();
+      out.set(key, this.value());
+    }
+    return out;
+  }
+
+  /** Next value, schema-agnostic: maps come back as `Map`s. */
+  value(): unknown {
+    const b = this.byte();
+    if (b < 0x80) return b;
+    if (b >= 0xe0) return b - 0x100;
+    if (b < 0x90) return this.entries(b & 0x0f);
+    if (b < 0xa0) return this.items(b & 0x0f);
+    if (b < 0xc0) return utf8Decoder.decode(this.raw(b & 0x1f));
+    switch (b) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return this.raw(this.length(2 ** (b - 0xc4))).slice();
+      case 0xc7:
+      case 0xc8:
+      case 0xc9:
+        return this.ext(this.length(2 ** (b - 0xc7)));
+      case 0xca: {
+        const bytes = this.raw(4);
+        return new DataView(bytes.buffer, bytes.byteOffset, 4).getFloat32(0);
+      }
+      case 0xcb:
+        return this.float64(false);
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        return this.int(2 ** (b - 0xcc), false);
+      case 0xd0:
+      case 0xd1:
+      case 0xd2:
+      case 0xd3:
+        return this.int(2 ** (b - 0xd0), true);
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return this.ext(2 ** (b - 0xd4));
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return utf8Decoder.decode(this.raw(this.length(2 ** (b - 0xd9))));
+      case 0xdc:
+      case 0xdd:
+        return this.items(this.length(2 ** (b - 0xdb)));
+      case 0xde:
+      case 0xdf:
+        return this.entries(this.length(2 ** (b - 0xdd)));
+      default:
+        throw new Error(`msgpack: invalid type byte 0x${b.toString(16)}`);
+    }
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Encoding                                                            */
+/* ------------------------------------------------------------------ */
+
+function branchIndex(spec: TypedSpec<any>, value: unknown): number {
+  if (spec.members) {
+    const index = spec.members.findIndex((m) => conformsTo(m, value));
+    if (index < 0) throw new Error("msgpack: value matches no union branch");
+    return index;
+  }
+  const ctors = spec.ctors!;
+  let index = ctors.findIndex((C) => value instanceof C);
+  const discriminator = spec.discriminator?.propertyName;
+  if (index < 0 && discriminator && typeof value === "object") {
+    const tag = (value as Record<string, unknown>)[discriminator];
+    index = ctors.findIndex(
+      (C) => discriminatorLiteral(C, discriminator) === tag,
+    );
+  }
+  if (index < 0) throw new Error("msgpack: value matches no union branch");
+  return index;
+}
+
+function encodeRecord(w: Writer, ctor: SchemaClass, obj: any): void {
+  const entries = Object.entries<any>(fieldsOf(ctor)).filter(
+    ([key]) => obj[key] !== undefined,
+  );
+  w.map(entries.length);
+  for (const [key, def] of entries) {
+    w.str(key);
+    // Plain objects are already in raw form.
+    const serdes = obj.__isSchemaInstance ? def.serdes : undefined;
+    encodeField(w, def, obj[key], serdes);
+  }
+}
+
+function encodeField(
+  w: Writer,
+  def: any,
+  value: unknown,
+  serdes: Serdes | undefined,
+): void {
+  if (value === null) return w.nil();
+  if (def.cardinality === "one") return encodeItem(w, def.spec, value, serdes);
+  const items = Array.from(value as Iterable<unknown>);
+  w.array(items.length);
+  for (const item of items) encodeItem(w, def.spec, item, serdes);
+}
+
+function encodeItem(
+  w: Writer,
+  spec: TypedSpec<any> | SchemaClass,
+  value: unknown,
+  serdes: Serdes | undefined,
+): void {
+  if (serdes) {
+    if (value instanceof Uint8Array) return w.bin(value);
+    if (value instanceof Date) return w.timestamp(value);
+    value = serdes[0](value);
+  }
+  encode(w, spec, value);
+}
+
+function encodeScalar(w: Writer, value: unknown): void {
+  if (typeof value === "number") w.number(value);
+  else if (typeof value === "boolean") w.bool(value);
+  else if (typeof value === "bigint") w.int(value);
+  else w.str(String(value));
+}
+
+function encode(
+  w: Writer,
+  spec: TypedSpec<any> | SchemaClass,
+  value: unknown,
+): void {
+  if (value === null || value === undefined) return w.nil();
+  if (typeof spec === "function") {
+    const ctor = (value as any).__isSchemaInstance
+      ? ((value as object).constructor as SchemaClass)
+      : spec;
+    return encodeRecord(w, ctor, value);
+  }
+  switch (spec.kind) {
+    case "primitive":
+      if (spec === t.bigint) return w.int(value as bigint);
+      return encodeScalar(w, value);
+    case "literal":
+    case "enum":
+      return encodeScalar(w, value);
+    case "serdes":
+      return encode(w, spec.rawSpec!, value);
+    case "lazy":
+      return encode(w, resolveLazy(spec), value);
+    case "union":
+    case "variant": {
+      const index = branchIndex(spec, value);
+      w.array(2);
+      w.int(index);
+      const branch = resolveLazy(unionMembers(spec)[index]);
+      // Members such as `t.date` bring their own serdes pair.
+      const serdes = typeof branch === "object" ? branch.serdes : undefined;
+      return encodeItem(w, branch, value, serdes as Serdes | undefined);
+    }
+    case "array":
+    case "set": {
+      const items = Array.from(value as Iterable<unknown>);
+      w.array(items.length);
+      for (const item of items) encode(w, spec.itemSpec!, item);
+      return;
+    }
+    case "tuple": {
+      // Omitted `t.optional` elements stay omitted; `t.rest` ones follow.
+      const items = value as unknown[];
+      const specs = spec.specs!;
+      w.array(items.length);
+      items.forEach((item, i) =>
+        encode(w, i < specs.length ? specs[i] : spec.restSpec!, item),
+      );
+      return;
+    }
+    case "nullable":
+    case "optional":
+      return encode(w, spec.innerSpec!, value);
+    case "map": {
+      const keySpec = resolveLazy(spec.keySpec!) as TypedSpec<any>;
+      const entries =
+        value instanceof Map
+          ? Array.from(value.entries())
+          : Object.entries(value as Record<string, unknown>).map(
+              ([k, v]) => [mapKeyFromString(keySpec, k), v] as const,
+            );
+      w.map(entries.length);
+      for (const [k, v] of entries) {
+        encode(w, keySpec, k);
+        encode(w, spec.valueSpec!, v);
+      }
+      return;
+    }
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Decoding                                                            */
+/* ------------------------------------------------------------------ */
+
+function recordInput(ctor: SchemaClass, value: unknown): Record<string, any> {
+  if (!(value instanceof Map)) {
+    throw new Error(`msgpack: expected a map for ${className(ctor)}`);
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, def] of Object.entries<any>(fieldsOf(ctor))) {
+    if (value.has(key)) out[key] = reviveField(def, value.get(key));
+  }
+  return out;
+}
+
+function reviveField(def: any, value: unknown): unknown {
+  if (value === null) return null;
+  const item = (v: unknown): unknown =>
+    def.serdes && (v instanceof Uint8Array || v instanceof Date)
+      ? (def.serdes as Serdes)[0](v)
+      : revive(def.spec, v);
+  if (def.cardinality === "one") return item(value);
+  if (!Array.isArray(value)) throw new Error("msgpack: expected an array");
+  return value.map(item);
+}
+
+/** Decoded value → constructor input, as `spec` describes it. */
+function revive(spec: TypedSpec<any> | SchemaClass, value: unknown): unknown {
+  if (value === null) {
+    // There is no `undefined` on the wire – nil is an absent `t.optional`.
+    return typeof spec === "object" && spec.kind === "optional"
+      ? undefined
+      : value;
+  }
+  if (typeof spec === "function") return recordInput(spec, value);
+  switch (spec.kind) {
+    case "primitive":
+      if (spec === t.bigint && typeof value === "number") return BigInt(value);
+      if (spec === t.number && typeof value === "bigint") return Number(value);
+      return value;
+    case "literal":
+    case "enum":
+      return typeof value === "bigint" ? Number(value) : value;
+    case "serdes":
+      return revive(spec.rawSpec!, value);
+    case "lazy":
+      return revive(resolveLazy(spec), value);
+    case "union":
+    case "variant": {
+      const [index, payload] = Array.isArray(value) ? value : [];
+      const member = unionMembers(spec)[index as number];
+      if (!member) throw new Error(`msgpack: union has no branch ${index}`);
+      const branch = resolveLazy(member);
+      // The branch is known from the wire – construct it directly.
+      if (typeof branch === "function") {
+        return new branch(recordInput(branch, payload));
+      }
+      // Binary data and timestamps are already in their in-memory form.
+      if (payload instanceof Uint8Array || payload instanceof Date) {
+        return payload;
+      }
+      const raw = revive(branch, payload);
+      return branch.serdes ? branch.serdes[1](raw) : raw;
+    }
+    case "array":
+    case "set":
+      if (!Array.isArray(value)) throw new Error("msgpack: expected an array");
+      return value.map((v) => revive(spec.itemSpec!, v));
+    case "tuple": {
+      if (!Array.isArray(value)) throw new Error("msgpack: expected an array");
+      const specs = spec.specs!;
+      return value.map((v, i) => {
+        const itemSpec = i < specs.length ? specs[i] : spec.restSpec;
+        return itemSpec ? revive(itemSpec, v) : v;
+      });
+    }
+    case "nullable":
+    case "optional":
+      return revive(spec.innerSpec!, value);
+    case "map": {
+      if (!(value instanceof Map)) throw new Error("msgpack: expected a map");
+      const keySpec = resolveLazy(spec.keySpec!) as TypedSpec<any>;
+      return mapFromEntries(
+        keySpec,
+        Array.from(value, ([k, v]) => [
+          revive(keySpec, k),
+          revive(spec.valueSpec!, v),
+        ]),
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+/** Encode an instance of `ctor` as MessagePack. */
+export function encodeMsgpack(
+  ctor: SchemaClass,
+  instance: SchemaInstance,
+): Uint8Array {
+  const w = new Writer();
+  encodeRecord(w, ctor, instance);
+  return w.finish();
+}
+
+/**
+ * Decode MessagePack bytes written by `encodeMsgpack()` for `ctor` into its
+ * constructor input.  Throws on malformed input.
+ */
+export function decodeMsgpack(
+  ctor: SchemaClass,
+  bytes: Uint8Array,
+): Record<string, unknown> {
+  const r = new Reader(bytes);
+  const value = r.value();
+  if (!r.done) throw new Error("msgpack: unexpected trailing bytes");
+  return recordInput(ctor, value);
+}
@@ -0,0 +1,201 @@
+/**
+ * OpenAPI 3.1 document builder – turns named `Schema` classes and route
+ * declarations into a complete document whose bodies `$ref` shared
+ * `components.schemas` entries.
+ */
+
+import type { SchemaClass } from "@src/types";
+import {
+  JsonSchemaContext,
+  definitionRef,
+  objectJsonSchema,
+} from "@src/json-schema";
+
+export type HttpMethod =
+  | "get"
+  | "put"
+  | "post"
+  | "delete"
+  | "options"
+  | "head"
+  | "patch"
+  | "trace";
+
+/** A response declared either as its body class or in full. */
+export type OpenApiResponse =
+  | SchemaClass
+  | {
+      description?: string;
+      /** Response body; omit for empty responses such as `204`. */
+      body?: SchemaClass;
+    };
+
+export interface OpenApiRoute {
+  method: HttpMethod;
+  /** OpenAPI path template, e.g. `"/users/{id}"`. */
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+
+  /**
+   * Parameter classes by location – each field becomes one parameter.  Path
+   * parameters are always required; others follow the field's `optional` /
+   * `default` options.
+   */
+  params?: {
+    path?: SchemaClass;
+    query?: SchemaClass;
+    header?: SchemaClass;
+    cookie?: SchemaClass;
+  };
+
+  /** JSON request body class. */
+  body?: SchemaClass;
+
+  /** Responses keyed by status code (or `"default"`). */
+  responses: Record<number | string, OpenApiResponse>;
+}
+
+export interface OpenApiDocumentOptions {
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+
+  /**
+   * Classes published under `components.schemas`, keyed by component name.
+   * Nested classes reached from these or from routes are added as well,
+   * named by their `id` option or class name.
+   */
+  schemas?: Record<string, SchemaClass>;
+
+  routes?: OpenApiRoute[];
+}
+
+const COMPONENT_PREFIX = "#/components/schemas/";
+
+function isResponseClass(res: OpenApiResponse): res is SchemaClass {
+  return typeof res === "function";
+}
+
+function jsonContent(
+  ctor: SchemaClass,
+  ctx: JsonSchemaContext,
+): Record<string, unknown> {
+  return { "application/json": { schema: definitionRef(ctor, ctx) } };
+}
+
+/**
+ * Expand a parameter class into one Parameter Object per field, reusing the
+ * property schemas `jsonSchema()` would emit for it.
+ */
+function parameters(
+  location: string,
+  ctor: SchemaClass,
+  ctx: JsonSchemaContext,
+): Record<string, unknown>[] {
+  const object = objectJsonSchema(ctor, ctx);
+  const properties = object.properties as Record<
+    string,
+    Record<string, unknown>
+  >;
+  const required = new Set((object.required as string[] | undefined) ?? []);
+
+  return Object.entries(properties).map(([name, propSchema]) => {
+    const { description, ...schema } = propSchema;
+    const param: Record<string, unknown> = {
+      name,
+      in: location,
+      required: location === "path" || required.has(name),
+    };
+    if (description !== undefined) param.description = description;
+    param.schema = schema;
+    return param;
+  });
+}
+
+function operation(
+  route: OpenApiRoute,
+  ctx: JsonSchemaContext,
+): Record<string, unknown> {
+  const op: Record<string, unknown> = {};
+  if (route.operationId) op.operationId = route.operationId;
+  if (route.summary) op.summary = route.summary;
+  if (route.description) op.description = route.description;
+  if (route.tags?.length) op.tags = route.tags;
+
+  const params = Object.entries(route.params ?? {}).flatMap(
+    ([location, ctor]) => (ctor ? parameters(location, ctor, ctx) : []),
+  );
+  if (params.length) op.parameters = params;
+
+  if (route.body) {
+    op.requestBody = { required: true, content: jsonContent(route.body, ctx) };
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, res] of Object.entries(route.responses)) {
+    const { description, body } = isResponseClass(res)
+      ? { description: undefined, body: res }
+      : res;
+    const out: Record<string, unknown> = {
+      description:
+        description ??
+        (/^2/.test(status)
+          ? "Successful response"
+          : /^[45]/.test(status)
+            ? "Error response"
+            : "Response"),
+    };
+    if (body) out.content = jsonContent(body, ctx);
+    responses[status] = out;
+  }
+  op.responses = responses;
+
+  return op;
+}
+
+/**
+ * Build an OpenAPI 3.1 document from named `Schema` classes and routes.
+ *
+ * Every class used as a body – and every class nested inside one – is
+ * emitted once under `components.schemas` and referenced with `$ref`.
+ */
+export function openApiDocument(
+  options: OpenApiDocumentOptions,
+): Record<string, unknown> {
+  const ctx: JsonSchemaContext = {
+    definitions: {},
+    names: new Map(),
+    refs: true,
+    refPrefix: COMPONENT_PREFIX,
+    target: "openapi-3.1",
+  };
+
+  // Claim the explicit names first so nested references pick them up.
+  const named = Object.entries(options.schemas ?? {});
+  for (const [name, ctor] of named) {
+    ctx.names.set(ctor, name);
+    ctx.definitions[name] = {};
+  }
+  for (const [name, ctor] of named) {
+    ctx.definitions[name] = objectJsonSchema(ctor, ctx);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of options.routes ?? []) {
+    paths[route.path] ??= {};
+    paths[route.path][route.method] = operation(route, ctx);
+  }
+
+  const doc: Record<string, unknown> = {
+    openapi: "3.1.0",
+    info: options.info,
+  };
+  if (options.servers?.length) doc.servers = options.servers;
+  doc.paths = paths;
+  if (Object.keys(ctx.definitions).length) {
+    doc.components = { schemas: ctx.definitions };
+  }
+  return doc;
+}
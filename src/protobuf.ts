@@ -0,0 +1,847 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Protocol Buffers support – a proto3 `.proto` emitter and a matching wire
+ * codec, both driven by `_schema` so no generated code or protobuf runtime is
+ * needed.
+ *
+ * Mapping:
+ *
+ * - `t.string` → `string`, `t.number` → `double`, `t.boolean` → `bool`,
+ *   `t.bigint` → `int64`; literals use the type of their value and serdes
+ *   fields their raw descriptor.
+ * - `t.enum` → an `enum` with an `…_UNSPECIFIED = 0` entry followed by the
+ *   members in declaration order.
+ * - Nested classes → messages; `t.variant` / `t.union` of classes → a
+ *   wrapper message holding a `oneof`; `t.tuple` → a message with one field
+ *   per position (`t.nullable` / `t.optional` elements are proto3
+ *   `optional`, a `t.rest` element a final `repeated rest` field);
+ *   `t.array` / `t.set` → a message with a `repeated value`.
+ * - `t.map` → `map<K, V>` (keys are `int64` for bigints, `bool` for booleans
+ *   and `string` otherwise); `many()` → `repeated`.
+ * - `optional` / `nullable` scalars → proto3 `optional`.
+ *
+ * Field numbers follow declaration order unless pinned with the
+ * `fieldNumber` field option; pinned numbers are claimed first, so adding a
+ * pinned field never renumbers the others.
+ */
+
+import {
+  TypedSpec,
+  discriminatorLiteral,
+  mapFromEntries,
+  mapKeyFromString,
+  resolveLazy,
+  t,
+} from "@src/typed";
+import type { Fields, SchemaClass, SchemaInstance } from "@src/types";
+import {
+  ByteReader,
+  ByteWriter,
+  serializedField,
+  utf8Decoder,
+  utf8Encoder,
+} from "@src/wire";
+
+export interface ProtoSchemaOptions {
+  /** `package` declaration of the emitted file. */
+  package?: string;
+}
+
+type Scalar = "string" | "double" | "bool" | "int64";
+
+interface ProtoEnum {
+  kind: "enum";
+  name: string;
+  values: { name: string; number: number; value: string | number | boolean }[];
+}
+
+interface ProtoField {
+  name: string;
+  number: number;
+  type: ProtoType;
+  repeated: boolean;
+  /** Explicit presence – the field is written even when it holds a default. */
+  presence: boolean;
+  /** Field definition, for fields of class messages. */
+  def?: any;
+  key?: string;
+  /** Tuple element declared with `t.nullable` – absence decodes as `null`. */
+  nullable?: boolean;
+}
+
+type MessageSource =
+  | { shape: "class"; ctor: SchemaClass }
+  | { shape: "oneof"; ctors: readonly SchemaClass[]; discriminator?: string }
+  /** `rest`: the last field holds the elements of a `t.rest` element. */
+  | { shape: "tuple"; rest: boolean }
+  | { shape: "box" };
+
+interface ProtoMessage {
+  kind: "message";
+  name: string;
+  fields: ProtoField[];
+  source: MessageSource;
+}
+
+type ProtoType =
+  | { kind: "scalar"; scalar: Scalar }
+  | { kind: "map"; key: Scalar; keySpec: TypedSpec<any>; value: ProtoType }
+  | ProtoEnum
+  | ProtoMessage;
+
+const VARINT = 0;
+const I64 = 1;
+const LEN = 2;
+const I32 = 5;
+
+const MAX_FIELD_NUMBER = 536_870_911;
+
+function pascal(raw: string): string {
+  return raw
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/** `"OrderItem"` → `"order_item"`. */
+function snake(raw: string): string {
+  return raw
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+function identifier(raw: string): string {
+  const name = raw.replace(/[^A-Za-z0-9_]/g, "_");
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+function scalar(name: Scalar): ProtoType {
+  return { kind: "scalar", scalar: name };
+}
+
+/** Field numbers of a class: pinned ones first, then declaration order. */
+function fieldNumbers(owner: string, entries: [string, any][]) {
+  const numbers = new Map<string, number>();
+  const used = new Set<number>();
+  for (const [key, field] of entries) {
+    const n = field.fieldNumber as number | undefined;
+    if (n === undefined) continue;
+    if (
+      !Number.isInteger(n) ||
+      n < 1 ||
+      n > MAX_FIELD_NUMBER ||
+      (n >= 19000 && n <= 19999)
+    ) {
+      throw new Error(
+        `protobuf: ${owner}.${key} has invalid field number ${n}`,
+      );
+    }
+    if (used.has(n)) {
+      throw new Error(`protobuf: ${owner}.${key} reuses field number ${n}`);
+    }
+    used.add(n);
+    numbers.set(key, n);
+  }
+  let next = 1;
+  for (const [key] of entries) {
+    if (numbers.has(key)) continue;
+    while (used.has(next)) next += 1;
+    used.add(next);
+    numbers.set(key, next);
+  }
+  return numbers;
+}
+
+/**
+ * Message and enum declarations reachable from a set of classes.  Shared by
+ * the emitter (which prints `decls`) and the codec (which walks the types).
+ */
+class ProtoRegistry {
+  readonly decls: (ProtoMessage | ProtoEnum)[] = [];
+  private readonly classes = new Map<SchemaClass, ProtoMessage>();
+  /** Declarations of anonymous descriptors, keyed by descriptor identity. */
+  private readonly anonymous = new Map<object, ProtoMessage | ProtoEnum>();
+  private readonly taken = new Set<string>();
+
+  private unique(base: string): string {
+    let name = base || "Model";
+    for (let i = 2; this.taken.has(name); i += 1) name = `${base}${i}`;
+    this.taken.add(name);
+    return name;
+  }
+
+  private declare<D extends ProtoMessage | ProtoEnum>(decl: D): D {
+    this.decls.push(decl);
+    return decl;
+  }
+
+  message(ctor: SchemaClass): ProtoMessage {
+    const known = this.classes.get(ctor);
+    if (known) return known;
+
+    const id = ctor._options?.id ?? (ctor as { name?: string }).name ?? "";
+    const msg = this.declare<ProtoMessage>({
+      kind: "message",
+      name: this.unique(pascal(id)),
+      fields: [],
+      source: { shape: "class", ctor },
+    });
+    this.classes.set(ctor, msg);
+
+    const entries = Object.entries<any>(fieldsOf(ctor));
+    const numbers = fieldNumbers(msg.name, entries);
+    for (const [key, def] of entries) {
+      const hint = `${msg.name}${pascal(key)}`;
+      const repeated = def.cardinality === "array" || def.cardinality === "set";
+      const presence = !repeated && Boolean(def.optional || def.nullable);
+      let type = this.type(def.spec, hint);
+      // Map fields take no label, so neither `repeated map<…>` nor an
+      // `optional` one is valid proto – box the map instead.
+      if ((repeated || presence) && type.kind === "map") {
+        type = this.box(type, hint);
+      }
+      msg.fields.push({
+        name: identifier(key),
+        number: numbers.get(key)!,
+        type,
+        repeated,
+        presence,
+        def,
+        key,
+      });
+    }
+    return msg;
+  }
+
+  private type(spec: TypedSpec<any> | SchemaClass, hint: string): ProtoType {
+    if (typeof spec === "function") return this.message(spec);
+    switch (spec.kind) {
+      case "primitive":
+        if (spec === t.number) return scalar("double");
+        if (spec === t.boolean) return scalar("bool");
+        if (spec === t.bigint) return scalar("int64");
+        return scalar("string");
+      case "literal":
+        return typeof spec.literal === "number"
+          ? scalar("double")
+          : typeof spec.literal === "boolean"
+            ? scalar("bool")
+            : scalar("string");
+      case "enum":
+        return this.enumType(spec, hint);
+      case "serdes":
+        return this.type(spec.rawSpec!, hint);
+      case "lazy":
+        return this.type(resolveLazy(spec), hint);
+      case "union":
+      case "variant":
+        if (spec.members) {
+          throw new Error(`protobuf: ${hint} is a union over descriptors`);
+        }
+        return this.oneof(spec, hint);
+      case "tuple":
+        return this.tuple(spec, hint);
+      case "array":
+      case "set": {
+        let item = this.type(spec.itemSpec!, `${hint}Item`);
+        if (item.kind === "map") item = this.box(item, `${hint}Item`);
+        return this.box(item, hint, true);
+      }
+      case "map": {
+        const keySpec = resolveLazy(spec.keySpec!);
+        if (typeof keySpec === "function") {
+          throw new Error(`protobuf: ${hint} has a class as its map key`);
+        }
+        const key: Scalar =
+          keySpec === t.bigint
+            ? "int64"
+            : keySpec === t.boolean
+              ? "bool"
+              : "string";
+        let value = this.type(spec.valueSpec!, `${hint}Value`);
+        if (value.kind === "map") value = this.box(value, `${hint}Value`);
+        return { kind: "map", key, keySpec, value };
+      }
+      // Lists and map values have no room for null or absent entries.
+      case "nullable":
+      case "optional":
+        throw new Error(
+          `protobuf: ${hint} is ${spec.kind}; only fields and tuple elements can be`,
+        );
+      default:
+        throw new Error(
+          `protobuf: cannot represent a "${spec.kind}" descriptor`,
+        );
+    }
+  }
+
+  private enumType(spec: TypedSpec<any>, hint: string): ProtoEnum {
+    const enumObject = spec.enumObject ?? {};
+    const known = this.anonymous.get(enumObject);
+    if (known) return known as ProtoEnum;
+
+    const name = this.unique(hint);
+    const prefix = snake(name).toUpperCase();
+    const decl = this.declare<ProtoEnum>({
+      kind: "enum",
+      name,
+      values: Object.entries(enumObject).map(([key, value], i) => ({
+        name: `${prefix}_${snake(key).toUpperCase() || i + 1}`,
+        number: i + 1,
+        value,
+      })),
+    });
+    this.anonymous.set(enumObject, decl);
+    return decl;
+  }
+
+  private oneof(spec: TypedSpec<any>, hint: string): ProtoMessage {
+    const known = this.anonymous.get(spec);
+    if (known) return known as ProtoMessage;
+
+    const msg = this.declare<ProtoMessage>({
+      kind: "message",
+      name: this.unique(hint),
+      fields: [],
+      source: {
+        shape: "oneof",
+        ctors: spec.ctors!,
+        discriminator: spec.discriminator?.propertyName,
+      },
+    });
+    this.anonymous.set(spec, msg);
+    spec.ctors!.forEach((C, i) => {
+      const type = this.message(C);
+      msg.fields.push({
+        name: snake(type.name),
+        number: i + 1,
+        type,
+        repeated: false,
+        presence: true,
+      });
+    });
+    return msg;
+  }
+
+  private tuple(spec: TypedSpec<any>, hint: string): ProtoMessage {
+    const known = this.anonymous.get(spec);
+    if (known) return known as ProtoMessage;
+
+    const msg = this.declare<ProtoMessage>({
+      kind: "message",
+      name: this.unique(hint),
+      fields: [],
+      source: { shape: "tuple", rest: Boolean(spec.restSpec) },
+    });
+    this.anonymous.set(spec, msg);
+    spec.specs!.forEach((s, i) => {
+      // `t.nullable` / `t.optional` elements get explicit presence.
+      const wrapper =
+        s.kind === "nullable" || s.kind === "optional" ? s.kind : undefined;
+      msg.fields.push({
+        name: `item_${i}`,
+        number: i + 1,
+        type: this.type(wrapper ? s.innerSpec! : s, `${msg.name}Item${i}`),
+        repeated: false,
+        presence: Boolean(wrapper),
+        ...(wrapper === "nullable" ? { nullable: true } : {}),
+      });
+    });
+    if (spec.restSpec) {
+      let type = this.type(spec.restSpec, `${msg.name}Rest`);
+      if (type.kind === "map") type = this.box(type, `${msg.name}Rest`);
+      msg.fields.push({
+        name: "rest",
+        number: spec.specs!.length + 1,
+        type,
+        repeated: true,
+        presence: false,
+      });
+    }
+    return msg;
+  }
+
+  /**
+   * Single-field message wrapping a type that cannot appear directly – or,
+   * when `repeated`, a list that cannot (a nested `t.array` / `t.set`).
+   */
+  private box(type: ProtoType, hint: string, repeated = false): ProtoMessage {
+    return this.declare<ProtoMessage>({
+      kind: "message",
+      name: this.unique(hint),
+      fields: [{ name: "value", number: 1, type, repeated, presence: false }],
+      source: { shape: "box" },
+    });
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* .proto emission                                                     */
+/* ------------------------------------------------------------------ */
+
+function typeName(type: ProtoType): string {
+  switch (type.kind) {
+    case "scalar":
+      return type.scalar;
+    case "map":
+      return `map<${type.key}, ${typeName(type.value)}>`;
+    default:
+      return type.name;
+  }
+}
+
+function fieldLine(field: ProtoField, indent: string): string[] {
+  const lines: string[] = [];
+  if (field.def?.description)
+    lines.push(`${indent}// ${field.def.description}`);
+  const label = field.repeated
+    ? "repeated "
+    : field.presence && field.type.kind !== "message"
+      ? "optional "
+      : "";
+  lines.push(
+    `${indent}${label}${typeName(field.type)} ${field.name} = ${field.number};`,
+  );
+  return lines;
+}
+
+function declText(decl: ProtoMessage | ProtoEnum): string {
+  if (decl.kind === "enum") {
+    const prefix = snake(decl.name).toUpperCase();
+    return [
+      `enum ${decl.name} {`,
+      `  ${prefix}_UNSPECIFIED = 0;`,
+      ...decl.values.map((v) => `  ${v.name} = ${v.number};`),
+      "}",
+    ].join("\n");
+  }
+  const body =
+    decl.source.shape === "oneof"
+      ? [
+          "  oneof value {",
+          ...decl.fields.flatMap((f) => fieldLine(f, "    ")),
+          "  }",
+        ]
+      : decl.fields.flatMap((f) => fieldLine(f, "  "));
+  return [`message ${decl.name} {`, ...body, "}"].join("\n");
+}
+
+/**
+ * Print a proto3 `.proto` file declaring `classes` and every message or enum
+ * they need.  Class messages are named by their `id` option or class name;
+ * enums, tuples and unions get names derived from the owning class and field.
+ *
+ * ```ts
+ * writeFileSync("orders.proto", protoSchema([Order], { package: "shop.v1" }));
+ * ```
+ */
+export function protoSchema(
+  classes: SchemaClass | SchemaClass[],
+  options: ProtoSchemaOptions = {},
+): string {
+  const registry = new ProtoRegistry();
+  for (const ctor of Array.isArray(classes) ? classes : [classes]) {
+    registry.message(ctor);
+  }
+  const header = ['syntax = "proto3";'];
+  if (options.package) header.push(`package ${options.package};`);
+  return `${[...header, ...registry.decls.map(declText)].join("\n\n")}\n`;
+}
+
+/* ------------------------------------------------------------------ */
+/* Wire codec                                                          */
+/* ------------------------------------------------------------------ */
+
+const rootMessages = new WeakMap<SchemaClass, ProtoMessage>();
+
+function rootMessage(ctor: SchemaClass): ProtoMessage {
+  let msg = rootMessages.get(ctor);
+  if (!msg) {
+    msg = new ProtoRegistry().message(ctor);
+    rootMessages.set(ctor, msg);
+  }
+  return msg;
+}
+
+class Writer extends ByteWriter {
+  /** Length-delimited payload. */
+  bytes(b: Uint8Array): void {
+    this.varint(b.length);
+    this.raw(b);
+  }
+
+  tag(number: number, wire: number): void {
+    this.varint(number * 8 + wire);
+  }
+}
+
+class Reader extends ByteReader {
+  constructor(buf: Uint8Array) {
+    super(buf, "protobuf");
+  }
+
+  bytes(): Uint8Array {
+    return this.raw(this.varint());
+  }
+
+  skip(wire: number): void {
+    switch (wire) {
+      case VARINT:
+        this.varint();
+        return;
+      case I64:
+        this.raw(8);
+        return;
+      case LEN:
+        this.bytes();
+        return;
+      case I32:
+        this.raw(4);
+        return;
+      default:
+        throw new Error(`protobuf: unsupported wire type ${wire}`);
+    }
+  }
+}
+
+function wireType(type: ProtoType): number {
+  if (type.kind === "enum") return VARINT;
+  if (type.kind !== "scalar") return LEN;
+  if (type.scalar === "string") return LEN;
+  return type.scalar === "double" ? I64 : VARINT;
+}
+
+/** Repeated numeric fields are packed, as proto3 does by default. */
+function packable(type: ProtoType): boolean {
+  return wireType(type) !== LEN;
+}
+
+/** proto3 default of a type – what an absent implicit-presence field holds. */
+function defaultValue(type: ProtoType): unknown {
+  if (type.kind !== "scalar") return undefined;
+  switch (type.scalar) {
+    case "string":
+      return "";
+    case "double":
+      return 0;
+    case "bool":
+      return false;
+    case "int64":
+      return 0n;
+  }
+}
+
+function isDefault(type: ProtoType, value: unknown): boolean {
+  if (type.kind !== "scalar") return false;
+  if (type.scalar === "int64") return BigInt(value as bigint) === 0n;
+  // `-0` and `NaN` are not the default double.
+  return Object.is(value, defaultValue(type));
+}
+
+function mapEntries(value: unknown): [unknown, unknown][] {
+  if (value instanceof Map) return Array.from(value.entries());
+  return Object.entries(value as Record<string, unknown>);
+}
+
+function branchIndex(msg: ProtoMessage, value: unknown): number {
+  const source = msg.source as Extract<MessageSource, { shape: "oneof" }>;
+  let index = source.ctors.findIndex((C) => value instanceof C);
+  if (index < 0 && source.discriminator && value && typeof value === "object") {
+    const tag = (value as Record<string, unknown>)[source.discriminator];
+    index = source.ctors.findIndex(
+      (C) => discriminatorLiteral(C, source.discriminator!) === tag,
+    );
+  }
+  if (index < 0) {
+    throw new Error(`protobuf: value matches no branch of ${msg.name}`);
+  }
+  return index;
+}
+
+function encodeValue(w: Writer, type: ProtoType, value: unknown): void {
+  switch (type.kind) {
+    case "scalar":
+      switch (type.scalar) {
+        case "string":
+          w.bytes(utf8Encoder.encode(String(value)));
+          return;
+        case "double":
+          w.float64(Number(value));
+          return;
+        case "bool":
+          w.varint(value ? 1 : 0);
+          return;
+        case "int64": {
+          const n = BigInt(value as bigint);
+          if (BigInt.asIntN(64, n) !== n) {
+            throw new Error(`protobuf: ${n} does not fit an int64`);
+          }
+          w.bigVarint(n);
+          return;
+        }
+      }
+      return;
+    case "enum": {
+      const member = type.values.find((v) => v.value === value);
+      if (!member) {
+        throw new Error(
+          `protobuf: ${String(value)} is not a member of ${type.name}`,
+        );
+      }
+      w.varint(member.number);
+      return;
+    }
+    case "message":
+      w.bytes(encodeMessage(type, value));
+      return;
+    case "map":
+      throw new Error("protobuf: maps are only valid as fields");
+  }
+}
+
+function encodeKey(w: Writer, key: Scalar, value: unknown): void {
+  if (key === "bool") {
+    encodeValue(w, scalar("bool"), value === true || value === "true");
+  } else {
+    encodeValue(w, scalar(key), value);
+  }
+}
+
+function writeField(w: Writer, field: ProtoField, value: unknown): void {
+  if (value === undefined || value === null) return;
+  const type = field.type;
+
+  if (type.kind === "map") {
+    for (const [k, v] of mapEntries(value)) {
+      const entry = new Writer();
+      entry.tag(1, wireType(scalar(type.key)));
+      encodeKey(entry, type.key, k);
+      if (v !== undefined && v !== null) {
+        entry.tag(2, wireType(type.value));
+        encodeValue(entry, type.value, v);
+      }
+      w.tag(field.number, LEN);
+      w.bytes(entry.finish());
+    }
+    return;
+  }
+
+  if (field.repeated) {
+    const items = Array.from(value as Iterable<unknown>);
+    if (!packable(type)) {
+      for (const item of items) {
+        w.tag(field.number, LEN);
+        encodeValue(w, type, item);
+      }
+    } else if (items.length) {
+      const packed = new Writer();
+      for (const item of items) encodeValue(packed, type, item);
+      w.tag(field.number, LEN);
+      w.bytes(packed.finish());
+    }
+    return;
+  }
+
+  if (!field.presence && isDefault(type, value)) return;
+  w.tag(field.number, wireType(type));
+  encodeValue(w, type, value);
+}
+
+function encodeMessage(msg: ProtoMessage, value: unknown): Uint8Array {
+  const w = new Writer();
+  switch (msg.source.shape) {
+    case "class":
+      for (const field of msg.fields) {
+        writeField(w, field, serializedField(value, field.key!, field.def));
+      }
+      break;
+    case "oneof":
+      writeField(w, msg.fields[branchIndex(msg, value)], value);
+      break;
+    case "tuple": {
+      const last = msg.fields.length - 1;
+      msg.fields.forEach((field, i) =>
+        writeField(
+          w,
+          field,
+          msg.source.shape === "tuple" && msg.source.rest && i === last
+            ? (value as unknown[]).slice(i)
+            : (value as unknown[])[i],
+        ),
+      );
+      break;
+    }
+    case "box":
+      writeField(w, msg.fields[0], value);
+      break;
+  }
+  return w.finish();
+}
+
+function readValue(r: Reader, type: ProtoType): unknown {
+  switch (type.kind) {
+    case "scalar":
+      switch (type.scalar) {
+        case "string":
+          return utf8Decoder.decode(r.bytes());
+        case "double":
+          return r.float64();
+        case "bool":
+          return r.varint() !== 0;
+        case "int64":
+          return BigInt.asIntN(64, r.bigVarint());
+      }
+      return undefined;
+    case "enum": {
+      const number = r.varint();
+      if (number === 0) return undefined;
+      // Unknown members are kept as numbers so that validation reports them.
+      return type.values.find((v) => v.number === number)?.value ?? number;
+    }
+    case "message":
+      return decodeMessage(type, r.bytes());
+    case "map":
+      throw new Error("protobuf: maps are only valid as fields");
+  }
+}
+
+function readMapEntry(
+  r: Reader,
+  type: Extract<ProtoType, { kind: "map" }>,
+): [unknown, unknown] {
+  const entry = new Reader(r.bytes());
+  let key = defaultValue(scalar(type.key));
+  let value = defaultValue(type.value);
+  while (!entry.done) {
+    const tag = entry.varint();
+    const number = Math.floor(tag / 8);
+    if (number === 1) key = readValue(entry, scalar(type.key));
+    else if (number === 2) value = readValue(entry, type.value);
+    else entry.skip(tag % 8);
+  }
+  return [mapKeyFromString(type.keySpec, key), value];
+}
+
+function decodeMessage(msg: ProtoMessage, bytes: Uint8Array): unknown {
+  const byNumber = new Map(msg.fields.map((f) => [f.number, f]));
+  const seen = new Map<ProtoField, unknown>();
+  const r = new Reader(bytes);
+
+  while (!r.done) {
+    const tag = r.varint();
+    const wire = tag % 8;
+    const field = byNumber.get(Math.floor(tag / 8));
+    if (!field) {
+      r.skip(wire);
+      continue;
+    }
+    const type = field.type;
+
+    if (type.kind === "map") {
+      const entries = (seen.get(field) ?? []) as [unknown, unknown][];
+      entries.push(readMapEntry(r, type));
+      seen.set(field, entries);
+      continue;
+    }
+
+    const expected = wireType(type);
+    const packed = field.repeated && wire === LEN && expected !== LEN;
+    if (wire !== expected && !packed) {
+      throw new Error(
+        `protobuf: ${msg.name}.${field.name} has wire type ${wire}, expected ${expected}`,
+      );
+    }
+
+    if (!field.repeated) {
+      seen.set(field, readValue(r, type));
+    } else {
+      const items = (seen.get(field) ?? []) as unknown[];
+      if (packed) {
+        const inner = new Reader(r.bytes());
+        while (!inner.done) items.push(readValue(inner, type));
+      } else {
+        items.push(readValue(r, type));
+      }
+      seen.set(field, items);
+    }
+  }
+
+  const valueOf = (field: ProtoField): unknown => {
+    const type = field.type;
+    if (type.kind === "map") {
+      return mapFromEntries(
+        type.keySpec,
+        (seen.get(field) ?? []) as [unknown, unknown][],
+      );
+    }
+    if (seen.has(field)) return seen.get(field);
+    if (field.repeated) return [];
+    if (field.presence || type.kind === "message") {
+      return (field.def?.nullable && !field.def?.optional) || field.nullable
+        ? null
+        : undefined;
+    }
+    return defaultValue(type);
+  };
+
+  switch (msg.source.shape) {
+    case "class": {
+      const out: Record<string, unknown> = {};
+      for (const field of msg.fields) {
+        const value = valueOf(field);
+        if (value !== undefined) out[field.key!] = value;
+      }
+      return out;
+    }
+    case "oneof": {
+      const ctors = msg.source.ctors;
+      const index = msg.fields.findIndex((f) => seen.has(f));
+      // The branch is known from the wire – construct it directly.
+      return index < 0
+        ? undefined
+        : new ctors[index](seen.get(msg.fields[index]));
+    }
+    case "tuple": {
+      const items = msg.fields.map(valueOf);
+      const rest = msg.source.rest ? (items.pop() as unknown[]) : [];
+      // Omitted `t.optional` elements decode as trailing `undefined`s.
+      while (
+        !rest.length &&
+        items.length &&
+        items[items.length - 1] === undefined
+      ) {
+        items.pop();
+      }
+      return [...items, ...rest];
+    }
+    case "box":
+      return valueOf(msg.fields[0]);
+  }
+}
+
+/** Encode an instance of `ctor` as protobuf wire bytes. */
+export function encodeProtobuf(
+  ctor: SchemaClass,
+  instance: SchemaInstance,
+): Uint8Array {
+  return encodeMessage(rootMessage(ctor), instance);
+}
+
+/**
+ * Decode protobuf wire bytes into the constructor input of `ctor` – the raw
+ * field values `fromJSON` would accept.  Throws on malformed input.
+ */
+export function decodeProtobuf(
+  ctor: SchemaClass,
+  bytes: Uint8Array,
+): Record<string, unknown> {
+  return decodeMessage(rootMessage(ctor), bytes) as Record<string, unknown>;
+}
@@ -5,18 +5,50 @@
  */
 
 import type {
+  Constraint,
+  ConstraintMeta,
   ErrLog,
   Fields,
   FieldType,
   InputValueMap,
+  IssuePath,
+  JsonSchemaOptions,
+  ParseOptions,
+  Refinement,
+  RequirementCondition,
   LogicalConstraint,
   Result,
   SchemaClass,
   SchemaInstance,
+  SchemaOptions,
   Typeable,
+  ValidationIssue,
   ValueMap,
 } from "@src/types";
-import { TypedSpec, t } from "@src/typed";
+import {
+  buildErrLog,
+  describeValue,
+  formatIssue,
+  formatPath,
+  prefixIssues,
+} from "@src/issues";
+import { classJsonSchema } from "@src/json-schema";
+import { decodeProtobuf, encodeProtobuf } from "@src/protobuf";
+import { decodeAvro, encodeAvro } from "@src/avro";
+import { decodeMsgpack, encodeMsgpack } from "@src/msgpack";
+import {
+  TypedSpec,
+  UnionMember,
+  conformsTo,
+  discriminatorLiteral,
+  mapFromEntries,
+  mapKeyFromString,
+  requiredLength,
+  resolveLazy,
+  t,
+  unionMembers,
+} from "@src/typed";
+import { isTemporalString } from "@src/temporal";
 
 // ---------------------------------------------------------------------------
 // Built-in primitive validators
@@ -48,26 +80,185 @@ function asIterable(v: unknown): unknown[] | null {
   return null;
 }
 
-function composeConstraints<T extends Typeable>(
-  cs: LogicalConstraint<T>[],
-): LogicalConstraint<T> {
-  return (val: T) => {
-    for (const c of cs) {
-      const res = c(val);
-      if (res !== true) return res;
+/**
+ * Whether a `one()` value described by `spec` is a single value even when it
+ * is an array or `Set` – tuples, nested collections and unions over
+ * descriptors (a member may be either).
+ */
+function isWholeValue(spec: TypedSpec<any> | SchemaClass | undefined): boolean {
+  const target = spec && resolveLazy(spec);
+  return (
+    typeof target === "object" &&
+    (Boolean(target.members) ||
+      ["tuple", "array", "set", "map"].includes(target.kind))
+  );
+}
+
+/**
+ * Elements of a field's value, like {@link asIterable} – except that a
+ * `one()` value that {@link isWholeValue} is never split.
+ */
+function fieldElements(field: any, value: unknown): unknown[] | null {
+  if (field.cardinality === "one" && isWholeValue(field.spec)) return null;
+  return asIterable(value);
+}
+
+/**
+ * Build the in-memory form of `t.array` / `t.set` values at any depth inside
+ * tuples, maps and each other: iterables become arrays or `Set`s.  Values of
+ * the wrong shape are kept for validation to report.
+ */
+function buildCollections(value: unknown, spec: TypedSpec<any>): unknown {
+  const target = resolveLazy(spec);
+  if (typeof target === "function" || value === null || value === undefined)
+    return value;
+  switch (target.kind) {
+    case "array":
+    case "set": {
+      const items = asIterable(value);
+      if (!items) return value;
+      const built = items.map((item) =>
+        buildCollections(item, target.itemSpec!),
+      );
+      return target.kind === "set" ? new Set(built) : built;
+    }
+    case "tuple": {
+      if (!Array.isArray(value) || !nestsCollection(target)) return value;
+      const specs = target.specs ?? [];
+      return value.map((item, i) => {
+        const itemSpec = i < specs.length ? specs[i] : target.restSpec;
+        return itemSpec ? buildCollections(item, itemSpec) : item;
+      });
+    }
+    case "nullable":
+    case "optional":
+      return buildCollections(value, target.innerSpec!);
+    case "map": {
+      if (!nestsCollection(target)) return value;
+      const valueSpec = target.valueSpec!;
+      if (value instanceof Map) {
+        return new Map(
+          Array.from(value, ([k, v]) => [k, buildCollections(v, valueSpec)]),
+        );
+      }
+      if (typeof value !== "object" || Array.isArray(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [
+          k,
+          buildCollections(v, valueSpec),
+        ]),
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Whether `spec` may have a `t.array` / `t.set` inside a tuple or map.  Lazy
+ * descriptors are not resolved, as they may refer back to `spec`.
+ */
+function nestsCollection(spec: TypedSpec<any> | SchemaClass): boolean {
+  if (typeof spec === "function") return false;
+  switch (spec.kind) {
+    case "array":
+    case "set":
+    case "lazy":
+      return true;
+    case "tuple":
+      return [
+        ...(spec.specs ?? []),
+        ...(spec.restSpec ? [spec.restSpec] : []),
+      ].some(nestsCollection);
+    case "map":
+      return nestsCollection(spec.valueSpec!);
+    case "nullable":
+    case "optional":
+      return nestsCollection(spec.innerSpec!);
+    default:
+      return false;
+  }
+}
+
+function isThenable(v: unknown): v is PromiseLike<unknown> {
+  return (
+    v !== null &&
+    (typeof v === "object" || typeof v === "function") &&
+    typeof (v as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/** First failing constraint: its message plus metadata, when it has any. */
+interface ConstraintFailure {
+  message: string;
+  meta?: ConstraintMeta;
+}
+
+/**
+ * Run `cs` in order until the first failure.  Stays synchronous until an
+ * async constraint is met; from there the remaining constraints are chained
+ * onto its promise.
+ */
+function runConstraints<T extends Typeable>(
+  cs: Constraint<T>[],
+  val: T,
+  start = 0,
+): true | ConstraintFailure | Promise<true | ConstraintFailure> {
+  for (let i = start; i < cs.length; i += 1) {
+    const res = cs[i](val);
+    if (isThenable(res)) {
+      return Promise.resolve(res).then((r) =>
+        r !== true
+          ? { message: r, meta: cs[i].meta }
+          : runConstraints(cs, val, i + 1),
+      );
     }
-    return true;
+    if (res !== true) return { message: res, meta: cs[i].meta };
+  }
+  return true;
+}
+
+function constraintIssue(
+  path: IssuePath,
+  failure: ConstraintFailure,
+): ValidationIssue {
+  const issue: ValidationIssue = {
+    path,
+    code: "constraint",
+    message: failure.message,
   };
+  if (failure.meta?.params) issue.params = failure.meta.params;
+  return issue;
 }
 
 // ---------------------------------------------------------------------------
 // Runtime validation against a `TypedSpec` (single scalar value)
 // ---------------------------------------------------------------------------
 
+function typeIssue(
+  path: IssuePath,
+  expected: string,
+  value: unknown,
+  message: string = `expected ${expected}`,
+): ValidationIssue {
+  return {
+    path,
+    code: "invalid_type",
+    message,
+    expected,
+    received: describeValue(value),
+  };
+}
+
+/**
+ * Validate `value` against `spec`, returning every issue found.  `path` is the
+ * location of `value` and is used as the prefix for element / entry issues.
+ */
 function validateValueAgainstSpec(
   value: unknown,
   spec: TypedSpec<any, any>,
-): true | string {
+  path: IssuePath = [],
+): ValidationIssue[] {
   switch (spec.kind) {
     case "primitive": {
       const runtimeKey = Array.isArray(value)
@@ -85,37 +276,110 @@ function validateValueAgainstSpec(
       else if (spec === t.bigint) expectedKey = "bigint";
 
       if (expectedKey && expectedKey !== runtimeKey) {
-        return `expected ${expectedKey}`;
+        return [typeIssue(path, expectedKey, value)];
       }
 
       const validator = DEFAULT_VALIDATORS[runtimeKey];
-      return validator ? validator(value) : true;
+      const res = validator ? validator(value) : true;
+      return res === true ? [] : [typeIssue(path, runtimeKey, value, res)];
     }
     case "literal": {
       return value === spec.literal
-        ? true
-        : `expected literal ${String(spec.literal)}`;
+        ? []
+        : [
+            {
+              path,
+              code: "invalid_literal",
+              message: `expected literal ${String(spec.literal)}`,
+              expected: String(spec.literal),
+              received: describeValue(value),
+            },
+          ];
     }
     case "enum": {
       const allowed = Object.values(spec.enumObject ?? {});
       return allowed.includes(value as never)
-        ? true
-        : `expected one of ${allowed.map(String).join(", ")}`;
+        ? []
+        : [
+            {
+              path,
+              code: "invalid_enum",
+              message: `expected one of ${allowed.map(String).join(", ")}`,
+              expected: allowed.map(String).join(", "),
+              received: describeValue(value),
+            },
+          ];
     }
     case "serdes": {
       // Validate *raw* value against the rawSpec (always primitive/enum/literal)
-      return validateValueAgainstSpec(value, spec.rawSpec!);
+      const issues = validateValueAgainstSpec(value, spec.rawSpec!, path);
+      if (
+        issues.length ||
+        !spec.format ||
+        isTemporalString(spec.format, value as string)
+      ) {
+        return issues;
+      }
+      return [
+        {
+          path,
+          code: "invalid_format",
+          message: `expected an ISO 8601 ${spec.format}`,
+          expected: spec.format,
+          received: describeValue(value),
+        },
+      ];
     }
 
     case "tuple": {
-      if (!Array.isArray(value)) return "expected array (tuple)";
-      if (value.length !== (spec.specs?.length ?? 0))
-        return `expected tuple length ${spec.specs?.length ?? 0}`;
-      for (let i = 0; i < (spec.specs?.length ?? 0); i += 1) {
-        const r = validateValueAgainstSpec(value[i], spec.specs![i]);
-        if (r !== true) return `tuple[${i}]: ${r}`;
+      const specs = spec.specs ?? [];
+      if (!Array.isArray(value))
+        return [typeIssue(path, "tuple", value, "expected array (tuple)")];
+      const min = requiredLength(specs);
+      const max = spec.restSpec ? Infinity : specs.length;
+      if (value.length < min || value.length > max) {
+        const expected =
+          min === max
+            ? String(min)
+            : max === Infinity
+              ? `at least ${min}`
+              : `${min} to ${max}`;
+        return [
+          {
+            path,
+            code: "invalid_length",
+            message: `expected tuple length ${expected}`,
+            expected,
+            received: String(value.length),
+          },
+        ];
       }
-      return true;
+      return [
+        ...specs,
+        ...value.slice(specs.length).map(() => spec.restSpec!),
+      ].flatMap((s, i) => validateValueAgainstSpec(value[i], s, [...path, i]));
+    }
+
+    case "nullable":
+      return value === null
+        ? []
+        : validateValueAgainstSpec(value, spec.innerSpec!, path);
+    case "optional":
+      return value === undefined
+        ? []
+        : validateValueAgainstSpec(value, spec.innerSpec!, path);
+
+    case "array":
+    case "set": {
+      // Sets arrive as arrays in raw input.
+      const items =
+        Array.isArray(value) || (spec.kind === "set" && value instanceof Set)
+          ? Array.from(value)
+          : null;
+      if (!items) return [typeIssue(path, spec.kind, value)];
+      return items.flatMap((item, i) =>
+        validateValueAgainstSpec(item, spec.itemSpec!, [...path, i]),
+      );
     }
 
     case "map": {
@@ -127,26 +391,46 @@ function validateValueAgainstSpec(
         return null;
       })() as [unknown, unknown][] | null;
 
-      if (!entries) return "expected map or object";
+      if (!entries)
+        return [typeIssue(path, "map", value, "expected map or object")];
 
+      const issues: ValidationIssue[] = [];
       for (const [k, v] of entries) {
-        const kr = validateValueAgainstSpec(k, spec.keySpec!);
-        if (kr !== true) return `key ${String(k)}: ${kr}`;
-        const vr = validateValueAgainstSpec(v, spec.valueSpec!);
-        if (vr !== true) return `value for ${String(k)}: ${vr}`;
+        const entryPath = [...path, typeof k === "number" ? k : String(k)];
+        for (const issue of validateValueAgainstSpec(k, spec.keySpec!)) {
+          issues.push({
+            ...issue,
+            path: entryPath,
+            code: "invalid_key",
+            message: `key ${String(k)}: ${issue.message}`,
+          });
+        }
+        issues.push(...validateValueAgainstSpec(v, spec.valueSpec!, entryPath));
       }
-      return true;
+      return issues;
     }
     case "union":
     case "variant": {
+      if (spec.members) {
+        return pickMember(value, spec) ? [] : [unionIssue(path, spec, value)];
+      }
       // For raw value validation we simply ensure the value is an object; the
       // nested Schema validation will be executed after instantiation.
       return value !== null && typeof value === "object"
-        ? true
-        : "expected object";
+        ? []
+        : [typeIssue(path, "object", value)];
+    }
+    case "lazy": {
+      const target = resolveLazy(spec);
+      if (typeof target === "function") {
+        return value !== null && typeof value === "object"
+          ? []
+          : [typeIssue(path, "object", value)];
+      }
+      return validateValueAgainstSpec(value, target, path);
     }
     default:
-      return true;
+      return [];
   }
 }
 
@@ -164,19 +448,9 @@ function pickCtor(
   // Discriminator property heuristic.
   const discriminator = (raw as any)[discriminatorProp];
   if (discriminator != null) {
-    const match = ctors.find((C) => {
-      try {
-        const schema = (C as any)._schema as Fields;
-        const field = (schema as any)[discriminatorProp] as
-          | FieldType<any>
-          | undefined;
-        if (!field) return false;
-        const litSpec = (field as any).spec as TypedSpec<any> | undefined;
-        return litSpec?.kind === "literal" && litSpec.literal === discriminator;
-      } catch {
-        return false;
-      }
-    });
+    const match = ctors.find(
+      (C) => discriminatorLiteral(C, discriminatorProp) === discriminator,
+    );
     if (match) return match;
   }
 
@@ -196,6 +470,409 @@ function pickCtor(
   return best ?? ctors[0];
 }
 
+// ---------------------------------------------------------------------------
+// Unions over descriptors – `t.union([t.string, t.number, User])`
+// ---------------------------------------------------------------------------
+
+/** How a union member is named in issue messages. */
+function memberLabel(member: UnionMember): string {
+  const target = resolveLazy(member);
+  if (typeof target === "function") return target.name || "object";
+  switch (target.kind) {
+    case "primitive":
+      if (target === t.number) return "number";
+      if (target === t.boolean) return "boolean";
+      if (target === t.bigint) return "bigint";
+      return "string";
+    case "literal":
+      return JSON.stringify(target.literal);
+    case "enum":
+      return Object.values(target.enumObject ?? {})
+        .map((v) => JSON.stringify(v))
+        .join(" | ");
+    case "serdes":
+      return target.format ?? memberLabel(target.rawSpec!);
+    case "union":
+    case "variant":
+      return unionMembers(target).map(memberLabel).join(" | ");
+    default:
+      return target.kind;
+  }
+}
+
+function unionIssue(
+  path: IssuePath,
+  spec: TypedSpec<any>,
+  value: unknown,
+): ValidationIssue {
+  const expected = unionMembers(spec).map(memberLabel).join(" | ");
+  return {
+    path,
+    code: "invalid_union",
+    message: `expected ${expected}`,
+    expected,
+    received: describeValue(value),
+  };
+}
+
+/**
+ * Member of a `t.union` over descriptors that accepts `value` (raw or
+ * already built): the first one in declaration order.  Class members accept
+ * plain objects, the class being picked among them like {@link pickCtor}
+ * does.
+ */
+function pickMember(
+  value: unknown,
+  spec: TypedSpec<any>,
+): TypedSpec<any> | SchemaClass | undefined {
+  const members = unionMembers(spec).map(resolveLazy);
+  const classes = members.filter(
+    (m): m is SchemaClass => typeof m === "function",
+  );
+  for (const member of members) {
+    if (typeof member === "function") {
+      const instance = classes.find((C) => value instanceof C);
+      if (instance) return instance;
+      const proto =
+        value !== null && typeof value === "object"
+          ? Object.getPrototypeOf(value)
+          : undefined;
+      if (proto === Object.prototype || proto === null)
+        return pickCtor(value, classes);
+    } else if (
+      conformsTo(member, value) ||
+      !validateValueAgainstSpec(value, member).length
+    ) {
+      return member;
+    }
+  }
+  return undefined;
+}
+
+/** Raw `value` → in-memory value of the union member accepting it. */
+function buildMember(value: unknown, spec: TypedSpec<any>): unknown {
+  const member = pickMember(value, spec);
+  if (!member || conformsTo(member, value)) return value;
+  if (typeof member === "function") return new member(value as any);
+  const deserialize = member.serdes?.[1];
+  return deserialize ? deserialize(value) : value;
+}
+
+/** In-memory `value` → raw form, as its union member serialises it. */
+function memberToRaw(value: unknown, spec: TypedSpec<any>): unknown {
+  const member = unionMembers(spec)
+    .map(resolveLazy)
+    .find((m) => conformsTo(m, value));
+  const serialize =
+    member && typeof member === "object" ? member.serdes?.[0] : undefined;
+  return serialize ? serialize(value) : value;
+}
+
+// ---------------------------------------------------------------------------
+// Refinements – schema-level (cross-field) checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Run every refinement declared along `instance`'s class chain (base class
+ * first) and normalise the results to issues.
+ */
+function runRefinements(instance: SchemaInstance): ValidationIssue[] {
+  const chain: Refinement<any>[][] = [];
+  for (
+    let ctor = instance.constructor as any;
+    ctor && ctor !== Object;
+    ctor = Object.getPrototypeOf(ctor)
+  ) {
+    if (!Object.prototype.hasOwnProperty.call(ctor, "_options")) continue;
+    const refine = (ctor._options as SchemaOptions).refine;
+    if (refine) chain.unshift(Array.isArray(refine) ? refine : [refine]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const refinement of chain.flat()) {
+    const res = refinement(instance);
+    if (res === true) continue;
+    if (typeof res === "string") {
+      issues.push({ path: [], code: "refinement", message: res });
+      continue;
+    }
+    for (const r of Array.isArray(res) ? res : [res]) {
+      issues.push({ path: r.path, code: "refinement", message: r.message });
+    }
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Conditional requirements – `requiredWhen` / `dependentRequired`
+// ---------------------------------------------------------------------------
+
+function conditionHolds(
+  cond: RequirementCondition,
+  valueOf: (key: string) => unknown,
+): boolean {
+  return Object.entries(cond).every(([k, expected]) =>
+    Array.isArray(expected)
+      ? expected.includes(valueOf(k))
+      : valueOf(k) === expected,
+  );
+}
+
+function describeCondition(cond: RequirementCondition): string {
+  return Object.entries(cond)
+    .map(([k, expected]) =>
+      Array.isArray(expected)
+        ? `${k} is one of ${expected.map((v) => JSON.stringify(v)).join(", ")}`
+        : `${k} is ${JSON.stringify(expected)}`,
+    )
+    .join(" and ");
+}
+
+// ---------------------------------------------------------------------------
+// Coercion – opt-in conversion of string-typed raw input (`fromJSON`)
+// ---------------------------------------------------------------------------
+
+function coercionIssue(
+  path: IssuePath,
+  expected: string,
+  value: unknown,
+): ValidationIssue {
+  return {
+    path,
+    code: "invalid_type",
+    message: `cannot coerce ${JSON.stringify(value)} to ${expected}`,
+    expected,
+    received: describeValue(value),
+  };
+}
+
+function coerceScalar(
+  value: string,
+  target: "number" | "boolean" | "bigint",
+): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = value.trim();
+  switch (target) {
+    case "number": {
+      const n = Number(trimmed);
+      return trimmed !== "" && Number.isFinite(n)
+        ? { ok: true, value: n }
+        : { ok: false };
+    }
+    case "boolean": {
+      const lower = trimmed.toLowerCase();
+      if (lower === "true") return { ok: true, value: true };
+      if (lower === "false") return { ok: true, value: false };
+      return { ok: false };
+    }
+    case "bigint":
+      return /^[-+]?\d+$/.test(trimmed)
+        ? { ok: true, value: BigInt(trimmed) }
+        : { ok: false };
+  }
+}
+
+/**
+ * Convert a raw value towards `spec`.  Values that are already of the right
+ * shape are returned untouched; values that cannot be converted are returned
+ * as-is and reported in `issues`.
+ */
+function coerceValue(
+  value: unknown,
+  spec: TypedSpec<any, any> | SchemaClass,
+  path: IssuePath,
+  issues: ValidationIssue[],
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  const resolved = resolveLazy(spec);
+  if (typeof resolved === "function") {
+    return value instanceof resolved
+      ? value
+      : coerceObject(value, resolved, path, issues);
+  }
+
+  switch (resolved.kind) {
+    case "primitive": {
+      if (resolved === t.bigint && typeof value === "number") {
+        if (Number.isInteger(value)) return BigInt(value);
+        issues.push(coercionIssue(path, "bigint", value));
+        return value;
+      }
+      const target =
+        resolved === t.number
+          ? "number"
+          : resolved === t.boolean
+            ? "boolean"
+            : resolved === t.bigint
+              ? "bigint"
+              : undefined;
+      if (!target || typeof value !== "string") return value;
+      const res = coerceScalar(value, target);
+      if (res.ok) return res.value;
+      issues.push(coercionIssue(path, target, value));
+      return value;
+    }
+    case "literal": {
+      const lit = resolved.literal;
+      if (typeof value !== "string" || typeof lit === "string") return value;
+      const res = coerceScalar(value, typeof lit as "number" | "boolean");
+      return res.ok ? res.value : value;
+    }
+    case "enum": {
+      const allowed = Object.values(resolved.enumObject ?? {});
+      if (typeof value !== "string" || allowed.includes(value)) return value;
+      for (const target of ["number", "boolean"] as const) {
+        const res = coerceScalar(value, target);
+        if (res.ok && allowed.includes(res.value as number | boolean)) {
+          return res.value;
+        }
+      }
+      return value;
+    }
+    case "serdes":
+      return coerceValue(value, resolved.rawSpec!, path, issues);
+    case "array":
+    case "set": {
+      const items = asIterable(value);
+      if (!items) return value;
+      const coerced = items.map((item, i) =>
+        coerceValue(item, resolved.itemSpec!, [...path, i], issues),
+      );
+      return value instanceof Set ? new Set(coerced) : coerced;
+    }
+    case "tuple": {
+      if (!Array.isArray(value)) return value;
+      const specs = resolved.specs ?? [];
+      return value.map((item, i) => {
+        const itemSpec = i < specs.length ? specs[i] : resolved.restSpec;
+        return itemSpec
+          ? coerceValue(item, itemSpec, [...path, i], issues)
+          : item;
+      });
+    }
+    case "nullable":
+    case "optional":
+      return coerceValue(value, resolved.innerSpec!, path, issues);
+    case "map": {
+      if (value instanceof Map) {
+        return new Map(
+          Array.from(value.entries()).map(([k, v]) => [
+            k,
+            coerceValue(
+              v,
+              resolved.valueSpec!,
+              [...path, typeof k === "number" ? k : String(k)],
+              issues,
+            ),
+          ]),
+        );
+      }
+      if (typeof value !== "object" || Array.isArray(value)) return value;
+      // JSON object keys are always strings – recover the declared key type.
+      const keySpec = resolveLazy(resolved.keySpec!) as TypedSpec<any>;
+      const entries = Object.entries(value as Record<string, unknown>).map(
+        ([k, v]): [unknown, unknown] => {
+          const key = mapKeyFromString(keySpec, k);
+          const [invalid] = Number.isNaN(key as number)
+            ? validateValueAgainstSpec(k, keySpec)
+            : validateValueAgainstSpec(key, keySpec);
+          if (invalid) {
+            issues.push({
+              ...invalid,
+              path: [...path, k],
+              code: "invalid_key",
+              message: `key ${k}: ${invalid.message}`,
+            });
+          }
+          const entryPath = [...path, typeof key === "number" ? key : k];
+          return [
+            invalid ? k : key,
+            coerceValue(v, resolved.valueSpec!, entryPath, issues),
+          ];
+        },
+      );
+      return mapFromEntries(keySpec, entries);
+    }
+    case "union":
+    case "variant": {
+      if (resolved.members) {
+        if (pickMember(value, resolved)) return value;
+        // The first member the value converts to wins.
+        for (const member of resolved.members) {
+          const attempt: ValidationIssue[] = [];
+          const converted = coerceValue(value, member, path, attempt);
+          if (!attempt.length && pickMember(converted, resolved)) {
+            return converted;
+          }
+        }
+        return value;
+      }
+      if (typeof value !== "object" || (value as any).__isSchemaInstance)
+        return value;
+      const ctor = pickCtor(
+        value,
+        resolved.ctors!,
+        resolved.discriminator?.propertyName ?? "kind",
+      );
+      return coerceObject(value, ctor, path, issues);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerce every declared field of a raw object destined for `ctor`.  Undeclared
+ * keys are copied unchanged so that the unknown-key policy still applies.
+ */
+function coerceObject(
+  raw: unknown,
+  ctor: SchemaClass,
+  path: IssuePath,
+  issues: ValidationIssue[],
+): unknown {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return raw;
+
+  const out: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+  for (const [key, fieldDef] of Object.entries(ctor._schema)) {
+    const value = out[key];
+    if (value === undefined || value === null) continue;
+
+    const spec = (fieldDef as any).spec as TypedSpec<any> | SchemaClass;
+    const cardinality = (fieldDef as any).cardinality ?? "one";
+    if (cardinality === "array" || cardinality === "set") {
+      const items = asIterable(value) ??
+        // A single value stands for a one-element collection.
+        [value];
+      out[key] = items.map((item, idx) =>
+        coerceValue(item, spec, [...path, key, idx], issues),
+      );
+    } else {
+      out[key] = coerceValue(value, spec, [...path, key], issues);
+    }
+  }
+  return out;
+}
+
+/**
+ * Assemble the `fromJSON` result.  A failed coercion already explains why a
+ * value is wrong, so validation issues reported for the same location are
+ * dropped.
+ */
+function parseResult<T>(
+  instance: T,
+  coerced: ValidationIssue[],
+  validated: ValidationIssue[],
+): Result<T, ErrLog<T>> {
+  const failed = new Set(coerced.map((i) => formatPath(i.path)));
+  const issues = [
+    ...coerced,
+    ...validated.filter((i) => !failed.has(formatPath(i.path))),
+  ];
+  if (!issues.length) return { val: instance, errs: undefined };
+  return { val: undefined, errs: buildErrLog<T>(issues) };
+}
+
 // ---------------------------------------------------------------------------
 // Schema – main class
 // ---------------------------------------------------------------------------
@@ -207,8 +884,26 @@ export class Schema<F extends Fields> implements SchemaInstance {
     [K in keyof F]: FieldType<ValueMap<F>[K]> & { spec?: TypedSpec<any> };
   };
 
+  /** Undeclared input keys, kept for `strict` / `passthrough` schemas. */
+  private readonly _unknown: Record<string, unknown>;
+
+  /** Options supplied to {@link Schema.from}; inherited by subclasses. */
+  static _options: SchemaOptions = {};
+
   constructor(input: InputValueMap<F>) {
     const declared = (this.constructor as unknown as { _schema: F })._schema;
+    const policy =
+      (this.constructor as unknown as { _options: SchemaOptions })._options
+        .unknownKeys ?? "strip";
+
+    const unknown: Record<string, unknown> = {};
+    if (policy !== "strip" && input && typeof input === "object") {
+      for (const [key, value] of Object.entries(input)) {
+        if (!Object.prototype.hasOwnProperty.call(declared, key))
+          unknown[key] = value;
+      }
+    }
+    this._unknown = unknown;
 
     const fields = {} as {
       [K in keyof F]: FieldType<ValueMap<F>[K]> & { spec?: TypedSpec<any> };
@@ -218,8 +913,13 @@ export class Schema<F extends Fields> implements SchemaInstance {
       keyof F,
       F[keyof F],
     ][]) {
-      const spec = (fieldDef as any).spec as
-        | TypedSpec<any>
+      // `lazy` descriptors are resolved here – by the time the first instance
+      // is constructed every class referenced by the thunk exists.
+      const spec = (
+        (fieldDef as any).spec ? resolveLazy((fieldDef as any).spec) : undefined
+      ) as TypedSpec<any> | SchemaClass | undefined;
+      const schemaClass = ((fieldDef as any).schemaClass ??
+        (typeof spec === "function" ? spec : undefined)) as
         | SchemaClass
         | undefined;
 
@@ -245,15 +945,34 @@ export class Schema<F extends Fields> implements SchemaInstance {
       // pre-validation for serdes raw values
       // -------------------------------------------------------------------
 
+      // A raw value of the wrong type throws for custom serdes.  Built-in
+      // temporal descriptors (`t.date`, …) and well-typed values in the
+      // wrong format are kept as is and reported by validation instead.
+      const rejected: ValidationIssue[] = [];
       if (
         spec &&
         typeof spec === "object" &&
         "kind" in spec &&
-        spec.kind === "serdes"
+        (spec.kind === "serdes" || spec.serdes)
       ) {
-        const pre = validateValueAgainstSpec(rawForSerdes, spec.rawSpec!);
-        if (pre !== true) {
-          throw new Error(`${String(key)}: ${pre}`);
+        const temporal = (spec.format ?? spec.innerSpec?.format) !== undefined;
+        // Absent values are reported by validation; `many()` fields are
+        // checked per element.
+        const items =
+          (fieldDef as any).cardinality === "one"
+            ? null
+            : asIterable(rawForSerdes);
+        const checks: [unknown, IssuePath][] = items
+          ? items.map((item, i) => [item, [key as string, i]])
+          : rawForSerdes === null || rawForSerdes === undefined
+            ? []
+            : [[rawForSerdes, [key as string]]];
+        for (const [item, path] of checks) {
+          const [pre] = validateValueAgainstSpec(item, spec, path);
+          if (pre && pre.code !== "invalid_format" && !temporal) {
+            throw new Error(formatIssue(pre));
+          }
+          if (pre) rejected.push(pre);
         }
       }
 
@@ -266,9 +985,14 @@ export class Schema<F extends Fields> implements SchemaInstance {
           | [(val: any) => unknown, (raw: unknown) => unknown]
           | null
           | undefined;
-        if (!sd) return rawValue;
+        if (!sd || rejected.length) return rawValue;
         const [, deserialize] = sd;
         if (rawValue === null || rawValue === undefined) return rawValue;
+        // Like `toJSON()`, collections are (de)serialised per element.
+        if ((fieldDef as any).cardinality !== "one") {
+          const items = asIterable(rawValue);
+          if (items) return items.map((item) => deserialize(item));
+        }
         return deserialize(rawValue as any);
       })();
 
@@ -278,17 +1002,22 @@ export class Schema<F extends Fields> implements SchemaInstance {
 
       const coerceNested = (val: unknown): unknown => {
         // 1. Explicit schemaClass (nested single)
-        if ((fieldDef as any).schemaClass) {
-          const Ctor = (fieldDef as any).schemaClass as SchemaClass;
+        if (schemaClass) {
+          const Ctor = schemaClass;
           return val instanceof Ctor ? val : new Ctor(val as any);
         }
 
         // 2. union / variant spec – pick constructor heuristically.
+        if (spec && typeof spec === "object" && spec.members) {
+          return buildMember(val, spec);
+        }
         if (
           spec &&
           typeof spec === "object" &&
           (spec.kind === "union" || spec.kind === "variant")
         ) {
+          // An instance of any branch is kept as is.
+          if (spec.ctors!.some((C) => val instanceof C)) return val;
           const ctor = pickCtor(
             val,
             spec.ctors!,
@@ -297,14 +1026,23 @@ export class Schema<F extends Fields> implements SchemaInstance {
           return val instanceof ctor ? val : new ctor(val as any);
         }
 
+        // 3. `t.array` / `t.set`, possibly nested in tuples and maps.
+        if (spec && typeof spec === "object") {
+          return buildCollections(val, spec);
+        }
+
         return val;
       };
 
       const nestedValue = (() => {
-        if (deserialised === undefined || deserialised === null)
+        if (
+          deserialised === undefined ||
+          deserialised === null ||
+          rejected.length
+        )
           return deserialised;
 
-        const iterable = asIterable(deserialised);
+        const iterable = fieldElements(fieldDef, deserialised);
         if (iterable) {
           const mapped = iterable.map(coerceNested);
           const card = (fieldDef as any).cardinality ?? "array";
@@ -323,11 +1061,15 @@ export class Schema<F extends Fields> implements SchemaInstance {
 
       const field = {
         ...fieldDef,
+        spec,
+        ...(schemaClass ? { schemaClass } : {}),
         value: nestedValue as ValueMap<F>[typeof key],
         _raw: rawForSerdes,
+        _rejected: rejected,
       } as FieldType<ValueMap<F>[typeof key]> & {
         spec?: TypedSpec<any>;
         _raw?: unknown;
+        _rejected: ValidationIssue[];
       };
 
       fields[key] = field;
@@ -348,8 +1090,119 @@ export class Schema<F extends Fields> implements SchemaInstance {
   /* Validation                                                             */
   /* --------------------------------------------------------------------- */
 
+  /**
+   * Legacy string form of {@link validateIssues} – each issue rendered as
+   * `"<path>: <message>"`.
+   */
   validate(): string[] {
-    const errors: string[] = [];
+    return this.validateIssues().map(formatIssue);
+  }
+
+  /**
+   * Validate every field and return the structured list of issues.  Issues
+   * raised by nested instances, collection elements and union branches carry
+   * the full path from this instance.
+   *
+   * Async constraints are not awaited – each one met is reported with the
+   * `async_constraint` code; use {@link validateIssuesAsync} instead.
+   */
+  validateIssues(): ValidationIssue[] {
+    return this._collectRefined(false).issues;
+  }
+
+  /** String form of {@link validateIssuesAsync}. */
+  async validateAsync(): Promise<string[]> {
+    return (await this.validateIssuesAsync()).map(formatIssue);
+  }
+
+  /**
+   * Like {@link validateIssues} but awaits async constraints.  All pending
+   * checks – across fields, nested schemas and collection elements – run
+   * concurrently; their issues follow the synchronous ones.
+   */
+  async validateIssuesAsync(): Promise<ValidationIssue[]> {
+    const { issues, pending } = this._collectRefined(true);
+    const settled = await Promise.all(pending);
+    return [...issues, ...settled.flat()];
+  }
+
+  /**
+   * Explain why an `optional` field is nevertheless required – because its
+   * `requiredWhen` condition holds or a present field lists it under the
+   * schema's `dependentRequired` – or return `undefined` when it is not.
+   */
+  private _requiredBecause(key: string): string | undefined {
+    const valueOf = (k: string) => (this._fields as any)[k]?.value;
+
+    const when = (this._fields as any)[key]?.requiredWhen as
+      | RequirementCondition
+      | undefined;
+    if (when && conditionHolds(when, valueOf)) {
+      return describeCondition(when);
+    }
+
+    const dependent = (this.constructor as unknown as SchemaClass)._options
+      ?.dependentRequired;
+    for (const [trigger, deps] of Object.entries(dependent ?? {})) {
+      if (deps.includes(key) && valueOf(trigger) !== undefined) {
+        return `${trigger} is present`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * {@link _collectIssues} followed by the schema's refinements.  Cross-field
+   * checks assume well-typed fields, and which fields a refinement reads is
+   * unknown, so any issue – async ones included, hence the wait for
+   * `pending` – skips every refinement.
+   */
+  private _collectRefined(awaitAsync: boolean): {
+    issues: ValidationIssue[];
+    pending: Promise<ValidationIssue[]>[];
+  } {
+    const { issues, pending } = this._collectIssues(awaitAsync);
+    if (issues.length) return { issues, pending };
+    if (!pending.length) return { issues: runRefinements(this), pending };
+    const refined = Promise.all(pending).then((settled) => {
+      const failed = settled.flat();
+      return failed.length ? failed : runRefinements(this);
+    });
+    return { issues, pending: [refined] };
+  }
+
+  /**
+   * Shared implementation of the sync / async validators.  Synchronous issues
+   * are returned directly; when `awaitAsync` is set the results of async
+   * constraints are returned as `pending` promises, otherwise each one is
+   * reported as an `async_constraint` issue.
+   */
+  private _collectIssues(awaitAsync: boolean): {
+    issues: ValidationIssue[];
+    pending: Promise<ValidationIssue[]>[];
+  } {
+    const issues: ValidationIssue[] = [];
+    const pending: Promise<ValidationIssue[]>[] = [];
+
+    const policy = (this.constructor as unknown as { _options: SchemaOptions })
+      ._options.unknownKeys;
+    if (policy === "strict") {
+      for (const key of Object.keys(this._unknown)) {
+        issues.push({
+          path: [key],
+          code: "unrecognized_key",
+          message: "is not a declared field",
+        });
+      }
+    }
+
+    const mergeNested = (nested: Schema<any>, path: IssuePath) => {
+      const res = nested._collectRefined(awaitAsync);
+      issues.push(...prefixIssues(path, res.issues));
+      pending.push(
+        ...res.pending.map((p) => p.then((is) => prefixIssues(path, is))),
+      );
+    };
 
     for (const [key, field] of Object.entries(this._fields) as [
       keyof F,
@@ -359,163 +1212,192 @@ export class Schema<F extends Fields> implements SchemaInstance {
         | TypedSpec<any>
         | SchemaClass
         | undefined;
+      const fieldPath: IssuePath = [key as string];
 
       const val = field.value;
+      // Raw input the deserializer rejected, unless reassigned since.
+      const rejected = (field as any)._rejected as ValidationIssue[];
+      if (rejected?.length && val === (field as any)._raw) {
+        issues.push(...rejected);
+        continue;
+      }
       // Optional / nullable short-circuit
       const isOptional = (field as any).optional;
       const isNullable = (field as any).nullable;
       if (val === undefined) {
-        if (isOptional) continue; // ok
-        errors.push(`${String(key)}: is required`);
+        const reason = isOptional ? this._requiredBecause(key as string) : "";
+        if (reason === undefined) continue; // ok
+        issues.push({
+          path: fieldPath,
+          code: "required",
+          message: reason ? `is required when ${reason}` : "is required",
+        });
         continue;
       }
       if (val === null && isNullable) continue;
 
       // 1. Custom validator(s) ------------------------------------------------
-      const is = field.is as
-        | LogicalConstraint<any>
-        | LogicalConstraint<any>[]
-        | undefined;
-      const runValidators = (candidate: unknown, prefix: string) => {
-        if (!is) return;
-        const res = Array.isArray(is)
-          ? composeConstraints(is as LogicalConstraint<any>[])(candidate)
-          : is(candidate);
-        if (res !== true) errors.push(`${prefix}: ${res}`);
+      const is = field.is as Constraint<any> | Constraint<any>[] | undefined;
+      const runValidators = (candidate: unknown, path: IssuePath) => {
+        // Constraints take non-nullable values – `t.nullable` elements skip.
+        if (!is || candidate == null) return;
+        const res = runConstraints(Array.isArray(is) ? is : [is], candidate);
+        if (isThenable(res)) {
+          if (awaitAsync) {
+            pending.push(
+              res.then((r): ValidationIssue[] =>
+                r === true ? [] : [constraintIssue(path, r)],
+              ),
+            );
+          } else {
+            // Never awaited – keep a rejection from surfacing as unhandled.
+            res.then(undefined, () => undefined);
+            issues.push({
+              path,
+              code: "async_constraint",
+              message: "has an async constraint; use validateAsync()",
+            });
+          }
+          return;
+        }
+        if (res !== true) issues.push(constraintIssue(path, res));
       };
 
       // 2. Nested Schema recursion ------------------------------------------
-      const recurseNested = (candidate: unknown, prefix: string) => {
+      const recurseNested = (candidate: unknown, path: IssuePath) => {
         if ((candidate as any)?.__isSchemaInstance) {
-          const nested = candidate as Schema<any>;
-          for (const msg of nested.validate()) {
-            errors.push(`${prefix}.${msg}`);
+          mergeNested(candidate as Schema<any>, path);
+        }
+      };
+
+      // 3. Union / variant branch construction ------------------------------
+      const validateBranch = (candidate: unknown, path: IssuePath) => {
+        if (spec && typeof spec === "object" && spec.members) {
+          const member = unionMembers(spec)
+            .map(resolveLazy)
+            .find((m) => conformsTo(m, candidate));
+          if (!member) issues.push(unionIssue(path, spec, candidate));
+          else if (
+            typeof member === "object" &&
+            member.kind !== "serdes" &&
+            !member.serdes
+          ) {
+            issues.push(...validateValueAgainstSpec(candidate, member, path));
+          }
+          return;
+        }
+        if (
+          spec &&
+          typeof spec === "object" &&
+          (spec.kind === "union" || spec.kind === "variant")
+        ) {
+          // When the value is *not* already a Schema instance we need to pick
+          // the appropriate constructor and validate recursively.
+          if (!(candidate as any)?.__isSchemaInstance) {
+            try {
+              const ctor = pickCtor(
+                candidate,
+                spec.ctors!,
+                spec.discriminator?.propertyName ?? "kind",
+              );
+              mergeNested(new ctor(candidate as any) as Schema<any>, path);
+            } catch (e) {
+              issues.push({
+                path,
+                code: "invalid_union",
+                message: (e as Error).message,
+              });
+            }
           }
         }
       };
 
+      const checksSpec =
+        spec &&
+        typeof spec === "object" &&
+        "kind" in spec &&
+        spec.kind !== "union" &&
+        spec.kind !== "variant" &&
+        spec.kind !== "serdes" &&
+        !spec.serdes &&
+        !(field as any).schemaClass;
+
       // ------------------------------------------------------------------
-      // Tuple / Map short-circuit – treat entire value as scalar for the
-      // purpose of per-field validation (do NOT iterate over elements).
+      // Tuple / Map / nested collection short-circuit – treat a `one()`
+      // value as scalar for the purpose of per-field validation (do NOT
+      // iterate over elements).  `many()` elements are checked below.
       // ------------------------------------------------------------------
 
       if (
+        (field as any).cardinality === "one" &&
         spec &&
         typeof spec === "object" &&
-        (spec.kind === "tuple" || spec.kind === "map")
+        ["tuple", "map", "array", "set"].includes(spec.kind)
       ) {
-        const r = validateValueAgainstSpec(val, spec as TypedSpec<any>);
-        if (r !== true) errors.push(`${String(key)}: ${r}`);
+        issues.push(
+          ...validateValueAgainstSpec(val, spec as TypedSpec<any>, fieldPath),
+        );
 
-        runValidators(val, String(key));
+        runValidators(val, fieldPath);
 
         if (spec.kind === "tuple" && Array.isArray(val)) {
           (val as unknown[]).forEach((item, idx) =>
-            recurseNested(item, `${String(key)}[${idx}]`),
+            recurseNested(item, [...fieldPath, idx]),
           );
         }
         if (spec.kind === "map") {
-          const entriesVals: unknown[] =
+          const entries: [unknown, unknown][] =
             (val as any) instanceof Map
-              ? Array.from((val as Map<unknown, unknown>).values())
+              ? Array.from((val as Map<unknown, unknown>).entries())
               : typeof val === "object" && val !== null
-                ? Object.values(val as Record<string, unknown>)
+                ? Object.entries(val as Record<string, unknown>)
                 : [];
-          entriesVals.forEach((v) => recurseNested(v, String(key)));
+          entries.forEach(([k, v]) =>
+            recurseNested(v, [
+              ...fieldPath,
+              typeof k === "number" ? k : String(k),
+            ]),
+          );
         }
         continue; // skip the rest of the loop for this field
       }
 
-      const iterable = asIterable(val);
+      const iterable = fieldElements(field, val);
       if (iterable) {
         iterable.forEach((item, idx) => {
+          const itemPath = [...fieldPath, idx];
+
           // Primitive / enum / literal validation per item
-          if (
-            spec &&
-            typeof spec === "object" &&
-            "kind" in spec &&
-            spec.kind !== "union" &&
-            spec.kind !== "variant" &&
-            spec.kind !== "serdes" &&
-            !(field as any).schemaClass
-          ) {
-            const r = validateValueAgainstSpec(item, spec as TypedSpec<any>);
-            if (r !== true) errors.push(`${String(key)}[${idx}]: ${r}`);
+          if (checksSpec) {
+            issues.push(
+              ...validateValueAgainstSpec(
+                item,
+                spec as TypedSpec<any>,
+                itemPath,
+              ),
+            );
           }
 
-          runValidators(item, `${String(key)}[${idx}]`);
-          recurseNested(item, `${String(key)}[${idx}]`);
-
-          // Union / variant items validation
-          if (
-            spec &&
-            typeof spec === "object" &&
-            (spec.kind === "union" || spec.kind === "variant")
-          ) {
-            if (!(item as any)?.__isSchemaInstance) {
-              try {
-                const ctor = pickCtor(
-                  item,
-                  spec.ctors!,
-                  spec.discriminator?.propertyName ?? "kind",
-                );
-                const instance = new ctor(item as any) as Schema<any>;
-                for (const msg of instance.validate()) {
-                  errors.push(`${String(key)}[${idx}].${msg}`);
-                }
-              } catch (e) {
-                errors.push(`${String(key)}[${idx}]: ${(e as Error).message}`);
-              }
-            }
-          }
+          runValidators(item, itemPath);
+          recurseNested(item, itemPath);
+          validateBranch(item, itemPath);
         });
         continue;
       }
 
       // Single value path -----------------------------------------------------
-      if (
-        spec &&
-        typeof spec === "object" &&
-        "kind" in spec &&
-        spec.kind !== "union" &&
-        spec.kind !== "variant" &&
-        spec.kind !== "serdes" &&
-        !(field as any).schemaClass
-      ) {
-        const r = validateValueAgainstSpec(val, spec as TypedSpec<any>);
-        if (r !== true) errors.push(`${String(key)}: ${r}`);
+      if (checksSpec) {
+        issues.push(
+          ...validateValueAgainstSpec(val, spec as TypedSpec<any>, fieldPath),
+        );
       }
 
-      runValidators(val, String(key));
-      recurseNested(val, String(key));
-
-      // 3. Union / variant runtime validation ---------------------------
-      if (
-        spec &&
-        typeof spec === "object" &&
-        (spec.kind === "union" || spec.kind === "variant")
-      ) {
-        // When the value is *not* already a Schema instance we need to pick
-        // the appropriate constructor and validate recursively.
-        if (!(val as any)?.__isSchemaInstance) {
-          try {
-            const ctor = pickCtor(
-              val,
-              spec.ctors!,
-              spec.discriminator?.propertyName ?? "kind",
-            );
-            const instance = new ctor(val as any) as Schema<any>;
-            for (const msg of instance.validate()) {
-              errors.push(`${String(key)}.${msg}`);
-            }
-          } catch (e) {
-            errors.push(`${String(key)}: ${(e as Error).message}`);
-          }
-        }
-      }
+      runValidators(val, fieldPath);
+      recurseNested(val, fieldPath);
+      validateBranch(val, fieldPath);
     }
 
-    return errors;
+    return { issues, pending };
   }
 
   /* --------------------------------------------------------------------- */
@@ -553,15 +1435,19 @@ export class Schema<F extends Fields> implements SchemaInstance {
       const raw = (() => {
         if (field.value == null) return field.value as unknown;
 
-        const iterable = asIterable(field.value);
-        if (iterable) {
-          return iterable.map((v: unknown) =>
-            (v as any)?.__isSchemaInstance ? (v as Schema<any>).toJSON() : v,
-          );
-        }
-        return (field.value as any)?.__isSchemaInstance
-          ? (field.value as Schema<any>).toJSON()
-          : field.value;
+        const spec = (field as any).spec as TypedSpec<any> | undefined;
+        // Union members with a serdes pair of their own (`t.date`, …) are
+        // serialised here unless the field declares its own.
+        const item = (v: unknown): unknown =>
+          (v as any)?.__isSchemaInstance
+            ? (v as Schema<any>).toJSON()
+            : spec?.members && !(field as any).serdes
+              ? memberToRaw(v, spec)
+              : v;
+
+        const iterable = fieldElements(field, field.value);
+        if (iterable) return iterable.map(item);
+        return item(field.value);
       })();
 
       // Apply optional serializer
@@ -579,170 +1465,91 @@ export class Schema<F extends Fields> implements SchemaInstance {
 
       (json as Record<string, unknown>)[key] = serialise(rendered);
     }
+
+    const policy = (this.constructor as unknown as { _options: SchemaOptions })
+      ._options.unknownKeys;
+    if (policy === "passthrough") {
+      for (const [key, value] of Object.entries(this._unknown)) {
+        (json as Record<string, unknown>)[key] = serialise(value);
+      }
+    }
     return json;
   }
 
   /* --------------------------------------------------------------------- */
-  /* jsonSchema                                                             */
+  /* Protocol Buffers                                                       */
   /* --------------------------------------------------------------------- */
 
-  static jsonSchema(): Record<string, unknown> {
-    const schema = (this as any)._schema as Fields;
-
-    const properties: Record<string, unknown> = {};
-    const required: string[] = [];
-
-    const specToSchema = (
-      spec: TypedSpec<any> | SchemaClass,
-    ): Record<string, unknown> => {
-      if (typeof spec === "function") {
-        return (spec as unknown as typeof Schema).jsonSchema();
-      }
-
-      switch (spec.kind) {
-        case "primitive": {
-          let typeStr: string;
-          if (spec === t.string) typeStr = "string";
-          else if (spec === t.number) typeStr = "number";
-          else if (spec === t.boolean) typeStr = "boolean";
-          else if (spec === t.bigint)
-            typeStr = "string"; // encode bigint as string in JSON
-          else typeStr = "string"; // fallback
-          return { type: typeStr };
-        }
-        case "literal": {
-          const baseType = typeof spec.literal;
-          return { type: baseType, const: spec.literal } as Record<
-            string,
-            unknown
-          >;
-        }
-        case "enum": {
-          const values = Object.values(spec.enumObject ?? {});
-          const baseType = typeof values[0] === "number" ? "number" : "string";
-          return { type: baseType, enum: values } as Record<string, unknown>;
-        }
-        case "serdes": {
-          return specToSchema(spec.rawSpec!);
-        }
-        case "union": {
-          return { oneOf: spec.ctors!.map((C) => (C as any).jsonSchema()) };
-        }
-        case "variant": {
-          return {
-            oneOf: spec.ctors!.map((C) => (C as any).jsonSchema()),
-            discriminator: {
-              propertyName:
-                (spec.discriminator?.propertyName as string) ?? "kind",
-            },
-          };
-        }
-
-        case "tuple": {
-          return {
-            type: "array",
-            items: spec.specs!.map((s) => specToSchema(s)),
-            minItems: spec.specs!.length,
-            maxItems: spec.specs!.length,
-          } as Record<string, unknown>;
-        }
-
-        case "map": {
-          return {
-            type: "object",
-            additionalProperties: specToSchema(spec.valueSpec!),
-            propertyNames: specToSchema(spec.keySpec!),
-          } as Record<string, unknown>;
-        }
-        default:
-          return {};
-      }
-    };
-
-    for (const [key, fieldDef] of Object.entries(schema)) {
-      const spec = (fieldDef as any).spec as TypedSpec<any> | SchemaClass;
-      const cardinality = (fieldDef as any).cardinality ?? "one";
-
-      let propSchema = specToSchema(spec);
-
-      if (
-        cardinality === "array" ||
-        cardinality === "set" ||
-        cardinality === "many"
-      ) {
-        propSchema = { type: "array", items: propSchema };
-      }
-
-      // ---------------------------------------------------------------
-      // Nullable support — when the field is flagged as `nullable: true`
-      // we widen the schema to also allow the JSON literal `null`.
-      // ---------------------------------------------------------------
-      const isNullable = (fieldDef as any).nullable === true;
-      if (isNullable) {
-        if (propSchema.type) {
-          if (Array.isArray(propSchema.type)) {
-            if (!(propSchema.type as string[]).includes("null")) {
-              propSchema.type = [...(propSchema.type as string[]), "null"];
-            }
-          } else if (typeof propSchema.type === "string") {
-            propSchema.type = [propSchema.type as string, "null"];
-          }
-        } else if (propSchema.oneOf) {
-          propSchema.oneOf = [
-            ...(propSchema.oneOf as unknown[]),
-            { type: "null" },
-          ];
-        } else if (propSchema.anyOf) {
-          propSchema.anyOf = [
-            ...(propSchema.anyOf as unknown[]),
-            { type: "null" },
-          ];
-        } else {
-          propSchema = { anyOf: [propSchema, { type: "null" }] } as any;
-        }
-      }
-
-      const desc = (fieldDef as any).description;
-      if (desc) propSchema.description = desc;
-
-      if ((fieldDef as any).default !== undefined) {
-        const d = (fieldDef as any).default;
-        propSchema.default = typeof d === "function" ? d() : d;
-      }
+  /**
+   * Encode the instance as protobuf wire bytes matching the message
+   * `protoSchema()` declares for its class.  Field serializers are applied;
+   * undeclared `passthrough` keys are not encoded.
+   */
+  toProtobuf(): Uint8Array {
+    return encodeProtobuf(this.constructor as unknown as SchemaClass, this);
+  }
 
-      properties[key] = propSchema;
+  /**
+   * Encode the instance with Avro's binary encoding, per the schema
+   * `avroSchema()` builds for its class.  Field serializers are applied.
+   */
+  toAvro(): Uint8Array {
+    return encodeAvro(this.constructor as unknown as SchemaClass, this);
+  }
 
-      const optional = (fieldDef as any).optional;
-      if (!optional && (fieldDef as any).default === undefined) {
-        required.push(key);
-      }
-    }
+  /**
+   * Encode the instance as MessagePack.  Unlike `toJSON()` it keeps bigints,
+   * typed map keys, `Set`s and binary data; field serializers are applied.
+   */
+  toMsgpack(): Uint8Array {
+    return encodeMsgpack(this.constructor as unknown as SchemaClass, this);
+  }
 
-    const out: Record<string, unknown> = {
-      type: "object",
-      properties,
-    };
-    if (required.length) out.required = required;
+  /* --------------------------------------------------------------------- */
+  /* jsonSchema                                                             */
+  /* --------------------------------------------------------------------- */
 
-    return out;
+  static jsonSchema(options: JsonSchemaOptions = {}): Record<string, unknown> {
+    return classJsonSchema(this as unknown as SchemaClass, options);
   }
 
   /* --------------------------------------------------------------------- */
   /* Static factories                                                       */
   /* --------------------------------------------------------------------- */
 
-  static from<F extends Record<string, FieldType<any>>>(schema: F) {
+  static from<F extends Record<string, FieldType<any>>>(
+    schema: F,
+    options: SchemaOptions<Schema<F> & ValueMap<F>> = {},
+  ) {
     const Base = this as unknown as typeof Schema;
     class ModelWithSchema extends Base<F> {
       static _schema = schema;
+      static _options = options;
     }
 
     return ModelWithSchema as unknown as {
       new (input: InputValueMap<F>): Schema<F> & ValueMap<F>;
       _schema: F;
-      jsonSchema(): Record<string, unknown>;
+      _options: SchemaOptions<Schema<F> & ValueMap<F>>;
+      jsonSchema(options?: JsonSchemaOptions): Record<string, unknown>;
       fromJSON(
         input: unknown,
+        options?: ParseOptions,
+      ): Result<Schema<F> & ValueMap<F>, ErrLog<Schema<F> & ValueMap<F>>>;
+      fromJSONAsync(
+        input: unknown,
+        options?: ParseOptions,
+      ): Promise<
+        Result<Schema<F> & ValueMap<F>, ErrLog<Schema<F> & ValueMap<F>>>
+      >;
+      fromProtobuf(
+        bytes: Uint8Array,
+      ): Result<Schema<F> & ValueMap<F>, ErrLog<Schema<F> & ValueMap<F>>>;
+      fromAvro(
+        bytes: Uint8Array,
+      ): Result<Schema<F> & ValueMap<F>, ErrLog<Schema<F> & ValueMap<F>>>;
+      fromMsgpack(
+        bytes: Uint8Array,
       ): Result<Schema<F> & ValueMap<F>, ErrLog<Schema<F> & ValueMap<F>>>;
     };
   }
@@ -753,24 +1560,87 @@ export class Schema<F extends Fields> implements SchemaInstance {
       _schema: Fields;
     },
     input: unknown,
+    options: ParseOptions = {},
   ): Result<InstanceType<typeof this>, ErrLog<InstanceType<typeof this>>> {
+    const coerced: ValidationIssue[] = [];
+    const raw = options.coerce
+      ? coerceObject(input, this as unknown as SchemaClass, [], coerced)
+      : input;
+
     // Build instance and validate in one go
-    const instance = new this(input as any);
-    const errs = instance.validate();
-    if (!errs.length) return { val: instance, errs: undefined };
+    const instance = new this(raw as any);
+    return parseResult(instance, coerced, instance.validateIssues());
+  }
 
-    const errLog = {} as Record<string, string | undefined> & {
-      summarize(): string[];
-    };
-    for (const key of Object.keys(this._schema)) errLog[key] = undefined;
-    for (const msg of errs) {
-      const idx = msg.indexOf(": ");
-      if (idx === -1) continue;
-      const k = msg.slice(0, idx);
-      const m = msg.slice(idx + 2);
-      errLog[k] = m;
-    }
-    errLog.summarize = () => errs.slice();
-    return { val: undefined, errs: errLog as any };
+  /**
+   * Decode protobuf wire bytes produced by {@link Schema.toProtobuf} (or any
+   * encoder using the `protoSchema()` definition) and validate the result like
+   * {@link Schema.fromJSON}.  Malformed bytes throw.
+   */
+  static fromProtobuf(
+    this: {
+      new (input: any): Schema<any> & Fields;
+      _schema: Fields;
+    },
+    bytes: Uint8Array,
+  ): Result<InstanceType<typeof this>, ErrLog<InstanceType<typeof this>>> {
+    const raw = decodeProtobuf(this as unknown as SchemaClass, bytes);
+    const instance = new this(raw as any);
+    return parseResult(instance, [], instance.validateIssues());
+  }
+
+  /**
+   * Decode Avro binary data written with the class's `avroSchema()` and
+   * validate the result like {@link Schema.fromJSON}.  Malformed bytes throw.
+   */
+  static fromAvro(
+    this: {
+      new (input: any): Schema<any> & Fields;
+      _schema: Fields;
+    },
+    bytes: Uint8Array,
+  ): Result<InstanceType<typeof this>, ErrLog<InstanceType<typeof this>>> {
+    const raw = decodeAvro(this as unknown as SchemaClass, bytes);
+    const instance = new this(raw as any);
+    return parseResult(instance, [], instance.validateIssues());
+  }
+
+  /**
+   * Decode MessagePack bytes produced by {@link Schema.toMsgpack} and
+   * validate the result like {@link Schema.fromJSON}.  Malformed bytes throw.
+   */
+  static fromMsgpack(
+    this: {
+      new (input: any): Schema<any> & Fields;
+      _schema: Fields;
+    },
+    bytes: Uint8Array,
+  ): Result<InstanceType<typeof this>, ErrLog<InstanceType<typeof this>>> {
+    const raw = decodeMsgpack(this as unknown as SchemaClass, bytes);
+    const instance = new this(raw as any);
+    return parseResult(instance, [], instance.validateIssues());
+  }
+
+  /**
+   * Async counterpart of {@link Schema.fromJSON} – awaits async constraints
+   * (see {@link Schema.validateIssuesAsync}).
+   */
+  static async fromJSONAsync(
+    this: {
+      new (input: any): Schema<any> & Fields;
+      _schema: Fields;
+    },
+    input: unknown,
+    options: ParseOptions = {},
+  ): Promise<
+    Result<InstanceType<typeof this>, ErrLog<InstanceType<typeof this>>>
+  > {
+    const coerced: ValidationIssue[] = [];
+    const raw = options.coerce
+      ? coerceObject(input, this as unknown as SchemaClass, [], coerced)
+      : input;
+
+    const instance = new this(raw as any);
+    return parseResult(instance, coerced, await instance.validateIssuesAsync());
   }
 }
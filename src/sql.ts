@@ -0,0 +1,440 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Relational mapping – `CREATE TABLE` statements and row conversion for
+ * `Schema` classes, in the PostgreSQL and SQLite dialects.
+ *
+ * Each field becomes one snake_case column.  Scalars map to native column
+ * types (enums and literals with a `CHECK`), while nested classes, tuples,
+ * maps, variants and `many()` fields are stored as JSON (`JSONB` in
+ * PostgreSQL, `TEXT` in SQLite).
+ */
+
+import { TypedSpec, resolveLazy, t } from "@src/typed";
+import type {
+  Constraint,
+  ErrLog,
+  Fields,
+  ParseOptions,
+  Result,
+  SchemaClass,
+  ValidationIssue,
+} from "@src/types";
+import { buildErrLog } from "@src/issues";
+import { serializedField } from "@src/wire";
+
+export type SqlDialect = "postgres" | "sqlite";
+
+export interface SqlTableOptions {
+  /** Defaults to `"postgres"`. */
+  dialect?: SqlDialect;
+
+  /** Table name; defaults to the snake_case class `id` or name. */
+  table?: string;
+
+  /** Field name(s) forming the primary key. */
+  primaryKey?: string | string[];
+}
+
+/** How a column's values are stored and converted. */
+type ColumnKind =
+  | "text"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "bigint"
+  | "timestamp"
+  | "json";
+
+export interface SqlColumn {
+  /** Column name (snake_case field name). */
+  name: string;
+  /** Field the column stores. */
+  field: string;
+  /** Column type in the table's dialect, e.g. `"TEXT"`. */
+  type: string;
+  nullable: boolean;
+}
+
+export interface SqlTable<C extends SchemaClass> {
+  readonly name: string;
+  readonly dialect: SqlDialect;
+  readonly columns: readonly SqlColumn[];
+
+  /** `CREATE TABLE` statement for the table. */
+  createTable(options?: { ifNotExists?: boolean }): string;
+
+  /** Query parameters for `instance`, keyed by column name. */
+  toRow(instance: InstanceType<C>): Record<string, unknown>;
+
+  /**
+   * Build and validate an instance from a result row keyed by column name,
+   * as `fromJSON` does.  JSON columns may arrive as text or parsed values;
+   * unreadable JSON or timestamp columns are reported in `errs`.
+   */
+  fromRow(
+    row: Record<string, unknown>,
+  ): Result<InstanceType<C>, ErrLog<InstanceType<C>>>;
+}
+
+interface Column extends SqlColumn {
+  kind: ColumnKind;
+  def: any;
+  /** For `timestamp` columns: the serdes raw representation. */
+  raw?: "string" | "number";
+  /** Values a `CHECK` constraint admits. */
+  allowed?: readonly (string | number | boolean)[];
+}
+
+const COLUMN_TYPES: Record<SqlDialect, Record<ColumnKind, string>> = {
+  postgres: {
+    text: "TEXT",
+    number: "DOUBLE PRECISION",
+    integer: "BIGINT",
+    boolean: "BOOLEAN",
+    bigint: "BIGINT",
+    timestamp: "TIMESTAMPTZ",
+    json: "JSONB",
+  },
+  sqlite: {
+    text: "TEXT",
+    number: "REAL",
+    integer: "INTEGER",
+    boolean: "INTEGER",
+    bigint: "INTEGER",
+    timestamp: "TEXT",
+    json: "TEXT",
+  },
+};
+
+const SIMPLE_IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+/** Words that must be quoted when used as identifiers in either dialect. */
+const RESERVED = new Set([
+  "all",
+  "and",
+  "as",
+  "asc",
+  "by",
+  "case",
+  "check",
+  "column",
+  "constraint",
+  "create",
+  "default",
+  "desc",
+  "else",
+  "end",
+  "from",
+  "group",
+  "in",
+  "index",
+  "is",
+  "key",
+  "limit",
+  "not",
+  "null",
+  "offset",
+  "on",
+  "or",
+  "order",
+  "primary",
+  "references",
+  "select",
+  "table",
+  "then",
+  "to",
+  "unique",
+  "user",
+  "values",
+  "when",
+  "where",
+]);
+
+/** `"createdAt"` → `"created_at"`, `"HTTPStatus"` → `"http_status"`. */
+function snake(raw: string): string {
+  return raw
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+function quote(identifier: string): string {
+  return SIMPLE_IDENTIFIER.test(identifier) && !RESERVED.has(identifier)
+    ? identifier
+    : `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function fieldsOf(ctor: SchemaClass): Fields {
+  return (ctor as any)._schema as Fields;
+}
+
+function hasConstraint(def: any, name: string): boolean {
+  const is = def.is as Constraint<any> | Constraint<any>[] | undefined;
+  return (Array.isArray(is) ? is : is ? [is] : []).some(
+    (c) => c.meta?.name === name,
+  );
+}
+
+function scalarKind(values: readonly unknown[]): ColumnKind {
+  if (values.every((v) => typeof v === "string")) return "text";
+  if (values.every((v) => typeof v === "boolean")) return "boolean";
+  if (values.every((v) => Number.isInteger(v))) return "integer";
+  return values.every((v) => typeof v === "number") ? "number" : "json";
+}
+
+function column(key: string, def: any, dialect: SqlDialect): Column {
+  const base = { name: snake(key), field: key, def };
+  const nullable = Boolean(def.optional || def.nullable);
+  const make = (kind: ColumnKind, extra: Partial<Column> = {}): Column => {
+    // SQLite has no timestamp type – those columns keep the raw form.
+    const stored =
+      kind === "timestamp" && dialect === "sqlite"
+        ? extra.raw === "number"
+          ? "integer"
+          : "text"
+        : kind;
+    return {
+      ...base,
+      ...extra,
+      kind: stored,
+      type: COLUMN_TYPES[dialect][stored],
+      nullable,
+    };
+  };
+
+  if (def.cardinality !== "one") return make("json");
+
+  let spec = resolveLazy(def.spec) as TypedSpec<any> | SchemaClass;
+  if (typeof spec === "object" && spec.kind === "serdes") {
+    if (spec.example === Date) {
+      return make("timestamp", {
+        raw: spec.rawSpec === t.number ? "number" : "string",
+      });
+    }
+    spec = resolveLazy(spec.rawSpec!);
+  }
+  if (typeof spec === "function") return make("json");
+
+  switch (spec.kind) {
+    case "primitive":
+      if (spec === t.number) {
+        return make(hasConstraint(def, "isInteger") ? "integer" : "number");
+      }
+      if (spec === t.boolean) return make("boolean");
+      if (spec === t.bigint) return make("bigint");
+      return make("text");
+    case "literal":
+      return make(scalarKind([spec.literal]), { allowed: [spec.literal] });
+    case "enum": {
+      const values = Object.values(spec.enumObject ?? {});
+      return make(scalarKind(values), { allowed: values });
+    }
+    default:
+      return make("json");
+  }
+}
+
+function sqlLiteral(value: unknown, dialect: SqlDialect): string {
+  if (typeof value === "string") return `'${value.replace(/'/g, "''")}'`;
+  if (typeof value === "boolean") {
+    if (dialect === "sqlite") return value ? "1" : "0";
+    return value ? "TRUE" : "FALSE";
+  }
+  return String(value);
+}
+
+/**
+ * A static field default in its stored form, or `undefined` when it has none
+ * that SQL can spell (factories, JSON columns, non-scalar values).
+ */
+function defaultValue(col: Column, dialect: SqlDialect): unknown {
+  const fallback = col.def.default;
+  if (
+    fallback === undefined ||
+    typeof fallback === "function" ||
+    col.kind === "json"
+  ) {
+    return undefined;
+  }
+  const serialize = col.def.serdes?.[0] as
+    | ((value: unknown) => unknown)
+    | undefined;
+  const raw = serialize ? serialize(fallback) : fallback;
+  const stored = toParam(col, raw, raw, dialect);
+  return ["string", "number", "boolean", "bigint"].includes(typeof stored)
+    ? stored
+    : undefined;
+}
+
+function columnDefinition(col: Column, dialect: SqlDialect): string {
+  const parts = [quote(col.name), col.type];
+  if (!col.nullable) parts.push("NOT NULL");
+
+  const fallback = defaultValue(col, dialect);
+  if (fallback !== undefined) {
+    parts.push(`DEFAULT ${sqlLiteral(fallback, dialect)}`);
+  }
+
+  const allowed =
+    col.allowed ??
+    (col.kind === "boolean" && dialect === "sqlite"
+      ? [false, true]
+      : undefined);
+  if (allowed) {
+    const values = allowed.map((v) => sqlLiteral(v, dialect));
+    parts.push(
+      values.length === 1
+        ? `CHECK (${quote(col.name)} = ${values[0]})`
+        : `CHECK (${quote(col.name)} IN (${values.join(", ")}))`,
+    );
+  }
+  return parts.join(" ");
+}
+
+/** Column value → query parameter. */
+function toParam(
+  col: Column,
+  raw: unknown,
+  json: unknown,
+  dialect: SqlDialect,
+): unknown {
+  if (raw === null || raw === undefined) return null;
+  switch (col.kind) {
+    case "json":
+      return JSON.stringify(json);
+    case "boolean":
+      return dialect === "sqlite" ? (raw ? 1 : 0) : Boolean(raw);
+    case "timestamp":
+      return new Date(raw as string | number).toISOString();
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Result-row value → constructor input.  Throws when a JSON or timestamp
+ * column does not hold one; other values are left for coercion to check.
+ */
+function fromColumn(col: Column, value: unknown): unknown {
+  switch (col.kind) {
+    case "json":
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new Error("column does not hold valid JSON");
+      }
+    case "boolean":
+      return typeof value === "boolean" ? value : Number(value) !== 0;
+    case "number":
+    case "integer":
+      // Drivers return BIGINT as strings (pg) or bigints (SQLite).
+      return typeof value === "number" ? value : Number(value);
+    case "timestamp": {
+      const date =
+        value instanceof Date ? value : new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error("column does not hold a valid timestamp");
+      }
+      return col.raw === "number" ? date.getTime() : date.toISOString();
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Describe the table storing instances of `ctor`: its `CREATE TABLE`
+ * statement and conversions between instances and rows.
+ *
+ * ```ts
+ * const users = sqlTable(User, { dialect: "sqlite", primaryKey: "id" });
+ * db.exec(users.createTable());
+ * insert.run(users.toRow(user));
+ * const { val, errs } = users.fromRow(select.get(id));
+ * ```
+ */
+export function sqlTable<C extends SchemaClass>(
+  ctor: C,
+  options: SqlTableOptions = {},
+): SqlTable<C> {
+  const dialect = options.dialect ?? "postgres";
+  const id = ctor._options?.id ?? (ctor as { name?: string }).name ?? "";
+  const name = options.table ?? snake(id);
+  const columns = Object.entries<any>(fieldsOf(ctor)).map(([key, def]) =>
+    column(key, def, dialect),
+  );
+
+  const primaryKey = [options.primaryKey ?? []].flat().map((key) => {
+    const col = columns.find((c) => c.field === key);
+    if (!col) throw new Error(`sql: ${name} has no field ${key}`);
+    return quote(col.name);
+  });
+
+  return {
+    name,
+    dialect,
+    columns: columns.map(({ name, field, type, nullable }) => ({
+      name,
+      field,
+      type,
+      nullable,
+    })),
+
+    createTable({ ifNotExists = false } = {}) {
+      const lines = columns.map((c) => `  ${columnDefinition(c, dialect)}`);
+      if (primaryKey.length) {
+        lines.push(`  PRIMARY KEY (${primaryKey.join(", ")})`);
+      }
+      const head = ifNotExists ? "CREATE TABLE IF NOT EXISTS" : "CREATE TABLE";
+      return `${head} ${quote(name)} (\n${lines.join(",\n")}\n);`;
+    },
+
+    toRow(instance) {
+      const json = (instance as any).toJSON() as Record<string, unknown>;
+      const row: Record<string, unknown> = {};
+      for (const col of columns) {
+        const raw = serializedField(instance, col.field, col.def);
+        row[col.name] = toParam(col, raw, json[col.field], dialect);
+      }
+      return row;
+    },
+
+    fromRow(row) {
+      const input: Record<string, unknown> = {};
+      const broken: ValidationIssue[] = [];
+      for (const col of columns) {
+        const value = row[col.name];
+        if (value === null || value === undefined) {
+          if (col.def.nullable) input[col.field] = null;
+          continue;
+        }
+        try {
+          input[col.field] = fromColumn(col, value);
+        } catch (e) {
+          broken.push({
+            path: [col.field],
+            code: "invalid_format",
+            message: (e as Error).message,
+          });
+        }
+      }
+      // A row whose columns cannot be read is reported on those alone.
+      if (broken.length) {
+        return { val: undefined, errs: buildErrLog<InstanceType<C>>(broken) };
+      }
+      // JSON columns hold `toJSON()` output – coercion revives bigints etc.
+      return (
+        ctor as unknown as {
+          fromJSON(
+            input: unknown,
+            options: ParseOptions,
+          ): Result<InstanceType<C>, ErrLog<InstanceType<C>>>;
+        }
+      ).fromJSON(input, { coerce: true });
+    },
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Plain temporal values exposed by the built-in `t.dateOnly`, `t.time` and
+ * `t.duration` descriptors, plus the ISO 8601 parsing shared by them and
+ * `t.date`.
+ *
+ * `PlainDate` and `PlainTime` carry no time zone and compare with `<` / `>`
+ * through `valueOf()`, like `Date`.
+ */
+
+/** JSON-Schema `format` of the raw string of a temporal descriptor. */
+export type TemporalFormat = "date-time" | "date" | "time" | "duration";
+
+/** Values the `before` / `after` constraints order. */
+export type TemporalPoint = Date | PlainDate | PlainTime;
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?$/;
+const DATE_TIME =
+  /^(\d{4}-\d{2}-\d{2})[Tt](\d{2}:\d{2}:\d{2}(?:\.\d+)?)(?:[Zz]|[+-](\d{2}):(\d{2}))$/;
+const DURATION =
+  /^P(?!$)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+const pad = (n: number, width = 2): string => String(n).padStart(width, "0");
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) {
+    const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    return leap ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/** `[year, month, day]` of an ISO calendar date, if valid. */
+function dateParts(iso: string): [number, number, number] | undefined {
+  const m = DATE.exec(iso);
+  if (!m) return undefined;
+  const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return undefined;
+  }
+  return [year, month, day];
+}
+
+/** `[hour, minute, second, millisecond]` of an ISO time, if valid. */
+function timeParts(iso: string): [number, number, number, number] | undefined {
+  const m = TIME.exec(iso);
+  if (!m) return undefined;
+  const [hour, minute, second] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  if (hour > 23 || minute > 59 || second > 59) return undefined;
+  // Sub-millisecond digits are dropped.
+  const ms = m[4] ? Number(m[4].slice(1, 4).padEnd(3, "0")) : 0;
+  return [hour, minute, second, ms];
+}
+
+/**
+ * Calendar date without a time of day or zone, e.g. `2024-02-29`.
+ */
+export class PlainDate {
+  constructor(
+    readonly year: number,
+    readonly month: number,
+    readonly day: number,
+  ) {}
+
+  /** Parse `YYYY-MM-DD`; throws a `RangeError` for anything else. */
+  static parse(iso: string): PlainDate {
+    const parts = dateParts(iso);
+    if (!parts) throw new RangeError(`invalid ISO 8601 date: ${iso}`);
+    return new PlainDate(...parts);
+  }
+
+  /** The UTC calendar date of `date`. */
+  static fromDate(date: Date): PlainDate {
+    return new PlainDate(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+    );
+  }
+
+  /** Midnight UTC of the date. */
+  toDate(): Date {
+    const date = new Date(0);
+    date.setUTCFullYear(this.year, this.month - 1, this.day);
+    return date;
+  }
+
+  valueOf(): number {
+    return this.toDate().getTime();
+  }
+
+  toString(): string {
+    return `${pad(this.year, 4)}-${pad(this.month)}-${pad(this.day)}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Wall-clock time without a date or zone, e.g. `09:30:00`, to millisecond
+ * precision.
+ */
+export class PlainTime {
+  constructor(
+    readonly hour: number,
+    readonly minute: number,
+    readonly second = 0,
+    readonly millisecond = 0,
+  ) {}
+
+  /** Parse `HH:MM:SS[.fff]`; throws a `RangeError` for anything else. */
+  static parse(iso: string): PlainTime {
+    const parts = timeParts(iso);
+    if (!parts) throw new RangeError(`invalid ISO 8601 time: ${iso}`);
+    return new PlainTime(...parts);
+  }
+
+  /** Milliseconds since midnight. */
+  valueOf(): number {
+    return (
+      ((this.hour * 60 + this.minute) * 60 + this.second) * 1000 +
+      this.millisecond
+    );
+  }
+
+  toString(): string {
+    const base = `${pad(this.hour)}:${pad(this.minute)}:${pad(this.second)}`;
+    return this.millisecond ? `${base}.${pad(this.millisecond, 3)}` : base;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export interface DurationParts {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  /** May be fractional. */
+  seconds?: number;
+}
+
+const DURATION_UNITS = [
+  ["years", "Y"],
+  ["months", "M"],
+  ["weeks", "W"],
+  ["days", "D"],
+  ["hours", "H"],
+  ["minutes", "M"],
+  ["seconds", "S"],
+] as const;
+
+/**
+ * ISO 8601 duration such as `P1Y2M` or `PT36H`.  Calendar units are kept
+ * apart from clock units, so a duration only becomes a length of time once
+ * it is applied to a date (see {@link Duration.addTo}).
+ */
+export class Duration implements Required<DurationParts> {
+  readonly years: number;
+  readonly months: number;
+  readonly weeks: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+  readonly seconds: number;
+
+  constructor(parts: DurationParts = {}) {
+    this.years = parts.years ?? 0;
+    this.months = parts.months ?? 0;
+    this.weeks = parts.weeks ?? 0;
+    this.days = parts.days ?? 0;
+    this.hours = parts.hours ?? 0;
+    this.minutes = parts.minutes ?? 0;
+    this.seconds = parts.seconds ?? 0;
+  }
+
+  /** Parse `PnYnMnWnDTnHnMnS`; throws a `RangeError` for anything else. */
+  static parse(iso: string): Duration {
+    const m = DURATION.exec(iso);
+    if (!m) throw new RangeError(`invalid ISO 8601 duration: ${iso}`);
+    const parts: DurationParts = {};
+    DURATION_UNITS.forEach(([unit], i) => {
+      if (m[i + 1] !== undefined) parts[unit] = Number(m[i + 1]);
+    });
+    return new Duration(parts);
+  }
+
+  /** `date` moved forward (or back, for `sign` -1) by the duration, in UTC. */
+  addTo(date: Date, sign: 1 | -1 = 1): Date {
+    const out = new Date(date.getTime());
+    out.setUTCFullYear(
+      out.getUTCFullYear() + sign * this.years,
+      out.getUTCMonth() + sign * this.months,
+      out.getUTCDate() + sign * (this.weeks * 7 + this.days),
+    );
+    const clock = (this.hours * 3600 + this.minutes * 60 + this.seconds) * 1000;
+    return new Date(out.getTime() + sign * clock);
+  }
+
+  toString(): string {
+    const part = (i: number) => {
+      const [unit, symbol] = DURATION_UNITS[i];
+      return this[unit] ? `${this[unit]}${symbol}` : "";
+    };
+    const date = [0, 1, 2, 3].map(part).join("");
+    const time = [4, 5, 6].map(part).join("");
+    if (!date && !time) return "PT0S";
+    return `P${date}${time ? `T${time}` : ""}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/** Parse an RFC 3339 date-time (offset required); `undefined` if invalid. */
+export function parseDateTime(iso: string): Date | undefined {
+  const m = DATE_TIME.exec(iso);
+  if (!m || !dateParts(m[1]) || !timeParts(m[2])) return undefined;
+  if (m[3] !== undefined && (Number(m[3]) > 23 || Number(m[4]) > 59)) {
+    return undefined;
+  }
+  const date = new Date(iso.toUpperCase());
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Whether `raw` is a valid ISO 8601 string of the given `format`. */
+export function isTemporalString(format: TemporalFormat, raw: string): boolean {
+  switch (format) {
+    case "date-time":
+      return parseDateTime(raw) !== undefined;
+    case "date":
+      return dateParts(raw) !== undefined;
+    case "time":
+      return timeParts(raw) !== undefined;
+    case "duration":
+      return DURATION.test(raw);
+  }
+}
@@ -10,6 +10,13 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import {
+  Duration,
+  PlainDate,
+  PlainTime,
+  TemporalFormat,
+  parseDateTime,
+} from "@src/temporal";
 import type { SchemaClass } from "@src/types";
 
 /**
@@ -30,7 +37,12 @@ export interface TypedSpec<TVal, TRaw = TVal> {
     | "variant"
     | "serdes"
     | "tuple"
-    | "map";
+    | "array"
+    | "set"
+    | "map"
+    | "nullable"
+    | "optional"
+    | "lazy";
 
   /** Phantom compile-time marker preserving `TVal`. */
   readonly __v?: TVal;
@@ -44,23 +56,43 @@ export interface TypedSpec<TVal, TRaw = TVal> {
   /** For `literal` specs. */
   readonly literal?: TVal;
 
-  /** For `enum` specs. */
-  readonly enumObject?: Record<string, string | number>;
+  /** For `enum` specs – the enum object, or the members of `t.oneOf`. */
+  readonly enumObject?: Record<string, string | number | boolean>;
 
-  /** For `union` / `variant` specs. */
+  /** For `union` / `variant` specs whose members are all `Schema` classes. */
   readonly ctors?: readonly SchemaClass[];
 
+  /**
+   * For `union` specs over other descriptors – the members in declaration
+   * order, descriptors and classes mixed.
+   */
+  readonly members?: readonly UnionMember[];
+
   /**
    * For `tuple` specs – ordered list of element descriptors.
    */
   readonly specs?: readonly TypedSpec<any, any>[];
 
+  /**
+   * For `tuple` specs – descriptor of the variadic elements following
+   * `specs`, declared with `t.rest`.
+   */
+  readonly restSpec?: TypedSpec<any, any>;
+
+  /**
+   * For `array` / `set` specs – descriptor of every element.
+   */
+  readonly itemSpec?: TypedSpec<any, any>;
+
   /**
    * For `map` specs.
    */
   readonly keySpec?: TypedSpec<any, any>;
   readonly valueSpec?: TypedSpec<any, any>;
 
+  /** For `nullable` / `optional` specs – the wrapped descriptor. */
+  readonly innerSpec?: TypedSpec<any, any>;
+
   /**
    * For `variant` specs the discriminating property name used to pick the
    * constructor and surfaced in JSON-Schema output.  When omitted it defaults
@@ -70,8 +102,49 @@ export interface TypedSpec<TVal, TRaw = TVal> {
 
   /** For `serdes` specs: descriptor of the _raw_ representation. */
   readonly rawSpec?: TypedSpec<TRaw>;
+
+  /**
+   * For `serdes` specs: the value example given to `t.serdes` – a constructor
+   * such as `Date`, or an exemplar value.
+   */
+  readonly example?: unknown;
+
+  /**
+   * For the temporal descriptors (`t.date`, …): the JSON-Schema `format` the
+   * raw string must follow.
+   */
+  readonly format?: TemporalFormat;
+
+  /**
+   * For the temporal descriptors: the `[serialize, deserialize]` pair a
+   * field uses unless it declares its own `serdes` option.
+   */
+  readonly serdes?: readonly [(val: TVal) => TRaw, (raw: TRaw) => TVal];
+
+  /**
+   * For `lazy` specs – thunk returning the real descriptor (or `Schema`
+   * class).  Evaluated on first use so that a class may refer to itself.
+   */
+  readonly getter?: () => TypedSpec<any, any> | SchemaClass;
 }
 
+/** Member accepted by `t.union`. */
+export type UnionMember = TypedSpec<any, any> | SchemaClass;
+
+/** Descriptor made by `t.optional` – a tuple element that may be omitted. */
+export interface OptionalSpec<TVal, TRaw = TVal>
+  extends TypedSpec<TVal | undefined, TRaw | undefined> {
+  readonly kind: "optional";
+}
+
+/** Trailing variadic element of a `t.tuple`, made by `t.rest`. */
+export interface RestSpec<TVal, TRaw = TVal> {
+  readonly rest: TypedSpec<TVal, TRaw>;
+}
+
+/** Argument accepted by `t.tuple`. */
+export type TupleElement = TypedSpec<any, any> | RestSpec<any, any>;
+
 // -------------------------------------------------------------------------
 // Helper type utilities — extract compile-time info from any `TypedSpec`.
 // -------------------------------------------------------------------------
@@ -80,18 +153,98 @@ export type ValueOfSpec<S> = S extends TypedSpec<infer V, any> ? V : never;
 
 export type RawOfSpec<S> = S extends TypedSpec<any, infer R> ? R : never;
 
+/**
+ * Value (`Raw` false) or raw form of a `t.tuple` over `Specs` – `t.optional`
+ * elements become optional and a `t.rest` element a rest element.
+ */
+type TupleOf<
+  Specs extends readonly unknown[],
+  Raw extends boolean,
+> = Specs extends readonly [infer H, ...infer T]
+  ? H extends RestSpec<infer V, infer R>
+    ? (Raw extends true ? R : V)[]
+    : H extends OptionalSpec<any, any>
+      ? [
+          (Raw extends true ? RawOfSpec<H> : ValueOfSpec<H>)?,
+          ...TupleOf<T, Raw>,
+        ]
+      : [Raw extends true ? RawOfSpec<H> : ValueOfSpec<H>, ...TupleOf<T, Raw>]
+  : [];
+
+/** In-memory value of a `t.union` member. */
+export type ValueOfMember<M> = M extends SchemaClass
+  ? InstanceType<M>
+  : ValueOfSpec<M>;
+
+/** Raw (constructor input) form of a `t.union` member. */
+export type RawOfMember<M> = M extends SchemaClass
+  ? import("@src/types").InputOf<M>
+  : RawOfSpec<M>;
+
+/**
+ * Unwrap (possibly nested) `lazy` descriptors, returning the underlying
+ * `TypedSpec` or `Schema` class.  Non-lazy inputs are returned unchanged.
+ */
+export function resolveLazy(
+  spec: TypedSpec<any, any> | SchemaClass,
+): TypedSpec<any, any> | SchemaClass {
+  let current = spec;
+  while (typeof current === "object" && current.kind === "lazy") {
+    current = current.getter!();
+  }
+  return current;
+}
+
+/**
+ * `t.nullable` / `t.optional` around `spec`; a serdes pair of `spec` is kept,
+ * passing `null` and `undefined` through.
+ */
+function wrap(
+  kind: "nullable" | "optional",
+  spec: TypedSpec<any, any>,
+): TypedSpec<any, any> {
+  if (!spec.serdes) return { kind, innerSpec: spec };
+  const [serialize, deserialize] = spec.serdes;
+  return {
+    kind,
+    innerSpec: spec,
+    serdes: [
+      (val: unknown) => (val == null ? val : serialize(val)),
+      (raw: unknown) => (raw == null ? raw : deserialize(raw)),
+    ],
+  };
+}
+
 // -------------------------------------------------------------------------
 // `t` factory — mirrors the table in the design spec comment.
 // -------------------------------------------------------------------------
 
+const stringSpec = {
+  kind: "primitive",
+  // Use an `undefined` phantom marker to avoid enumerable runtime values.
+  __v: undefined as unknown as string,
+} as TypedSpec<string>;
+
+/** ISO 8601 string exposed as `V`, with its own default serdes pair. */
+function temporal<V>(
+  example: unknown,
+  format: TemporalFormat,
+  serialize: (val: V) => string,
+  deserialize: (raw: string) => V,
+): TypedSpec<V, string> {
+  return {
+    kind: "serdes",
+    rawSpec: stringSpec,
+    example,
+    format,
+    serdes: [serialize, deserialize],
+  } as TypedSpec<V, string>;
+}
+
 export const t = {
   /* -------------------------- primitives --------------------------- */
 
-  string: {
-    kind: "primitive",
-    // Use an `undefined` phantom marker to avoid enumerable runtime values.
-    __v: undefined as unknown as string,
-  } as TypedSpec<string>,
+  string: stringSpec,
 
   number: {
     kind: "primitive",
@@ -116,21 +269,102 @@ export const t = {
   /* ----------------------------- tuple ---------------------------- */
 
   /**
-   * Tuple descriptor – describes a fixed-length ordered list where each
-   * position has its own `TypedSpec`.
+   * Tuple descriptor – describes an ordered list where each position has
+   * its own `TypedSpec`.  Trailing `t.optional` elements may be omitted, and
+   * a final `t.rest` element takes any number of values:
+   *
+   * ```ts
+   * one(t.tuple(t.string, t.optional(t.number)))  // [string, number?]
+   * one(t.tuple(t.string, t.rest(t.number)))      // [string, ...number[]]
+   * ```
    */
-  tuple<Specs extends readonly TypedSpec<any, any>[]>(
+  tuple<Specs extends readonly TupleElement[]>(
     ...specs: Specs
-  ): TypedSpec<
-    { [I in keyof Specs]: ValueOfSpec<Specs[I]> },
-    { [I in keyof Specs]: RawOfSpec<Specs[I]> }
-  > {
+  ): TypedSpec<TupleOf<Specs, false>, TupleOf<Specs, true>> {
+    const last = specs[specs.length - 1];
+    const restSpec = last && "rest" in last ? last.rest : undefined;
+    const fixed = (restSpec ? specs.slice(0, -1) : specs) as TypedSpec<any>[];
+    fixed.forEach((s, i) => {
+      if ("rest" in s) throw new Error("t.tuple: t.rest must come last");
+      if (i && fixed[i - 1].kind === "optional" && s.kind !== "optional") {
+        throw new Error("t.tuple: a required element follows t.optional");
+      }
+    });
     return {
       kind: "tuple",
-      specs,
-    } as TypedSpec<
-      { [I in keyof Specs]: ValueOfSpec<Specs[I]> },
-      { [I in keyof Specs]: RawOfSpec<Specs[I]> }
+      specs: fixed,
+      ...(restSpec ? { restSpec } : {}),
+    } as TypedSpec<TupleOf<Specs, false>, TupleOf<Specs, true>>;
+  },
+
+  /**
+   * Variadic tail of a {@link tuple}: any number of elements matching `spec`.
+   * Only valid as the last argument of `t.tuple`.
+   */
+  rest<S extends TypedSpec<any, any>>(
+    spec: S,
+  ): RestSpec<ValueOfSpec<S>, RawOfSpec<S>> {
+    return { rest: spec };
+  },
+
+  /* ------------------------ nullable / optional -------------------- */
+
+  /**
+   * Accept `null` besides the values `spec` accepts – inside tuples, maps,
+   * collections and unions alike.  `one(t.nullable(spec))` is the same as
+   * `one(spec, { nullable: true })`.
+   */
+  nullable<S extends TypedSpec<any, any>>(
+    spec: S,
+  ): TypedSpec<ValueOfSpec<S> | null, RawOfSpec<S> | null> {
+    return wrap("nullable", spec) as TypedSpec<
+      ValueOfSpec<S> | null,
+      RawOfSpec<S> | null
+    >;
+  },
+
+  /**
+   * Accept `undefined` besides the values `spec` accepts; as a trailing
+   * tuple element the value may be left out altogether.
+   * `one(t.optional(spec))` is the same as `one(spec, { optional: true })`.
+   */
+  optional<S extends TypedSpec<any, any>>(
+    spec: S,
+  ): OptionalSpec<ValueOfSpec<S>, RawOfSpec<S>> {
+    return wrap("optional", spec) as OptionalSpec<ValueOfSpec<S>, RawOfSpec<S>>;
+  },
+
+  /* --------------------------- array / set ------------------------ */
+
+  /**
+   * Array descriptor – unlike `many()` it is itself a descriptor, so it nests
+   * inside tuples, maps and other collections:
+   *
+   * ```ts
+   * one(t.array(t.array(t.number)))               // number[][]
+   * one(t.map(t.string, t.array(t.string)))       // Record<string, string[]>
+   * many(t.tuple(t.string, t.array(t.number)))    // [string, number[]][]
+   * ```
+   */
+  array<S extends TypedSpec<any, any>>(
+    spec: S,
+  ): TypedSpec<ValueOfSpec<S>[], RawOfSpec<S>[]> {
+    return { kind: "array", itemSpec: spec } as TypedSpec<
+      ValueOfSpec<S>[],
+      RawOfSpec<S>[]
+    >;
+  },
+
+  /**
+   * Like {@link array} but exposed as a `Set`; raw input may be an array or
+   * a `Set`, and `toJSON()` emits an array.
+   */
+  set<S extends TypedSpec<any, any>>(
+    spec: S,
+  ): TypedSpec<Set<ValueOfSpec<S>>, Set<RawOfSpec<S>> | RawOfSpec<S>[]> {
+    return { kind: "set", itemSpec: spec } as TypedSpec<
+      Set<ValueOfSpec<S>>,
+      Set<RawOfSpec<S>> | RawOfSpec<S>[]
     >;
   },
 
@@ -189,20 +423,51 @@ export const t = {
     } as TypedSpec<E[keyof E]>;
   },
 
-  /* ------------------------- union / variant ----------------------- */
+  /**
+   * Literal-union helper – `t.oneOf("admin", "member")` accepts exactly the
+   * given values and infers `"admin" | "member"`, without declaring an enum
+   * object.  Members may mix strings, numbers and booleans.
+   */
+  oneOf<const L extends readonly (string | number | boolean)[]>(
+    ...values: L
+  ): TypedSpec<L[number]> {
+    const enumObject: Record<string, L[number]> = {};
+    for (const value of values) {
+      // Integer-like keys would be enumerated before the others, and `1` and
+      // `"1"` may both be members – prefix such keys to keep them in order.
+      let key = String(value);
+      if (/^\d+$/.test(key) || key in enumObject) key = `_${key}`;
+      while (key in enumObject) key = `_${typeof value}${key}`;
+      enumObject[key] = value;
+    }
+    return { kind: "enum", enumObject } as TypedSpec<L[number]>;
+  },
 
-  union<C extends readonly SchemaClass[]>(
-    ctors: C,
-  ): TypedSpec<
-    InstanceType<C[number]>,
-    import("@src/types").InputOf<C[number]>
-  > {
-    type Val = InstanceType<C[number]>;
+  /* ------------------------- union / variant ----------------------- */
 
-    return { kind: "union", ctors } as TypedSpec<
-      Val,
-      import("@src/types").InputOf<C[number]>
-    >;
+  /**
+   * Union helper – accepts a value matching any of `members`, which may mix
+   * descriptors and `Schema` classes:
+   *
+   * ```ts
+   * one(t.union([t.literal("auto"), t.number]))   // "auto" | number
+   * one(t.union([t.string, User]))                 // string | User
+   * ```
+   *
+   * Members are tried in declaration order and the first accepting the value
+   * wins.  Class members accept plain objects, the class being picked among
+   * them by discriminator or key overlap like for a union of classes only.
+   */
+  union<M extends readonly UnionMember[]>(
+    members: M,
+  ): TypedSpec<ValueOfMember<M[number]>, RawOfMember<M[number]>> {
+    type Spec = TypedSpec<ValueOfMember<M[number]>, RawOfMember<M[number]>>;
+
+    // Unions of classes keep the `ctors` form every emitter understands.
+    if (members.every((m) => typeof m === "function")) {
+      return { kind: "union", ctors: members } as Spec;
+    }
+    return { kind: "union", members } as Spec;
   },
 
   /**
@@ -230,6 +495,31 @@ export const t = {
     } as TypedSpec<Val, import("@src/types").InputOf<C[number]>>;
   },
 
+  /* ------------------------------ lazy ----------------------------- */
+
+  /**
+   * Deferred descriptor used for recursive models.  The thunk is evaluated on
+   * first use, so it may reference the class currently being defined:
+   *
+   * ```ts
+   * interface Tree { label: string; children: Tree[] }
+   *
+   * class Node extends Schema.from({
+   *   label: one(t.string),
+   *   children: many(t.lazy<Tree>((): SchemaClass => Node)),
+   * }) {}
+   * ```
+   *
+   * Because TypeScript cannot infer a type that depends on itself the value
+   * type must be supplied explicitly, and a self-referencing thunk needs an
+   * explicit return annotation.
+   */
+  lazy<V, R = V>(
+    getter: () => TypedSpec<any, any> | SchemaClass,
+  ): TypedSpec<V, R> {
+    return { kind: "lazy", getter } as TypedSpec<V, R>;
+  },
+
   /* ------------------------------ serdes --------------------------- */
 
   /**
@@ -248,6 +538,7 @@ export const t = {
     return {
       kind: "serdes",
       rawSpec,
+      example: valExample,
 
       __v: undefined as unknown as V extends new (...args: any) => infer I
         ? I
@@ -256,4 +547,179 @@ export const t = {
       __r: undefined as unknown as TRaw,
     } as TypedSpec<V extends new (...args: any) => infer I ? I : V, TRaw>;
   },
+
+  /* ----------------------------- temporal -------------------------- */
+
+  /**
+   * Instant exchanged as an RFC 3339 date-time (`2024-05-01T12:00:00Z`; the
+   * offset is required) and exposed as a `Date`.  Serialised in UTC.
+   */
+  date: temporal<Date>(
+    Date,
+    "date-time",
+    (d) => d.toISOString(),
+    (raw) => parseDateTime(raw) ?? new Date(NaN),
+  ),
+
+  /** Calendar date exchanged as `YYYY-MM-DD`, exposed as a `PlainDate`. */
+  dateOnly: temporal<PlainDate>(
+    PlainDate,
+    "date",
+    (d) => d.toString(),
+    PlainDate.parse,
+  ),
+
+  /** Wall-clock time exchanged as `HH:MM:SS[.fff]`, exposed as a `PlainTime`. */
+  time: temporal<PlainTime>(
+    PlainTime,
+    "time",
+    (d) => d.toString(),
+    PlainTime.parse,
+  ),
+
+  /** ISO 8601 duration such as `PT15M`, exposed as a `Duration`. */
+  duration: temporal<Duration>(
+    Duration,
+    "duration",
+    (d) => d.toString(),
+    Duration.parse,
+  ),
 } as const;
+
+/**
+ * Literal value `C` declares for its `prop` field, if that field is a
+ * `t.literal` – how `t.variant` branches are told apart.
+ */
+export function discriminatorLiteral(C: SchemaClass, prop: string): unknown {
+  const field = ((C as any)._schema as Record<string, any>)[prop];
+  const litSpec = field?.spec as TypedSpec<any> | undefined;
+  return litSpec?.kind === "literal" ? litSpec.literal : undefined;
+}
+
+/** Members of a `union` / `variant` spec, in declaration order. */
+export function unionMembers(spec: TypedSpec<any>): readonly UnionMember[] {
+  return spec.members ?? spec.ctors ?? [];
+}
+
+/** Number of leading tuple elements that are not `t.optional`. */
+export function requiredLength(specs: readonly TypedSpec<any>[]): number {
+  const firstOptional = specs.findIndex((s) => s.kind === "optional");
+  return firstOptional === -1 ? specs.length : firstOptional;
+}
+
+/**
+ * Whether in-memory `value` has the shape `spec` describes – how a value is
+ * told to belong to one `t.union` member rather than another.  Constraints
+ * are not run; serdes descriptors match instances of their value example.
+ */
+export function conformsTo(spec: UnionMember, value: unknown): boolean {
+  const target = resolveLazy(spec);
+  if (typeof target === "function") return value instanceof target;
+  switch (target.kind) {
+    case "primitive":
+      if (target === t.number) return typeof value === "number";
+      if (target === t.boolean) return typeof value === "boolean";
+      if (target === t.bigint) return typeof value === "bigint";
+      return typeof value === "string";
+    case "literal":
+      return value === target.literal;
+    case "enum":
+      return Object.values(target.enumObject ?? {}).includes(value as never);
+    case "serdes": {
+      const example = target.example;
+      if (typeof example === "function") {
+        // Without a deserializer of its own the raw form is kept.
+        return (
+          value instanceof example ||
+          (!target.serdes && conformsTo(target.rawSpec!, value))
+        );
+      }
+      return typeof value === typeof example;
+    }
+    case "tuple": {
+      const specs = target.specs ?? [];
+      return (
+        Array.isArray(value) &&
+        value.length >= requiredLength(specs) &&
+        (target.restSpec !== undefined || value.length <= specs.length) &&
+        value.every((item, i) =>
+          conformsTo(i < specs.length ? specs[i] : target.restSpec!, item),
+        )
+      );
+    }
+    case "nullable":
+      return value === null || conformsTo(target.innerSpec!, value);
+    case "optional":
+      return value === undefined || conformsTo(target.innerSpec!, value);
+    case "array":
+    case "set": {
+      const items =
+        target.kind === "set" && value instanceof Set
+          ? Array.from(value)
+          : target.kind === "array" && Array.isArray(value)
+            ? value
+            : undefined;
+      return (
+        items?.every((item) => conformsTo(target.itemSpec!, item)) ?? false
+      );
+    }
+    case "map": {
+      if (value instanceof Map) {
+        return Array.from(value).every(
+          ([k, v]) =>
+            conformsTo(target.keySpec!, k) && conformsTo(target.valueSpec!, v),
+        );
+      }
+      return (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.getPrototypeOf(value) === Object.prototype &&
+        Object.values(value).every((v) => conformsTo(target.valueSpec!, v))
+      );
+    }
+    case "union":
+    case "variant":
+      return unionMembers(target).some((m) => conformsTo(m, value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Map key as declared by `keySpec`, recovered from its string form – how
+ * formats with string-only keys round-trip `t.map(t.number, …)` and friends.
+ */
+export function mapKeyFromString(
+  keySpec: TypedSpec<any>,
+  key: unknown,
+): unknown {
+  if (typeof key !== "string") return key;
+  if (keySpec === t.number) return Number(key);
+  if (keySpec === t.bigint && /^[-+]?\d+$/.test(key)) return BigInt(key);
+  const candidates =
+    keySpec.kind === "enum"
+      ? Object.values(keySpec.enumObject ?? {})
+      : keySpec.kind === "literal"
+        ? [keySpec.literal]
+        : [];
+  return candidates.find((c) => String(c) === key) ?? key;
+}
+
+/**
+ * Build a decoded map value: a plain object when every key `keySpec` admits
+ * is a string, a `Map` otherwise (so numeric / bigint keys keep their type).
+ */
+export function mapFromEntries(
+  keySpec: TypedSpec<any>,
+  entries: [unknown, unknown][],
+): Record<string, unknown> | Map<unknown, unknown> {
+  const stringKeyed =
+    keySpec === t.string ||
+    (keySpec.kind === "literal" && typeof keySpec.literal === "string") ||
+    (keySpec.kind === "enum" &&
+      Object.values(keySpec.enumObject ?? {}).every(
+        (v) => typeof v === "string",
+      ));
+  return stringKeyed ? Object.fromEntries(entries) : new Map(entries);
+}
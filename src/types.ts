@@ -23,28 +23,25 @@ export type ScalarTypeable =
   | SchemaInstance;
 
 /**
- * Tuple (ordered, fixed-index) value composed entirely of *scalar* Typeable
- * members.  Variadic tuples such as `[T, ...T[]]` are also covered because the
- * repeated tail `T[]` portion still satisfies the scalar-array restriction.
+ * Tuple (ordered, fixed-index) value composed of Typeable members – scalars
+ * or nested collections.  Variadic tuples such as `[T, ...T[]]` (`t.rest`)
+ * and tuples with optional elements (`t.optional`) are also covered.
  *
  * The empty tuple (`[]`) is intentionally allowed – while perhaps not useful in
  * practice it keeps the definition mathematically complete and prevents
  * surprises when generic tuples collapse to `never[]` or `[]` in edge-cases.
  */
-export type TupleTypeable =
-  | readonly []
-  | readonly [ScalarTypeable, ...ScalarTypeable[]];
+export type TupleTypeable = readonly [] | readonly [Typeable, ...Typeable[]];
 
 /**
  * Permitted runtime value for a field. Either a:
  *   - single scalar (primitive or `SchemaInstance`)
- *   - a *flat* array
- *   - a *flat* tuple
+ *   - an array or tuple of Typeables, nesting arbitrarily
  *   - a record or map where keys and values are Typeable
  */
 export type Typeable =
   | ScalarTypeable
-  | ScalarTypeable[]
+  | Typeable[]
   | TupleTypeable
   | { [key: string]: Typeable }
   | Map<unknown, Typeable>
@@ -71,11 +68,108 @@ export type OutputOf<S> = S extends new (...args: any[]) => infer O ? O : never;
  */
 export type InputOf<S> = S extends new (input: infer I) => any ? I : never;
 
+/**
+ * Introspectable description of a constraint, attached by the built-in
+ * helpers (see `withMeta`).  Lets emitters such as `jsonSchema()` translate the
+ * check instead of dropping it.
+ */
+export interface ConstraintMeta {
+  /** Helper name, e.g. `"minLength"`. */
+  name: string;
+
+  /** Arguments the helper was created with, e.g. `{ min: 3 }`. */
+  params?: Record<string, unknown>;
+
+  /** Equivalent JSON-Schema keywords, e.g. `{ minLength: 3 }`. */
+  jsonSchema?: Record<string, unknown>;
+}
+
 /**
  * A constraint over a Typeable value indicating that it must adhere to the given
  * function's properties.
  */
-export type LogicalConstraint<T extends Typeable> = (val: T) => true | string;
+export type LogicalConstraint<T extends Typeable> = ((
+  val: T,
+) => true | string) & { meta?: ConstraintMeta };
+
+/**
+ * Asynchronous counterpart of {@link LogicalConstraint} – for checks that need
+ * I/O (e.g. "username not taken").  Only evaluated by `validateAsync()` /
+ * `fromJSONAsync()`; the synchronous `validate()` reports an issue instead.
+ */
+export type AsyncLogicalConstraint<T extends Typeable> = ((
+  val: T,
+) => Promise<true | string>) & { meta?: ConstraintMeta };
+
+/**
+ * Either kind of constraint accepted by a field's `is:` option.
+ */
+export type Constraint<T extends Typeable> =
+  | LogicalConstraint<T>
+  | AsyncLogicalConstraint<T>;
+
+/**
+ * Location of a value relative to the schema instance being validated.
+ * String segments are property names (or map keys), numeric segments are
+ * array / tuple indices.
+ */
+export type IssuePath = (string | number)[];
+
+/**
+ * Machine-readable category of a {@link ValidationIssue}.
+ *
+ *  - `required`        – a non-optional field is missing
+ *  - `invalid_type`    – the value has the wrong runtime type
+ *  - `invalid_literal` – the value differs from a `t.literal`
+ *  - `invalid_enum`    – the value is not a member of a `t.enum`
+ *  - `invalid_length`  – a tuple has the wrong number of elements
+ *  - `invalid_key`     – a map key failed its key descriptor
+ *  - `invalid_format`  – a raw string does not follow its descriptor's
+ *                        format (e.g. the ISO 8601 date-time of `t.date`)
+ *  - `invalid_union`   – the value matches no union member, or no union /
+ *                        variant branch could be constructed
+ *  - `unrecognized_key` – an undeclared key was supplied to a strict schema
+ *  - `constraint`      – a user-supplied `is:` constraint failed
+ *  - `refinement`      – a schema-level refinement failed
+ *  - `async_constraint` – an async constraint was met by synchronous
+ *                        `validate()`
+ */
+export type IssueCode =
+  | "required"
+  | "invalid_type"
+  | "invalid_literal"
+  | "invalid_enum"
+  | "invalid_length"
+  | "invalid_key"
+  | "invalid_format"
+  | "invalid_union"
+  | "unrecognized_key"
+  | "constraint"
+  | "refinement"
+  | "async_constraint";
+
+/**
+ * A single validation failure produced by `Schema.validateIssues()`.
+ */
+export interface ValidationIssue {
+  /** Path from the validated instance to the offending value. */
+  path: IssuePath;
+
+  /** Category of the failure. */
+  code: IssueCode;
+
+  /** Human-readable description (without the path prefix). */
+  message: string;
+
+  /** What the descriptor expected, when meaningful (e.g. `"number"`). */
+  expected?: string;
+
+  /** Runtime description of what was received (e.g. `"string"`). */
+  received?: string;
+
+  /** Parameters of the failing constraint, when it exposes any. */
+  params?: Record<string, unknown>;
+}
 
 /**
  * Discriminated union carrying either a valid value (`val`) or an error container
@@ -86,19 +180,102 @@ export type Result<V, E> =
   | { val: undefined; errs: E };
 
 /**
- * Error-aggregation helper. Produces the same keys as the validated input
- * (methods are ignored) and exposes a `summarize()` method that returns all
- * collected error strings.
+ * One node of an {@link ErrLog}.  `_errors` holds every message reported for
+ * the value at this position; the remaining keys mirror the value's structure
+ * (nested schema fields, array / tuple indices, map keys) and are present
+ * only when something below them failed.
  */
-export type ErrLog<T> = {
-  // Exclude function properties
-  [K in keyof T as T[K] extends (...args: never[]) => unknown
+export type ErrNode<T> = { _errors: string[] } & ErrChildren<NonNullable<T>>;
+
+type ErrChildren<T> = T extends (...args: never[]) => unknown
+  ? unknown
+  : T extends readonly unknown[]
+    ? { [index: number]: ErrNode<T[number]> | undefined }
+    : T extends Set<infer E>
+      ? { [index: number]: ErrNode<E> | undefined }
+      : T extends Map<unknown, infer E>
+        ? { [key: string]: ErrNode<E> | undefined }
+        : T extends SchemaInstance
+          ? ErrFields<T>
+          : T extends { [key: string]: infer E }
+            ? { [key: string]: ErrNode<E> | undefined }
+            : unknown;
+
+type ErrFields<T> = {
+  // Exclude function properties and the instance brand
+  [K in keyof T as K extends "__isSchemaInstance"
     ? never
-    : K]?: string;
-} & {
+    : T[K] extends (...args: never[]) => unknown
+      ? never
+      : K]?: ErrNode<T[K]>;
+};
+
+/**
+ * Error-aggregation helper. Mirrors the validated input (methods are ignored)
+ * as a tree of {@link ErrNode}s – `errs.user?.email?._errors` – and exposes a
+ * `summarize()` method that returns all collected errors as flat
+ * `"<path>: <message>"` strings.
+ */
+export type ErrLog<T> = ErrFields<T> & {
+  /** Messages not attributable to a single field. */
+  _errors: string[];
   summarize(): string[];
 };
 
+/**
+ * Options accepted by `Schema.fromJSON`.
+ */
+export interface ParseOptions {
+  /**
+   * Convert string-typed input (query strings, form posts, CSV) to the
+   * declared types before validating: numeric strings to numbers, `"true"` /
+   * `"false"` to booleans, digit strings to bigints, numeric strings to
+   * numeric enum members, and single values to one-element arrays for
+   * `many()` fields.  Applied recursively through nested schemas, tuples and
+   * maps.
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Dialect `Schema.jsonSchema()` writes:
+ *
+ * - `"draft-07"` – JSON Schema Draft-07 (`definitions`, array-form tuples).
+ * - `"2020-12"` – JSON Schema 2020-12 (`$defs`, `prefixItems`).
+ * - `"openapi-3.0"` – OpenAPI 3.0 Schema Object (`nullable`, no `const`).
+ * - `"openapi-3.1"` – OpenAPI 3.1, i.e. 2020-12 plus `discriminator.mapping`.
+ */
+export type JsonSchemaTarget =
+  | "draft-07"
+  | "2020-12"
+  | "openapi-3.0"
+  | "openapi-3.1";
+
+/**
+ * Options accepted by `Schema.jsonSchema()`.
+ */
+export interface JsonSchemaOptions {
+  /**
+   * Output dialect.  When set, JSON-Schema targets also get a `$schema`
+   * marker; when omitted the output is Draft-07 without one.
+   */
+  target?: JsonSchemaTarget;
+
+  /**
+   * Hoist every nested `Schema` class into a named definition and point at it
+   * with `$ref` instead of inlining it at each use.  Definitions are keyed by
+   * the class's `id` option, falling back to its class name.  Recursive
+   * references are always emitted as `$ref`, with or without this flag.
+   */
+  refs?: boolean;
+
+  /**
+   * Key the definitions are emitted under; defaults to `"$defs"` for the
+   * 2020-12 based targets and `"definitions"` otherwise.
+   */
+  definitionsKey?: "definitions" | "$defs";
+}
+
 /**
  * Convenience alias representing the same shape returned by `Schema.fromJSON`.
  * On success `val` is provided, on failure `errs` is populated.
@@ -195,9 +372,9 @@ export interface FieldType<T extends Typeable, R = T> {
   /**
    * Optional validator(s). When an array is provided, every constraint is run
    * in order until the first failure (the returned string) or until all pass
-   * (returns `true`).
+   * (returns `true`).  Async constraints are awaited in sequence.
    */
-  is?: LogicalConstraint<NonNullable<T>> | LogicalConstraint<NonNullable<T>>[];
+  is?: Constraint<NonNullable<T>> | Constraint<NonNullable<T>>[];
 
   /**
    * Optional nested Schema class (singular). When present this field is
@@ -227,8 +404,95 @@ export interface FieldType<T extends Typeable, R = T> {
 export type SchemaClass = {
   new (input: any): SchemaInstance;
   _schema: Fields;
+  _options?: SchemaOptions<any>;
 };
 
+/**
+ * How the constructor treats input keys that are not declared in `_schema`:
+ *
+ *  - `strip`       – drop them silently (default)
+ *  - `strict`      – drop them and report each one from `validate()`
+ *  - `passthrough` – keep them and emit them again from `toJSON()`
+ */
+export type UnknownKeysPolicy = "strict" | "strip" | "passthrough";
+
+/**
+ * Issue returned by a {@link Refinement} to blame a specific field (or any
+ * deeper path) instead of the instance as a whole.
+ */
+export interface RefinementIssue {
+  path: IssuePath;
+  message: string;
+}
+
+/**
+ * Object-level (cross-field) check receiving the whole typed instance.
+ * Returns `true` on success, a message for an instance-level failure, or one
+ * or more {@link RefinementIssue}s attached to specific paths.
+ */
+export type Refinement<T> = (
+  instance: T,
+) => true | string | RefinementIssue | RefinementIssue[];
+
+/**
+ * Literal value a {@link RequirementCondition} compares sibling fields to.
+ */
+export type RequirementValue = string | number | boolean | null;
+
+/**
+ * Condition of a field's `requiredWhen` rule: every listed sibling field must
+ * equal the given value (or one of the given values) for the rule to apply.
+ *
+ *   shippingAddress: one(Address, {
+ *     optional: true,
+ *     requiredWhen: { delivery: "ship" },
+ *   }),
+ */
+export type RequirementCondition = Record<
+  string,
+  RequirementValue | readonly RequirementValue[]
+>;
+
+/**
+ * Per-class options accepted by `Schema.from(fields, options)`.
+ *
+ * @typeParam T Instance type the refinements receive.
+ */
+export interface SchemaOptions<T = any> {
+  /** Policy for undeclared input keys; defaults to `"strip"`. */
+  unknownKeys?: UnknownKeysPolicy;
+
+  /**
+   * Cross-field checks run by `validate()` / `fromJSON` once every field
+   * passed its own checks.  This is all-or-nothing: any issue on the
+   * instance – even on a field no refinement reads, or from an async
+   * constraint under `validateAsync()` – skips them all.
+   * Refinements declared by a base class also run for its subclasses (base
+   * first).
+   */
+  refine?: Refinement<T> | Refinement<T>[];
+
+  /**
+   * JSON-Schema style `dependentRequired`: whenever the key field is present
+   * every field listed for it becomes required.
+   *
+   *   { dependentRequired: { creditCard: ["billingAddress"] } }
+   */
+  dependentRequired?: Record<string, readonly string[]>;
+
+  /**
+   * Stable identifier for the class, used as its definition name when
+   * `jsonSchema({ refs: true })` hoists it.  Defaults to the class name.
+   */
+  id?: string;
+
+  /**
+   * Avro namespace of the class's record, overriding the one passed to
+   * `avroSchema()`.
+   */
+  namespace?: string;
+}
+
 export type Nested<S extends SchemaClass> = InputOf<S> | InstanceType<S>;
 
 export type Fields = Record<string, FieldType<any>>;
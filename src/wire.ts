@@ -0,0 +1,131 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Building blocks shared by the binary codecs: a growable writer and a
+ * bounds-checked reader with unsigned LEB128 varints and IEEE-754 doubles,
+ * plus the accessor they (and the SQL row mapper) use to read serialised
+ * field values.
+ * Format-specific framing lives in the codec modules.
+ */
+
+export const utf8Encoder = new TextEncoder();
+export const utf8Decoder = new TextDecoder();
+
+export class ByteWriter {
+  private readonly out: number[] = [];
+
+  byte(b: number): void {
+    this.out.push(b);
+  }
+
+  raw(bytes: Uint8Array): void {
+    for (const b of bytes) this.out.push(b);
+  }
+
+  /** Unsigned varint of a non-negative safe integer. */
+  varint(n: number): void {
+    while (n > 0x7f) {
+      this.out.push(n % 0x80 | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.out.push(n);
+  }
+
+  /** Unsigned varint of the 64-bit two's complement of `v`. */
+  bigVarint(v: bigint): void {
+    let u = BigInt.asUintN(64, v);
+    while (u > 0x7fn) {
+      this.out.push(Number(u & 0x7fn) | 0x80);
+      u >>= 7n;
+    }
+    this.out.push(Number(u));
+  }
+
+  float64(n: number, littleEndian = true): void {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, n, littleEndian);
+    for (let i = 0; i < 8; i += 1) this.out.push(view.getUint8(i));
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.out);
+  }
+}
+
+export class ByteReader {
+  private pos = 0;
+
+  /** @param format Prefix of the errors thrown on malformed input. */
+  constructor(
+    private readonly buf: Uint8Array,
+    protected readonly format: string,
+  ) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  /** Claim the next `n` bytes, returning their offset. */
+  private advance(n: number): number {
+    const start = this.pos;
+    if (n < 0 || start + n > this.buf.length) {
+      throw new Error(`${this.format}: unexpected end of input`);
+    }
+    this.pos += n;
+    return start;
+  }
+
+  byte(): number {
+    return this.buf[this.advance(1)];
+  }
+
+  raw(n: number): Uint8Array {
+    const start = this.advance(n);
+    return this.buf.subarray(start, start + n);
+  }
+
+  varint(): number {
+    let result = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      const b = this.byte();
+      result += (b & 0x7f) * scale;
+      if (b < 0x80) return result;
+      if (scale > 2 ** 56) throw new Error(`${this.format}: malformed varint`);
+    }
+  }
+
+  /** Unsigned 64-bit varint. */
+  bigVarint(): bigint {
+    let result = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const b = this.byte();
+      result |= BigInt(b & 0x7f) << shift;
+      if (b < 0x80) return BigInt.asUintN(64, result);
+      if (shift > 63n) throw new Error(`${this.format}: malformed varint`);
+    }
+  }
+
+  float64(littleEndian = true): number {
+    const start = this.advance(8);
+    return new DataView(
+      this.buf.buffer,
+      this.buf.byteOffset + start,
+      8,
+    ).getFloat64(0, littleEndian);
+  }
+}
+
+/**
+ * Value of field `key` on `obj` in its raw (serialised) form.  Instances hold
+ * deserialised values, so the field's serializer is applied – per element
+ * for collections, as `toJSON()` does; plain objects are already raw.
+ */
+export function serializedField(obj: any, key: string, def: any): unknown {
+  const value = obj?.[key];
+  const serdes = def?.serdes as [(v: unknown) => unknown] | undefined;
+  if (!serdes || value == null || !obj.__isSchemaInstance) return value;
+  const [serialize] = serdes;
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value instanceof Set) return Array.from(value).map(serialize);
+  return serialize(value);
+}
@@ -0,0 +1,161 @@
+/**
+ * `avroSchema()` and the Avro binary codec (`toAvro` / `fromAvro`).
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, many, avroSchema, typing as t } from "@rybosome/type-a";
+
+const iso: [(d: Date) => string, (s: string) => Date] = [
+  (d) => d.toISOString(),
+  (s) => new Date(s),
+];
+
+class Click extends Schema.from({
+  kind: one(t.literal("click")),
+  x: one(t.number),
+}) {}
+
+class Scroll extends Schema.from(
+  {
+    kind: one(t.literal("scroll")),
+    delta: one(t.bigint),
+  },
+  { namespace: "com.acme.ui" },
+) {}
+
+const Channel = { Web: "web", Mobile: "mobile-app" } as const;
+
+class Event extends Schema.from({
+  at: one(t.serdes(Date, t.string), { serdes: iso, described: "When" }),
+  channel: one(t.enum(Channel)),
+  actions: many(t.variant([Click, Scroll])),
+  tags: many(t.string, { asSet: true }),
+  counts: one(t.map(t.string, t.bigint)),
+  origin: one(t.tuple(t.number, t.number), { nullable: true }),
+  session: one(t.string, { optional: true }),
+  retries: one(t.number, { default: 3 }),
+}) {}
+
+describe("avroSchema()", () => {
+  it("builds a record with nested named types", () => {
+    expect(avroSchema(Event, { namespace: "com.acme" })).toEqual({
+      type: "record",
+      name: "Event",
+      namespace: "com.acme",
+      fields: [
+        {
+          name: "at",
+          doc: "When",
+          type: { type: "long", logicalType: "timestamp-millis" },
+        },
+        {
+          name: "channel",
+          type: {
+            type: "enum",
+            name: "EventChannel",
+            symbols: ["Web", "Mobile"],
+          },
+        },
+        {
+          name: "actions",
+          type: {
+            type: "array",
+            items: [
+              {
+                type: "record",
+                name: "Click",
+                fields: [
+                  { name: "kind", type: "string" },
+                  { name: "x", type: "double" },
+                ],
+              },
+              {
+                type: "record",
+                name: "Scroll",
+                namespace: "com.acme.ui",
+                fields: [
+                  { name: "kind", type: "string" },
+                  { name: "delta", type: "long" },
+                ],
+              },
+            ],
+          },
+        },
+        { name: "tags", type: { type: "array", items: "string" } },
+        { name: "counts", type: { type: "map", values: "long" } },
+        {
+          name: "origin",
+          type: [
+            "null",
+            {
+              type: "record",
+              name: "EventOrigin",
+              fields: [
+                { name: "item_0", type: "double" },
+                { name: "item_1", type: "double" },
+              ],
+            },
+          ],
+        },
+        { name: "session", type: ["null", "string"], default: null },
+        { name: "retries", type: "double", default: 3 },
+      ],
+    });
+  });
+
+  it("refers to records it already declared by name", () => {
+    class Point extends Schema.from({ x: one(t.number) }) {}
+    class Line extends Schema.from({ from: one(Point), to: one(Point) }) {}
+    expect(avroSchema(Line).fields).toEqual([
+      {
+        name: "from",
+        type: {
+          type: "record",
+          name: "Point",
+          fields: [{ name: "x", type: "double" }],
+        },
+      },
+      { name: "to", type: "Point" },
+    ]);
+  });
+});
+
+describe("Avro binary codec", () => {
+  it("uses zig-zag longs and length-prefixed strings", () => {
+    class Row extends Schema.from({
+      n: one(t.bigint),
+      s: one(t.string),
+    }) {}
+    expect(Array.from(new Row({ n: -2n, s: "foo" }).toAvro())).toEqual([
+      0x03, 0x06, 0x66, 0x6f, 0x6f,
+    ]);
+  });
+
+  it("round-trips instances", () => {
+    const event = Event.fromJSON({
+      at: "2024-05-01T12:00:00.000Z",
+      channel: "mobile-app",
+      actions: [
+        { kind: "scroll", delta: -5n },
+        { kind: "click", x: 0.5 },
+      ],
+      tags: new Set(["a"]),
+      counts: { views: 9007199254740993n },
+      origin: null,
+    }).val!;
+
+    const { val, errs } = Event.fromAvro(event.toAvro());
+    expect(errs).toBeUndefined();
+    expect(val!.toJSON()).toEqual(event.toJSON());
+    expect(val!.at).toBeInstanceOf(Date);
+    expect(val!.actions[0]).toBeInstanceOf(Scroll);
+    expect(val!.origin).toBeNull();
+    expect(val!.session).toBeUndefined();
+  });
+
+  it("throws on truncated input", () => {
+    expect(() => Event.fromAvro(Uint8Array.of(0x80))).toThrow(
+      "avro: unexpected end of input",
+    );
+  });
+});
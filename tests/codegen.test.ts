@@ -0,0 +1,176 @@
+/**
+ * `generateTypeScript()` – Schema class source generated from JSON Schema /
+ * OpenAPI documents.
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { generateTypeScript } from "@rybosome/type-a";
+
+const openapi = {
+  openapi: "3.1.0",
+  info: { title: "Shop", version: "1.0.0" },
+  paths: {},
+  components: {
+    schemas: {
+      "line-item": {
+        type: "object",
+        properties: {
+          sku: { type: "string", pattern: "^[A-Z]+$" },
+          qty: { type: "integer", minimum: 1 },
+        },
+        required: ["sku", "qty"],
+      },
+      Order: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid", description: "Order id" },
+          lines: {
+            type: "array",
+            items: { $ref: "#/components/schemas/line-item" },
+          },
+          status: { enum: ["open", "closed"], default: "open" },
+          parent: { $ref: "#/components/schemas/Order" },
+        },
+        required: ["id", "lines"],
+        additionalProperties: false,
+      },
+    },
+  },
+};
+
+describe("generateTypeScript", () => {
+  it("prints classes in dependency order", () => {
+    const { code, unsupported } = generateTypeScript(openapi);
+    expect(unsupported).toEqual([]);
+    expect(code).toBe(
+      [
+        "// Generated by type-a-codegen.",
+        "",
+        'import { Schema, one, many, constraints as c, typing as t } from "@rybosome/type-a";',
+        'import type { SchemaClass } from "@rybosome/type-a";',
+        "",
+        "export class LineItem extends Schema.from({",
+        "  sku: one(t.string, { is: c.matching(/^[A-Z]+$/u) }),",
+        "  qty: one(t.number, { is: [c.isInteger, c.atLeast(1)] }),",
+        "}) {}",
+        "",
+        "export interface OrderData {",
+        "  id: string;",
+        "  lines: InstanceType<typeof LineItem>[];",
+        '  status?: "open" | "closed";',
+        "  parent?: OrderData;",
+        "}",
+        "",
+        "export class Order extends Schema.from(",
+        "  {",
+        '    id: one(t.string, { described: "Order id", is: c.aUUID }),',
+        "    lines: many(LineItem),",
+        '    status: one(t.enum({ open: "open", closed: "closed" }), { optional: true, default: "open" }),',
+        "    parent: one(t.lazy<OrderData>((): SchemaClass => Order), { optional: true }),",
+        "  },",
+        '  { unknownKeys: "strict" },',
+        ") {}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("breaks reference cycles with typed lazy thunks", () => {
+    const { code } = generateTypeScript({
+      $defs: {
+        Customer: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            orders: { type: "array", items: { $ref: "#/$defs/Order" } },
+          },
+          required: ["name", "orders"],
+        },
+        Order: {
+          type: "object",
+          properties: {
+            buyer: { $ref: "#/$defs/Customer" },
+            total: { type: ["number", "null"] },
+          },
+          required: ["buyer", "total"],
+        },
+      },
+    });
+    expect(code).toBe(
+      [
+        "// Generated by type-a-codegen.",
+        "",
+        'import { Schema, one, many, typing as t } from "@rybosome/type-a";',
+        'import type { SchemaClass } from "@rybosome/type-a";',
+        "",
+        "export interface OrderData {",
+        "  buyer: CustomerData;",
+        "  total: number | null;",
+        "}",
+        "",
+        "export class Order extends Schema.from({",
+        "  buyer: one(t.lazy<CustomerData>((): SchemaClass => Customer)),",
+        "  total: one(t.number, { nullable: true }),",
+        "}) {}",
+        "",
+        "export interface CustomerData {",
+        "  name: string;",
+        "  orders: OrderData[];",
+        "}",
+        "",
+        "export class Customer extends Schema.from({",
+        "  name: one(t.string),",
+        "  orders: many(Order),",
+        "}) {}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("names the root of a plain JSON Schema and lists unsupported keywords", () => {
+    const { code, unsupported } = generateTypeScript(
+      {
+        type: "object",
+        properties: { iban: { type: "string", format: "iban" } },
+      },
+      { rootName: "Account" },
+    );
+    expect(unsupported).toHaveLength(1);
+    expect(code).toContain(
+      '//   #/properties/iban: format "iban" is not enforced',
+    );
+    expect(code).toContain("export class Account extends Schema.from({");
+    expect(code).not.toContain("many");
+  });
+
+  it("emits a module that runs", async () => {
+    // The `@src` alias resolves from the temporary module too.
+    const { code } = generateTypeScript(openapi, { importFrom: "@src/index" });
+    const dir = mkdtempSync(join(tmpdir(), "type-a-"));
+    const file = join(dir, "models.ts");
+    writeFileSync(file, code);
+    const { Order } = await import(
+      /* @vite-ignore */ pathToFileURL(file).href
+    ).finally(() => rmSync(dir, { recursive: true, force: true }));
+
+    const ok = Order.fromJSON({
+      id: "550e8400-e29b-41d4-a716-446655440000",
+      lines: [{ sku: "ABC", qty: 2 }],
+      parent: { id: "550e8400-e29b-41d4-a716-446655440000", lines: [] },
+    });
+    expect(ok.errs).toBeUndefined();
+    expect(ok.val.lines[0].qty).toBe(2);
+
+    const bad = Order.fromJSON({ id: "x", lines: [{ sku: "abc", qty: 0 }] });
+    expect(bad.errs.summarize()).toEqual([
+      "id: Invalid UUID",
+      "lines[0].sku: must match /^[A-Z]+$/u",
+      "lines[0].qty: 0 is not atLeast(1)",
+    ]);
+  });
+});
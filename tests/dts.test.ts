@@ -0,0 +1,140 @@
+/**
+ * `emitDeclarations()` – standalone `.d.ts` text for Schema classes.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  emitDeclarations,
+  typing as t,
+} from "@rybosome/type-a";
+import type { SchemaClass } from "@rybosome/type-a";
+
+class Cat extends Schema.from({
+  kind: one(t.literal("cat")),
+  lives: one(t.number),
+}) {}
+
+class Dog extends Schema.from({
+  kind: one(t.literal("dog")),
+  born: one(t.serdes(Date, t.string), {
+    serdes: [(d: Date) => d.toISOString(), (s: string) => new Date(s)],
+  }),
+}) {}
+
+const Size = { S: "small", L: "large" } as const;
+
+class Owner extends Schema.from({
+  name: one(t.string, { described: "Full name" }),
+  id: one(t.bigint),
+  pet: one(t.variant([Cat, Dog])),
+  friends: many(Dog, { optional: true }),
+  home: one(t.tuple(t.number, t.number)),
+  scores: one(t.map(t.string, t.number)),
+  tags: many(t.string, { asSet: true }),
+  size: one(t.enum(Size), { default: "small" }),
+  nickname: one(t.string, { nullable: true }),
+}) {}
+
+describe("emitDeclarations", () => {
+  it("prints output and input interfaces with named field types", () => {
+    expect(emitDeclarations(Owner)).toBe(
+      [
+        "export interface Owner {",
+        "  /** Full name */",
+        "  name: string;",
+        "  id: string;",
+        "  pet: OwnerPet;",
+        "  friends?: Dog[];",
+        "  home: OwnerHome;",
+        "  scores: OwnerScores;",
+        "  tags: OwnerTags;",
+        "  size: OwnerSize;",
+        "  nickname: string | null;",
+        "}",
+        "",
+        "export interface OwnerInput {",
+        "  /** Full name */",
+        "  name: string;",
+        "  id: bigint;",
+        "  pet: OwnerPetInput;",
+        "  friends?: DogInput[];",
+        "  home: OwnerHome;",
+        "  scores: OwnerScoresInput;",
+        "  tags: OwnerTagsInput;",
+        "  size?: OwnerSize;",
+        "  nickname: string | null;",
+        "}",
+        "",
+        "export type OwnerPet = Cat | Dog;",
+        "",
+        "export type OwnerPetInput = CatInput | DogInput;",
+        "",
+        "export type OwnerHome = [number, number];",
+        "",
+        "export type OwnerScores = Record<string, number>;",
+        "",
+        "export type OwnerScoresInput = Record<string, number> | Map<string, number>;",
+        "",
+        "export type OwnerTags = string[];",
+        "",
+        "export type OwnerTagsInput = Set<string>;",
+        "",
+        'export type OwnerSize = "small" | "large";',
+        "",
+        "export interface Cat {",
+        '  kind: "cat";',
+        "  lives: number;",
+        "}",
+        "",
+        "export interface CatInput {",
+        '  kind: "cat";',
+        "  lives: number;",
+        "}",
+        "",
+        "export interface Dog {",
+        '  kind: "dog";',
+        "  born: string;",
+        "}",
+        "",
+        "export interface DogInput {",
+        '  kind: "dog";',
+        "  born: string;",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("handles recursion and custom suffixes", () => {
+    interface Tree {
+      label: string;
+      children: Tree[];
+    }
+    class Node extends Schema.from({
+      label: one(t.string),
+      children: many(t.lazy<Tree>((): SchemaClass => Node)),
+    }) {}
+
+    const dts = emitDeclarations([Node], { inputSuffix: "Raw" });
+    expect(dts).toContain(
+      "export interface Node {\n  label: string;\n  children: Node[];\n}",
+    );
+    expect(dts).toContain(
+      "export interface NodeRaw {\n  label: string;\n  children: NodeRaw[];\n}",
+    );
+  });
+
+  it("accepts arrays for set descriptors on input", () => {
+    class Team extends Schema.from({
+      members: one(t.set(t.union([t.string, t.number]))),
+    }) {}
+    const dts = emitDeclarations(Team);
+    expect(dts).toContain("export type TeamMembers = (string | number)[];");
+    expect(dts).toContain(
+      "export type TeamMembersInput = Set<string | number> | (string | number)[];",
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * `graphqlSchema()` – SDL `type` / `input` definitions for Schema classes.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  graphqlSchema,
+  typing as t,
+} from "@rybosome/type-a";
+import type { SchemaClass } from "@rybosome/type-a";
+
+class Card extends Schema.from({
+  kind: one(t.literal("card")),
+  last4: one(t.string),
+}) {}
+
+class Wire extends Schema.from({
+  kind: one(t.literal("wire")),
+  iban: one(t.string),
+}) {}
+
+const Status = { Open: "OPEN", Paid: "PAID" } as const;
+
+class Invoice extends Schema.from({
+  number: one(t.string, { described: "Human-readable number" }),
+  total: one(t.bigint),
+  issuedAt: one(t.serdes(Date, t.string), {
+    serdes: [(d: Date) => d.toISOString(), (s: string) => new Date(s)],
+  }),
+  status: one(t.enum(Status), { default: "OPEN" }),
+  payment: one(t.variant([Card, Wire]), { optional: true }),
+  lines: many(t.tuple(t.string, t.number)),
+  meta: one(t.map(t.string, t.string)),
+  note: one(t.string, { nullable: true }),
+}) {}
+
+describe("graphqlSchema()", () => {
+  it("prints output types, inputs, enums, unions and scalars", () => {
+    expect(graphqlSchema(Invoice)).toBe(
+      [
+        "scalar BigInt",
+        "",
+        "scalar DateTime",
+        "",
+        "type Invoice {",
+        '  "Human-readable number"',
+        "  number: String!",
+        "  total: BigInt!",
+        "  issuedAt: DateTime!",
+        "  status: InvoiceStatus!",
+        "  payment: InvoicePayment",
+        "  lines: [InvoiceLines!]!",
+        "  meta: [InvoiceMetaEntry!]!",
+        "  note: String",
+        "}",
+        "",
+        "input InvoiceInput {",
+        '  "Human-readable number"',
+        "  number: String!",
+        "  total: BigInt!",
+        "  issuedAt: DateTime!",
+        "  status: InvoiceStatus = OPEN",
+        "  payment: InvoicePaymentInput",
+        "  lines: [InvoiceLinesInput!]!",
+        "  meta: [InvoiceMetaEntryInput!]!",
+        "  note: String",
+        "}",
+        "",
+        "enum InvoiceStatus {",
+        "  OPEN",
+        "  PAID",
+        "}",
+        "",
+        "union InvoicePayment = Card | Wire",
+        "",
+        '"Exactly one field must be set."',
+        "input InvoicePaymentInput {",
+        "  card: CardInput",
+        "  wire: WireInput",
+        "}",
+        "",
+        "type InvoiceLines {",
+        "  item_0: String!",
+        "  item_1: Float!",
+        "}",
+        "",
+        "input InvoiceLinesInput {",
+        "  item_0: String!",
+        "  item_1: Float!",
+        "}",
+        "",
+        "type InvoiceMetaEntry {",
+        "  key: String!",
+        "  value: String!",
+        "}",
+        "",
+        "input InvoiceMetaEntryInput {",
+        "  key: String!",
+        "  value: String!",
+        "}",
+        "",
+        "type Card {",
+        "  kind: String!",
+        "  last4: String!",
+        "}",
+        "",
+        "input CardInput {",
+        "  kind: String!",
+        "  last4: String!",
+        "}",
+        "",
+        "type Wire {",
+        "  kind: String!",
+        "  iban: String!",
+        "}",
+        "",
+        "input WireInput {",
+        "  kind: String!",
+        "  iban: String!",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("falls back to enum keys when values are not GraphQL names", () => {
+    const Level = { Low: 1, High: 2 } as const;
+    class Alert extends Schema.from({ level: one(t.enum(Level)) }) {}
+    expect(graphqlSchema(Alert)).toContain(
+      "enum AlertLevel {\n  Low\n  High\n}",
+    );
+  });
+
+  it("supports a custom input suffix and recursion", () => {
+    interface Tree {
+      children: Tree[];
+    }
+    class Node extends Schema.from({
+      children: many(t.lazy<Tree>((): SchemaClass => Node)),
+    }) {}
+    expect(graphqlSchema(Node, { inputSuffix: "Args" })).toBe(
+      "type Node {\n  children: [Node!]!\n}\n\ninput NodeArgs {\n  children: [NodeArgs!]!\n}\n",
+    );
+  });
+
+  it("rejects classes without fields", () => {
+    class Empty extends Schema.from({}) {}
+    class Holder extends Schema.from({ empty: one(Empty) }) {}
+    expect(() => graphqlSchema(Holder)).toThrow("graphql: Empty has no fields");
+  });
+
+  it("leaves out defaults without a GraphQL literal", () => {
+    class Range extends Schema.from({
+      max: one(t.number, { default: Infinity }),
+      min: one(t.number, { default: 0 }),
+    }) {}
+    expect(graphqlSchema(Range)).toContain(
+      "input RangeInput {\n  max: Float!\n  min: Float = 0\n}",
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Structured validation issues – `Schema.validateIssues()`.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  typing as t,
+  formatPath,
+} from "@rybosome/type-a";
+
+class Address extends Schema.from({
+  zip: one(t.string, { is: c.length(5) }),
+}) {}
+
+class Cat extends Schema.from({
+  kind: one(t.literal("cat")),
+  lives: one(t.number),
+}) {}
+
+class Dog extends Schema.from({
+  kind: one(t.literal("dog")),
+  good: one(t.boolean),
+}) {}
+
+class Profile extends Schema.from({
+  name: one(t.string),
+  tags: many(t.string),
+  address: one(Address),
+  point: one(t.tuple(t.number, t.number)),
+  scores: one(t.map(t.string, t.number)),
+  pets: many(t.variant([Cat, Dog])),
+}) {}
+
+const valid = {
+  name: "Ada",
+  tags: ["a"],
+  address: { zip: "12345" },
+  point: [1, 2] as [number, number],
+  scores: { math: 1 },
+  pets: [{ kind: "cat" as const, lives: 9 }],
+};
+
+describe("Schema.validateIssues", () => {
+  it("returns an empty list for valid instances", () => {
+    expect(new Profile(valid).validateIssues()).toEqual([]);
+  });
+
+  it("reports structured issues with full paths", () => {
+    const p = new Profile({
+      ...valid,
+      tags: ["a", "b", 3 as unknown as string],
+      address: { zip: "1" },
+      point: [1, "2" as unknown as number],
+      scores: { math: "A" as unknown as number },
+      pets: [
+        { kind: "cat", lives: 9 },
+        { kind: "dog", good: "yes" as unknown as boolean },
+      ],
+    });
+
+    expect(p.validateIssues()).toEqual([
+      {
+        path: ["tags", 2],
+        code: "invalid_type",
+        message: "expected string",
+        expected: "string",
+        received: "number",
+      },
+      {
+        path: ["address", "zip"],
+        code: "constraint",
+        message: "length 1 must be exactly 5",
+        params: { n: 5 },
+      },
+      {
+        path: ["point", 1],
+        code: "invalid_type",
+        message: "expected number",
+        expected: "number",
+        received: "string",
+      },
+      {
+        path: ["scores", "math"],
+        code: "invalid_type",
+        message: "expected number",
+        expected: "number",
+        received: "string",
+      },
+      {
+        path: ["pets", 1, "good"],
+        code: "invalid_type",
+        message: "expected boolean",
+        expected: "boolean",
+        received: "string",
+      },
+    ]);
+  });
+
+  it("reports missing fields with the `required` code", () => {
+    const p = new Profile({ ...valid, name: undefined as unknown as string });
+    expect(p.validateIssues()).toEqual([
+      { path: ["name"], code: "required", message: "is required" },
+    ]);
+  });
+
+  it("keeps validate() as a string adapter", () => {
+    const p = new Profile({
+      ...valid,
+      tags: ["a", 1 as unknown as string],
+      address: { zip: "1" },
+    });
+    expect(p.validate()).toEqual([
+      "tags[1]: expected string",
+      "address.zip: length 1 must be exactly 5",
+    ]);
+  });
+
+  it("builds errs for keys that shadow Object.prototype or _errors", () => {
+    const { errs } = Profile.fromJSON({
+      ...valid,
+      scores: JSON.parse(
+        '{"constructor":"a","toString":"b","__proto__":"c","_errors":"d"}',
+      ),
+    });
+    const scores = errs?.scores as unknown as Record<string, unknown>;
+    expect(Object.keys(scores)).toEqual([
+      "_errors",
+      "constructor",
+      "toString",
+      "__proto__",
+    ]);
+    expect(errs?.scores?._errors).toEqual(["_errors: expected number"]);
+    expect(errs?.summarize()).toEqual([
+      "scores.constructor: expected number",
+      "scores.toString: expected number",
+      "scores.__proto__: expected number",
+      "scores._errors: expected number",
+    ]);
+  });
+
+  it("formats paths like property accessors", () => {
+    expect(formatPath(["pets", 1, "good"])).toBe("pets[1].good");
+    expect(formatPath([])).toBe("");
+  });
+});
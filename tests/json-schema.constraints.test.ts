@@ -0,0 +1,124 @@
+/**
+ * Constraint metadata – JSON-Schema keywords emitted for `is:` helpers and
+ * `params` carried on constraint issues.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, constraints as c, typing as t } from "@rybosome/type-a";
+import type { LogicalConstraint } from "@rybosome/type-a";
+
+describe("constraint metadata", () => {
+  it("exposes name and params on built-in helpers", () => {
+    expect(c.minLength(3).meta).toEqual({
+      name: "minLength",
+      params: { min: 3 },
+      jsonSchema: { minLength: 3 },
+    });
+    expect(c.email.meta?.jsonSchema).toEqual({ format: "email" });
+  });
+
+  it("checks multipleOf with fractional divisors", () => {
+    expect(c.multipleOf(0.01)(0.07)).toBe(true);
+    expect(c.multipleOf(0.01)(19.99)).toBe(true);
+    expect(c.multipleOf(0.1)(0.3)).toBe(true);
+    expect(c.multipleOf(0.5)(-2.5)).toBe(true);
+    expect(c.multipleOf(1e-7)(3e-7)).toBe(true);
+    expect(c.multipleOf(0.01)(0.075)).toBe("0.075 is not a multipleOf(0.01)");
+    expect(c.multipleOf(0.1)(0.35)).toBe("0.35 is not a multipleOf(0.1)");
+  });
+
+  it("lets custom constraints opt in via withMeta", () => {
+    const even = c.withMeta(
+      { name: "even", jsonSchema: { multipleOf: 2 } },
+      (n: number) => (n % 2 === 0 ? true : "must be even"),
+    );
+    expect(even(3)).toBe("must be even");
+    expect(even.meta?.name).toBe("even");
+  });
+});
+
+describe("jsonSchema() constraint keywords", () => {
+  class Account extends Schema.from({
+    handle: one(t.string, { is: [c.minLength(3), c.maxLength(20), c.slug] }),
+    email: one(t.string, { is: c.email }),
+    age: one(t.number, { is: [c.isInteger, c.atLeast(0)] }),
+    score: one(t.number, { is: c.between(0, 1, false) }),
+    step: one(t.number, { is: c.multipleOf(5) }),
+  }) {}
+
+  const props = Account.jsonSchema().properties as Record<string, any>;
+
+  it("emits string keywords", () => {
+    expect(props.handle).toEqual({
+      type: "string",
+      minLength: 3,
+      maxLength: 20,
+      pattern: "^[a-z0-9]+(?:-[a-z0-9]+)*$",
+    });
+    expect(props.email).toEqual({ type: "string", format: "email" });
+  });
+
+  it("emits numeric keywords and narrows to integer", () => {
+    expect(props.age).toEqual({ type: "integer", minimum: 0 });
+    expect(props.score).toEqual({
+      type: "number",
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 1,
+    });
+    expect(props.step).toEqual({ type: "number", multipleOf: 5 });
+  });
+
+  it("keeps the stricter bound and allOf's conflicting keywords", () => {
+    class Code extends Schema.from({
+      value: one(t.string, {
+        is: [
+          c.minLength(2),
+          c.minLength(4),
+          c.startingWith("x."),
+          c.endingWith("!"),
+        ],
+      }),
+    }) {}
+    expect((Code.jsonSchema().properties as any).value).toEqual({
+      type: "string",
+      minLength: 4,
+      pattern: "^x\\.",
+      allOf: [{ pattern: "!$" }],
+    });
+  });
+
+  it("ignores custom constraints without metadata", () => {
+    const shouting: LogicalConstraint<string> = (s) =>
+      s.endsWith("!") ? true : "must shout";
+    class Msg extends Schema.from({
+      text: one(t.string, { is: [shouting, c.maxLength(10)] }),
+    }) {}
+    expect((Msg.jsonSchema().properties as any).text).toEqual({
+      type: "string",
+      maxLength: 10,
+    });
+    expect(Msg.fromJSON({ text: "hi" }).errs?.summarize()).toEqual([
+      "text: must shout",
+    ]);
+  });
+});
+
+describe("constraint issue params", () => {
+  class Pin extends Schema.from({
+    code: one(t.string, { is: c.length(4) }),
+    note: one(t.string, { is: (s: string) => (s ? true : "required note") }),
+  }) {}
+
+  it("copies params from the failing constraint", () => {
+    const issues = new Pin({ code: "12", note: "" }).validateIssues();
+    expect(issues).toEqual([
+      {
+        path: ["code"],
+        code: "constraint",
+        message: "length 2 must be exactly 4",
+        params: { n: 4 },
+      },
+      { path: ["note"], code: "constraint", message: "required note" },
+    ]);
+  });
+});
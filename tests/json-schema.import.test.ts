@@ -0,0 +1,284 @@
+/**
+ * `fromJsonSchema()` – runtime classes generated from JSON Schema documents.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  fromJsonSchema,
+  typing as t,
+} from "@rybosome/type-a";
+
+const partner = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Shipment",
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    weight: { type: "number", exclusiveMinimum: 0 },
+    pieces: { type: "integer", minimum: 1, maximum: 99 },
+    status: { enum: ["pending", "sent"] },
+    carrier: { const: "acme" },
+    tags: { type: "array", items: { type: "string", minLength: 2 } },
+    origin: {
+      type: "array",
+      prefixItems: [{ type: "number" }, { type: "number" }],
+    },
+    meta: { type: "object", additionalProperties: { type: "string" } },
+    note: { type: ["string", "null"] },
+    to: { $ref: "#/$defs/Address" },
+    stops: { type: "array", items: { $ref: "#/$defs/Address" } },
+    payment: {
+      oneOf: [{ $ref: "#/$defs/Card" }, { $ref: "#/$defs/Invoice" }],
+      discriminator: { propertyName: "method" },
+    },
+  },
+  required: ["id", "weight", "status", "to", "payment"],
+  additionalProperties: false,
+  $defs: {
+    Address: {
+      type: "object",
+      properties: { city: { type: "string", pattern: "^[A-Z]" } },
+      required: ["city"],
+    },
+    Card: {
+      type: "object",
+      properties: { method: { const: "card" }, last4: { type: "string" } },
+      required: ["method", "last4"],
+    },
+    Invoice: {
+      type: "object",
+      properties: { method: { const: "invoice" }, po: { type: "string" } },
+      required: ["method", "po"],
+    },
+  },
+};
+
+const valid = {
+  id: "550e8400-e29b-41d4-a716-446655440000",
+  weight: 2.5,
+  pieces: 3,
+  status: "sent",
+  carrier: "acme",
+  tags: ["fragile"],
+  origin: [1, 2],
+  meta: { ref: "x" },
+  note: null,
+  to: { city: "Oslo" },
+  stops: [{ city: "Bergen" }],
+  payment: { method: "invoice", po: "PO-1" },
+};
+
+describe("fromJsonSchema", () => {
+  const { schema: Shipment, unsupported } = fromJsonSchema(partner);
+
+  it("imports every keyword without a report", () => {
+    expect(unsupported).toEqual([]);
+    expect(Shipment.name).toBe("Shipment");
+  });
+
+  it("accepts valid input and rebuilds nested classes", () => {
+    const res = Shipment.fromJSON(valid) as any;
+    expect(res.errs?.summarize()).toBeUndefined();
+    expect(res.val.to.city).toBe("Oslo");
+    expect(res.val.payment.po).toBe("PO-1");
+    expect(res.val.payment.constructor.name).toBe("Invoice");
+  });
+
+  it("enforces types, constraints and required fields", () => {
+    const res = Shipment.fromJSON({
+      ...valid,
+      id: "nope",
+      weight: 0,
+      pieces: 1.5,
+      status: "lost",
+      tags: ["x"],
+      to: { city: "oslo" },
+      extra: true,
+    });
+    expect(res.errs?.summarize()).toEqual([
+      "extra: is not a declared field",
+      "id: Invalid UUID",
+      "weight: 0 is not greaterThan(0)",
+      "pieces: 1.5 is not an integer",
+      "status: expected one of pending, sent",
+      "tags[0]: length 1 is not atLeast(2)",
+      "to.city: must match /^[A-Z]/u",
+    ]);
+
+    const missing = Shipment.fromJSON({ id: valid.id });
+    expect(missing.errs?.summarize()).toEqual(
+      expect.arrayContaining(["weight: is required", "payment: is required"]),
+    );
+  });
+
+  it("round-trips through jsonSchema()", () => {
+    class Item extends Schema.from({
+      name: one(t.string, { is: c.maxLength(10) }),
+      qty: one(t.number, { is: [c.isInteger, c.atLeast(1)] }),
+      labels: many(t.string, { optional: true }),
+    }) {}
+
+    const { schema: Copy, unsupported: report } = fromJsonSchema(
+      Item.jsonSchema(),
+      { name: "Item" },
+    );
+    expect(report).toEqual([]);
+    expect(Copy.jsonSchema()).toEqual(Item.jsonSchema());
+  });
+
+  it("supports recursive references", () => {
+    const { schema: Tree } = fromJsonSchema({
+      type: "object",
+      properties: {
+        label: { type: "string" },
+        children: { type: "array", items: { $ref: "#" } },
+      },
+      required: ["label", "children"],
+    });
+    const res = Tree.fromJSON({
+      label: "root",
+      children: [{ label: "leaf", children: [{ label: 1, children: [] }] }],
+    });
+    expect(res.errs?.summarize()).toEqual([
+      "children[0].children[0].label: expected string",
+    ]);
+  });
+
+  it("reads draft-07 property dependencies", () => {
+    const { schema: Order, unsupported: report } = fromJsonSchema({
+      type: "object",
+      properties: {
+        card: { type: "string" },
+        billing: { type: "string" },
+      },
+      dependencies: {
+        card: ["billing"],
+        billing: { required: ["card"] },
+      },
+    });
+    expect(report).toEqual([
+      {
+        path: "#",
+        keyword: "dependencies",
+        message: 'schema dependency for "billing" is not supported',
+      },
+    ]);
+    expect(Order.fromJSON({ card: "4242" }).errs?.summarize()).toEqual([
+      "billing: is required when card is present",
+    ]);
+  });
+
+  it("reports what it cannot enforce", () => {
+    const { schema, unsupported: report } = fromJsonSchema({
+      type: "object",
+      properties: {
+        code: { type: "string", format: "iban" },
+        list: { type: "array", items: { type: "number" }, minItems: 1 },
+        either: { anyOf: [{ type: "string" }, { type: "number" }] },
+        odd: { type: "string", not: { const: "x" } },
+        code2: { type: "string", pattern: "(?i)^[a-z]+$", minLength: 2 },
+      },
+    });
+    expect(report).toEqual([
+      {
+        path: "#/properties/code",
+        keyword: "format",
+        message: 'format "iban" is not enforced',
+      },
+      {
+        path: "#/properties/list",
+        keyword: "minItems",
+        message: 'array keyword "minItems" is not enforced',
+      },
+      {
+        path: "#/properties/either",
+        keyword: "anyOf",
+        message: "anyOf is only supported over object schemas",
+      },
+      {
+        path: "#/properties/either",
+        keyword: "properties",
+        message: 'property "either" was dropped',
+      },
+      {
+        path: "#/properties/odd",
+        keyword: "not",
+        message: 'keyword "not" is not supported',
+      },
+      {
+        path: "#/properties/code2",
+        keyword: "pattern",
+        message: 'pattern "(?i)^[a-z]+$" is not valid',
+      },
+    ]);
+    expect(Object.keys((schema as any)._schema)).toEqual([
+      "code",
+      "list",
+      "odd",
+      "code2",
+    ]);
+    expect(schema.fromJSON({ code2: "x" }).errs?.summarize()).toEqual([
+      "code2: length 1 is not atLeast(2)",
+    ]);
+  });
+
+  it("enforces formats exactly, or reports them", () => {
+    const { schema, unsupported: report } = fromJsonSchema({
+      type: "object",
+      properties: {
+        v4: { type: "string", format: "ipv4" },
+        v6: { type: "string", format: "ipv6" },
+        day: { type: "string", format: "date" },
+        link: { type: "string", format: "uri" },
+      },
+    });
+    expect(report).toEqual([
+      {
+        path: "#/properties/link",
+        keyword: "format",
+        message: 'format "uri" is not enforced',
+      },
+    ]);
+    const valid = { v4: "10.0.0.1", v6: "::1", day: "2024-02-29" };
+    expect(schema.fromJSON(valid).errs).toBeUndefined();
+    expect(
+      schema
+        .fromJSON({ v4: "::1", v6: "10.0.0.1", day: "2024-02-29T00:00:00Z" })
+        .errs?.summarize(),
+    ).toEqual([
+      "v4: must be a valid ipv4",
+      "v6: must be a valid ipv6",
+      "day: must be a valid date",
+    ]);
+    expect((schema.jsonSchema() as any).properties.v6).toEqual({
+      type: "string",
+      format: "ipv6",
+    });
+  });
+
+  it("reports uniqueItems once", () => {
+    const { unsupported: report } = fromJsonSchema({
+      type: "object",
+      properties: {
+        tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+      },
+    });
+    expect(report).toEqual([
+      {
+        path: "#/properties/tags",
+        keyword: "uniqueItems",
+        message: 'array keyword "uniqueItems" is not enforced',
+      },
+    ]);
+  });
+
+  it("rejects a non-object root", () => {
+    expect(() => fromJsonSchema({ type: "string" })).toThrow(
+      "root must be an object schema",
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * `jsonSchema({ target })` – Draft-07, 2020-12 and OpenAPI 3.0 / 3.1 dialects.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, constraints as c, typing as t } from "@rybosome/type-a";
+import type { SchemaClass } from "@rybosome/type-a";
+
+class Cat extends Schema.from({
+  kind: one(t.literal("cat")),
+  lives: one(t.number, { is: c.between(0, 9, false) }),
+}) {}
+
+class Dog extends Schema.from({
+  kind: one(t.literal("dog")),
+  good: one(t.boolean),
+}) {}
+
+class Pet extends Schema.from({
+  animal: one(t.variant([Cat, Dog])),
+  position: one(t.tuple(t.number, t.number)),
+  nickname: one(t.string, { nullable: true }),
+  owner: one(Dog, { nullable: true }),
+  scores: one(t.map(t.string, t.number)),
+}) {}
+
+interface Node {
+  name: string;
+  parent?: Node;
+}
+
+class Category extends Schema.from({
+  name: one(t.string),
+  parent: one(
+    t.lazy<Node>((): SchemaClass => Category),
+    { optional: true },
+  ),
+}) {}
+
+describe("jsonSchema – target draft-07", () => {
+  it("adds the $schema marker only when asked", () => {
+    expect(Pet.jsonSchema({ target: "draft-07" })).toHaveProperty(
+      "$schema",
+      "http://json-schema.org/draft-07/schema#",
+    );
+    expect(Pet.jsonSchema()).not.toHaveProperty("$schema");
+  });
+
+  it("keeps array-form tuples", () => {
+    expect(Pet.jsonSchema({ target: "draft-07" })).toHaveProperty(
+      "properties.position",
+      {
+        type: "array",
+        items: [{ type: "number" }, { type: "number" }],
+        minItems: 2,
+        maxItems: 2,
+      },
+    );
+  });
+});
+
+describe("jsonSchema – target 2020-12", () => {
+  const js = Pet.jsonSchema({ target: "2020-12", refs: true });
+
+  it("uses prefixItems for tuples", () => {
+    expect(js.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(js).toHaveProperty("properties.position", {
+      type: "array",
+      prefixItems: [{ type: "number" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  it("hoists definitions into $defs", () => {
+    expect(js).toHaveProperty("properties.animal.oneOf", [
+      { $ref: "#/$defs/Cat" },
+      { $ref: "#/$defs/Dog" },
+    ]);
+    expect(Object.keys(js.$defs as object)).toEqual(["Cat", "Dog"]);
+    expect(js).not.toHaveProperty("definitions");
+  });
+});
+
+describe("jsonSchema – target openapi-3.0", () => {
+  const js = Pet.jsonSchema({ target: "openapi-3.0" });
+  const defs = js.definitions as Record<string, any>;
+
+  it("omits $schema and uses nullable instead of null types", () => {
+    expect(js).not.toHaveProperty("$schema");
+    expect(js).toHaveProperty("properties.nickname", {
+      type: "string",
+      nullable: true,
+    });
+    expect(js).toHaveProperty("properties.owner.nullable", true);
+    expect(js).toHaveProperty("properties.owner.type", "object");
+  });
+
+  it("emits discriminator.mapping over referenced branches", () => {
+    expect(js).toHaveProperty("properties.animal", {
+      oneOf: [{ $ref: "#/definitions/Cat" }, { $ref: "#/definitions/Dog" }],
+      discriminator: {
+        propertyName: "kind",
+        mapping: { cat: "#/definitions/Cat", dog: "#/definitions/Dog" },
+      },
+    });
+  });
+
+  it("rewrites const and exclusive bounds", () => {
+    expect(defs.Cat.properties).toEqual({
+      kind: { type: "string", enum: ["cat"] },
+      lives: {
+        type: "number",
+        minimum: 0,
+        exclusiveMinimum: true,
+        maximum: 9,
+        exclusiveMaximum: true,
+      },
+    });
+  });
+
+  it("collapses tuples and drops propertyNames", () => {
+    expect(js).toHaveProperty("properties.position", {
+      type: "array",
+      items: { type: "number" },
+      minItems: 2,
+      maxItems: 2,
+    });
+    expect(js).toHaveProperty("properties.scores", {
+      type: "object",
+      additionalProperties: { type: "number" },
+    });
+  });
+
+  const nullOnly = { type: "object", nullable: true, enum: [null] };
+
+  it("adds a null branch to nullable references and unions", () => {
+    const refs = Pet.jsonSchema({ target: "openapi-3.0", refs: true });
+    expect(refs).toHaveProperty("properties.owner", {
+      anyOf: [{ $ref: "#/definitions/Dog" }, nullOnly],
+    });
+
+    class Reading extends Schema.from({
+      pet: one(t.union([Cat, Dog]), { nullable: true }),
+      animal: one(t.variant([Cat, Dog]), { nullable: true }),
+    }) {}
+    const props = Reading.jsonSchema({ target: "openapi-3.0" })
+      .properties as Record<string, any>;
+    expect(props.pet.oneOf).toHaveLength(3);
+    expect(props.pet.oneOf[2]).toEqual(nullOnly);
+    expect(props.animal.anyOf[1]).toEqual(nullOnly);
+    expect(props.animal.anyOf[0].discriminator.propertyName).toBe("kind");
+  });
+
+  it("hoists a self-referencing root instead of pointing at #", () => {
+    for (const target of ["openapi-3.0", "openapi-3.1"] as const) {
+      const js = Category.jsonSchema({ target });
+      const key = target === "openapi-3.0" ? "definitions" : "$defs";
+      expect(js).toHaveProperty("properties.parent", {
+        $ref: `#/${key}/Category`,
+      });
+      expect(js).toHaveProperty(`${key}.Category.properties.parent`, {
+        $ref: `#/${key}/Category`,
+      });
+    }
+    expect(Category.jsonSchema()).toHaveProperty("properties.parent", {
+      $ref: "#",
+    });
+  });
+});
+
+describe("jsonSchema – target openapi-3.1", () => {
+  const js = Pet.jsonSchema({ target: "openapi-3.1" });
+
+  it("follows 2020-12 with discriminator mapping", () => {
+    expect(js).not.toHaveProperty("$schema");
+    expect(js).toHaveProperty("properties.nickname.type", ["string", "null"]);
+    expect(js).toHaveProperty("properties.position.prefixItems");
+    expect(js).toHaveProperty("properties.animal.discriminator.mapping", {
+      cat: "#/$defs/Cat",
+      dog: "#/$defs/Dog",
+    });
+  });
+});
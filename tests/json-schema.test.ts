@@ -211,6 +211,96 @@ describe("jsonSchema – default values remove property from required", () => {
   });
 });
 
+/* ------------------------------------------------------------------------- */
+/* 7. Shared definitions via $ref                                             */
+/* ------------------------------------------------------------------------- */
+
+describe("jsonSchema – $ref reuse with { refs: true }", () => {
+  class User extends Schema.from({
+    name: one(t.string),
+  }) {}
+
+  class Product extends Schema.from(
+    {
+      sku: one(t.string),
+    },
+    { id: "catalog.Product" },
+  ) {}
+
+  class Order extends Schema.from({
+    buyer: one(User),
+    seller: one(User),
+    items: many(Product),
+  }) {}
+
+  const user = {
+    type: "object",
+    properties: { name: { type: "string" } },
+    required: ["name"],
+  } as const;
+
+  const product = {
+    type: "object",
+    properties: { sku: { type: "string" } },
+    required: ["sku"],
+  } as const;
+
+  it("hoists each class once and points at it", () => {
+    expect(clone(Order.jsonSchema({ refs: true }))).toStrictEqual({
+      type: "object",
+      properties: {
+        buyer: { $ref: "#/definitions/User" },
+        seller: { $ref: "#/definitions/User" },
+        items: {
+          type: "array",
+          items: { $ref: "#/definitions/catalog.Product" },
+        },
+      },
+      required: ["buyer", "seller", "items"],
+      definitions: { User: user, "catalog.Product": product },
+    });
+  });
+
+  it("can emit under $defs", () => {
+    const js = Order.jsonSchema({ refs: true, definitionsKey: "$defs" });
+    expect(js).toHaveProperty("properties.buyer.$ref", "#/$defs/User");
+    expect(js.$defs).toStrictEqual({
+      User: user,
+      "catalog.Product": product,
+    });
+    expect(js).not.toHaveProperty("definitions");
+  });
+
+  it("still inlines by default", () => {
+    expect(Order.jsonSchema()).toHaveProperty("properties.buyer", user);
+    expect(Order.jsonSchema()).not.toHaveProperty("definitions");
+  });
+
+  it("references union branches", () => {
+    class Holder extends Schema.from({
+      who: one(t.union([User, Product])),
+    }) {}
+    expect(Holder.jsonSchema({ refs: true })).toHaveProperty(
+      "properties.who.oneOf",
+      [
+        { $ref: "#/definitions/User" },
+        { $ref: "#/definitions/catalog.Product" },
+      ],
+    );
+  });
+
+  it("disambiguates classes sharing a name", () => {
+    const make = () => class Item extends Schema.from({ id: one(t.number) }) {};
+    const A = make();
+    const B = make();
+    class Pair extends Schema.from({ a: one(A), b: one(B) }) {}
+
+    const js = Pair.jsonSchema({ refs: true });
+    expect(js).toHaveProperty("properties.a.$ref", "#/definitions/Item");
+    expect(js).toHaveProperty("properties.b.$ref", "#/definitions/Item2");
+  });
+});
+
 /* ------------------------------------------------------------------------- */
 /* Skipped scenarios – edge-cases not yet fully supported                      */
 /* ------------------------------------------------------------------------- */
@@ -236,12 +326,6 @@ it.skip("jsonSchema – anyOf / allOf combinations (not implemented)", () => {
   // `allOf` keys in addition to the supported `oneOf`.
 });
 
-it.skip("jsonSchema – $ref reuse and recursive types (pending)", () => {
-  // Expected: repeated nested Schema classes should be factored out into a
-  // single definition and referenced via `$ref`. Recursive definitions should
-  // self-reference to avoid infinite expansion.
-});
-
 it.skip("jsonSchema – patternProperties support (not implemented)", () => {
   // Expected: `t.map()` with a constrained key should surface
   // `patternProperties` in addition to (or instead of) `propertyNames`.
@@ -0,0 +1,108 @@
+/**
+ * Recursive schemas via `t.lazy`.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, many, typing as t } from "@rybosome/type-a";
+import type { SchemaClass } from "@rybosome/type-a";
+
+interface Tree {
+  label: string;
+  children: Tree[];
+}
+
+class Node extends Schema.from({
+  label: one(t.string),
+  children: many(t.lazy<Tree>((): SchemaClass => Node)),
+}) {}
+
+interface Thread {
+  body: string;
+  parent?: Thread;
+}
+
+class Comment extends Schema.from({
+  body: one(t.string),
+  parent: one(
+    t.lazy<Thread>((): SchemaClass => Comment),
+    { optional: true },
+  ),
+}) {}
+
+class Folder extends Schema.from({
+  root: one(t.lazy<Tree>(() => Node)),
+}) {}
+
+describe("t.lazy – recursive schemas", () => {
+  it("instantiates nested instances of the class being defined", () => {
+    const tree = new Node({
+      label: "root",
+      children: [{ label: "a", children: [{ label: "a.1", children: [] }] }],
+    });
+
+    expect(tree.children[0]).toBeInstanceOf(Node);
+    expect(tree.children[0].children[0]).toBeInstanceOf(Node);
+    expect(tree.children[0].children[0].label).toBe("a.1");
+
+    const reply = new Comment({ body: "re", parent: { body: "op" } });
+    expect(reply.parent).toBeInstanceOf(Comment);
+  });
+
+  it("validates recursively with full paths", () => {
+    const tree = new Node({
+      label: "root",
+      children: [
+        {
+          label: "a",
+          children: [{ label: 1 as unknown as string, children: [] }],
+        },
+      ],
+    });
+
+    expect(tree.validate()).toEqual([
+      "children[0].children[0].label: expected string",
+    ]);
+  });
+
+  it("round-trips through toJSON()", () => {
+    const raw = {
+      label: "root",
+      children: [{ label: "a", children: [] }],
+    };
+    expect(new Node(raw).toJSON()).toEqual(raw);
+  });
+
+  it("emits $ref instead of recursing forever", () => {
+    expect(Node.jsonSchema()).toStrictEqual({
+      type: "object",
+      properties: {
+        label: { type: "string" },
+        children: { type: "array", items: { $ref: "#" } },
+      },
+      required: ["label", "children"],
+    });
+  });
+
+  it("hoists non-root targets into definitions", () => {
+    expect(Folder.jsonSchema()).toStrictEqual({
+      type: "object",
+      properties: {
+        root: { $ref: "#/definitions/Node" },
+      },
+      required: ["root"],
+      definitions: {
+        Node: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            children: {
+              type: "array",
+              items: { $ref: "#/definitions/Node" },
+            },
+          },
+          required: ["label", "children"],
+        },
+      },
+    });
+  });
+});
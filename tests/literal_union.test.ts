@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { Schema, one, many, typed as t } from "@rybosome/type-a";
+
+/* ------------------------------------------------------------------------- */
+/* Literal unions (`t.oneOf`)                                                */
+/* ------------------------------------------------------------------------- */
+
+class Member extends Schema.from({
+  roles: many(t.oneOf("admin", "member"), { asSet: true }),
+  limit: one(t.oneOf("none", 10, 100, false)),
+}) {}
+
+describe("Literal-union descriptor", () => {
+  it("accepts the listed literals", () => {
+    const m = new Member({ roles: new Set(["admin"]), limit: false });
+    expect(m.validate()).toEqual([]);
+
+    const role: "admin" | "member" = Array.from(m.roles)[0];
+    expect(role).toBe("admin");
+  });
+
+  it("rejects anything else", () => {
+    const m = new Member({
+      roles: new Set(["owner" as "admin"]),
+      limit: "10" as unknown as 10,
+    });
+    expect(m.validate()).toEqual([
+      "roles[0]: expected one of admin, member",
+      "limit: expected one of none, 10, 100, false",
+    ]);
+  });
+
+  it("coerces string input to number and boolean members", () => {
+    const { val } = Member.fromJSON(
+      { roles: ["member"], limit: "100" },
+      { coerce: true },
+    );
+    expect(val!.limit).toBe(100);
+    expect(
+      Member.fromJSON({ roles: [], limit: "false" }, { coerce: true }).val!
+        .limit,
+    ).toBe(false);
+  });
+
+  it("keeps members whose string forms collide", () => {
+    class Code extends Schema.from({ code: one(t.oneOf(1, "1")) }) {}
+    expect(new Code({ code: "1" }).validate()).toEqual([]);
+    expect(new Code({ code: 1 }).validate()).toEqual([]);
+  });
+
+  it("emits enum with the member types in JSON Schema", () => {
+    const props = Member.jsonSchema().properties as Record<string, any>;
+    expect(props.roles.items).toEqual({
+      type: "string",
+      enum: ["admin", "member"],
+    });
+    expect(props.limit).toEqual({
+      type: ["string", "number", "boolean"],
+      enum: ["none", 10, 100, false],
+    });
+    expect(
+      (Member.jsonSchema({ target: "openapi-3.0" }).properties as any).limit,
+    ).toEqual({ enum: ["none", 10, 100, false] });
+  });
+
+  /* ---------------------------------------------------------------------- */
+  /*  Compile-time expectations (non-executed arrow functions)               */
+  /* ---------------------------------------------------------------------- */
+
+  // @ts-expect-error – "owner" is not a listed role
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Member({ roles: new Set(["owner"]), limit: 10 });
+
+  // @ts-expect-error – 20 is not a listed limit
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Member({ roles: new Set(), limit: 20 });
+});
@@ -0,0 +1,132 @@
+/**
+ * MessagePack codec (`toMsgpack` / `fromMsgpack`).
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
+
+const iso: [(d: Date) => string, (s: string) => Date] = [
+  (d) => d.toISOString(),
+  (s) => new Date(s),
+];
+
+const hex: [(b: Uint8Array) => string, (s: string) => Uint8Array] = [
+  (b) => Array.from(b, (x) => x.toString(16).padStart(2, "0")).join(""),
+  (s) => Uint8Array.from(s.match(/../g) ?? [], (h) => parseInt(h, 16)),
+];
+
+class Click extends Schema.from({
+  kind: one(t.literal("click")),
+  x: one(t.number),
+}) {}
+
+class Scroll extends Schema.from({
+  kind: one(t.literal("scroll")),
+  delta: one(t.bigint),
+}) {}
+
+class Job extends Schema.from({
+  id: one(t.bigint),
+  payload: one(t.serdes(Uint8Array, t.string), { serdes: hex }),
+  queuedAt: one(t.serdes(Date, t.string), { serdes: iso }),
+  attempts: one(t.map(t.number, t.string)),
+  labels: many(t.string, { asSet: true }),
+  action: one(t.variant([Click, Scroll])),
+  origin: one(t.tuple(t.number, t.number), { nullable: true }),
+  note: one(t.string, { optional: true }),
+  priority: one(t.number, { is: c.atLeast(0) }),
+}) {}
+
+const job = Job.fromJSON({
+  id: 2n ** 63n - 1n,
+  payload: "00ff10",
+  queuedAt: "2024-05-01T12:00:00.250Z",
+  attempts: new Map([
+    [1, "timeout"],
+    [2, "ok"],
+  ]),
+  labels: new Set(["mail", "bulk"]),
+  action: { kind: "scroll", delta: -5n },
+  origin: [3, 4],
+  priority: 1.5,
+}).val!;
+
+describe("MessagePack codec", () => {
+  it("writes maps keyed by field name", () => {
+    class Row extends Schema.from({
+      a: one(t.number),
+      b: one(t.string),
+    }) {}
+    expect(Array.from(new Row({ a: 1, b: "x" }).toMsgpack())).toEqual([
+      0x82, 0xa1, 0x61, 0x01, 0xa1, 0x62, 0xa1, 0x78,
+    ]);
+  });
+
+  it("round-trips what JSON loses", () => {
+    const { val, errs } = Job.fromMsgpack(job.toMsgpack());
+    expect(errs).toBeUndefined();
+    expect(val!.toJSON()).toEqual(job.toJSON());
+    expect(val!.id).toBe(2n ** 63n - 1n);
+    expect(Array.from(val!.payload)).toEqual([0x00, 0xff, 0x10]);
+    expect(val!.queuedAt.getTime()).toBe(job.queuedAt.getTime());
+    expect(val!.attempts).toEqual(job.attempts);
+    expect(val!.labels).toEqual(new Set(["mail", "bulk"]));
+    expect(val!.action).toBeInstanceOf(Scroll);
+    expect(val!.origin).toEqual([3, 4]);
+    expect(val!.note).toBeUndefined();
+  });
+
+  it("writes binary data and timestamps natively", () => {
+    const bytes = Array.from(job.toMsgpack());
+    const at = (seq: number[]) =>
+      bytes.findIndex((_, i) => seq.every((b, j) => bytes[i + j] === b));
+    expect(at([0xc4, 0x03, 0x00, 0xff, 0x10])).toBeGreaterThan(0);
+    expect(at([0xd7, 0xff])).toBeGreaterThan(0);
+    expect(at([0xcf, 0x7f, 0xff])).toBeGreaterThan(0);
+  });
+
+  it("round-trips unions over descriptors", () => {
+    class Slot extends Schema.from({
+      at: one(t.union([t.literal("now"), t.date])),
+      size: many(t.union([t.string, t.bigint])),
+    }) {}
+    const slot = new Slot({
+      at: "2024-05-01T12:00:00Z",
+      size: ["xl", 5n],
+    });
+    const { val, errs } = Slot.fromMsgpack(slot.toMsgpack());
+    expect(errs).toBeUndefined();
+    expect(val!.at).toEqual(new Date("2024-05-01T12:00:00Z"));
+    expect(val!.size).toEqual(["xl", 5n]);
+  });
+
+  it("rejects bigints wider than 64 bits", () => {
+    const big = new Job({ ...job.toJSON(), id: 2n ** 64n } as never);
+    expect(() => big.toMsgpack()).toThrow("msgpack: 18446744073709551616");
+  });
+
+  it("validates decoded instances", () => {
+    const invalid = new Job({ ...job.toJSON(), priority: -1 } as never);
+    const { val, errs } = Job.fromMsgpack(invalid.toMsgpack());
+    expect(val).toBeUndefined();
+    expect(errs?.priority).toBeDefined();
+  });
+
+  it("throws on malformed input", () => {
+    expect(() => Job.fromMsgpack(Uint8Array.of(0x82, 0xa1))).toThrow(
+      "msgpack: unexpected end of input",
+    );
+    expect(() => Job.fromMsgpack(Uint8Array.of(0xc1))).toThrow(
+      "msgpack: invalid type byte 0xc1",
+    );
+    expect(() => Job.fromMsgpack(Uint8Array.of(0x80, 0x00))).toThrow(
+      "msgpack: unexpected trailing bytes",
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Nested collection descriptors (`t.array` / `t.set`) inside fields, tuples
+ * and maps.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  fromJsonSchema,
+  typing as t,
+} from "@rybosome/type-a";
+
+class Grid extends Schema.from({
+  cells: one(t.array(t.array(t.number))),
+  aliases: one(t.map(t.string, t.array(t.string))),
+  scores: many(t.tuple(t.string, t.number)),
+  layers: many(t.array(t.set(t.string))),
+}) {}
+
+const raw = {
+  cells: [
+    [1, 2],
+    [3, 4],
+  ],
+  aliases: { ada: ["countess", "enchantress"] },
+  scores: [
+    ["ada", 10],
+    ["bob", 7],
+  ] as [string, number][],
+  layers: [[["a", "b"], ["c"]]],
+};
+
+describe("Nested collections", () => {
+  it("builds arrays and sets at every level", () => {
+    const g = Grid.fromJSON(raw).val!;
+    expect(g.cells[1][0]).toBe(3);
+    expect((g.aliases as Record<string, string[]>).ada).toEqual([
+      "countess",
+      "enchantress",
+    ]);
+    expect(g.scores[1]).toEqual(["bob", 7]);
+    expect(g.layers[0][0]).toEqual(new Set(["a", "b"]));
+    expect(g.validate()).toEqual([]);
+  });
+
+  it("reports issues with full index paths", () => {
+    const { errs } = Grid.fromJSON({
+      cells: [[1], [2, "x"]],
+      aliases: { ada: ["countess", 3] },
+      scores: [["ada", "ten"]],
+      layers: [[["a"], "b"]],
+    });
+    expect(errs?.summarize()).toEqual([
+      "cells[1][1]: expected number",
+      "aliases.ada[1]: expected string",
+      "scores[0][1]: expected number",
+      "layers[0][1]: expected set",
+    ]);
+  });
+
+  it("serialises nested sets back to arrays in toJSON()", () => {
+    expect(Grid.fromJSON(raw).val!.toJSON()).toEqual(raw);
+  });
+
+  it("coerces nested elements", () => {
+    const { val } = Grid.fromJSON(
+      { ...raw, cells: [["1", "2.5"]] },
+      { coerce: true },
+    );
+    expect(val!.cells).toEqual([[1, 2.5]]);
+  });
+
+  it("emits nested array schemas", () => {
+    const props = Grid.jsonSchema().properties as Record<string, unknown>;
+    expect(props.cells).toEqual({
+      type: "array",
+      items: { type: "array", items: { type: "number" } },
+    });
+    expect(props.aliases).toEqual({
+      type: "object",
+      additionalProperties: { type: "array", items: { type: "string" } },
+      propertyNames: { type: "string" },
+    });
+    expect(props.scores).toEqual({
+      type: "array",
+      items: {
+        type: "array",
+        items: [{ type: "string" }, { type: "number" }],
+        minItems: 2,
+        maxItems: 2,
+      },
+    });
+  });
+
+  it("imports nested arrays from JSON Schema", () => {
+    const { schema: Matrix } = fromJsonSchema({
+      type: "object",
+      properties: {
+        rows: {
+          type: "array",
+          items: { type: "array", items: { type: "number" } },
+        },
+      },
+      required: ["rows"],
+    });
+    expect(
+      Matrix.fromJSON({ rows: [[1], [2, "3"]] }).errs?.summarize(),
+    ).toEqual(["rows[1][1]: expected number"]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Descriptor-level `t.nullable` / `t.optional` and `t.rest` tuple elements.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  emitDeclarations,
+  fromJsonSchema,
+  typing as t,
+} from "@rybosome/type-a";
+
+class Reading extends Schema.from({
+  sample: one(t.tuple(t.string, t.nullable(t.number))),
+  range: one(t.tuple(t.number, t.optional(t.number))),
+  series: one(t.tuple(t.string, t.rest(t.number))),
+  gauges: one(t.map(t.string, t.nullable(t.number))),
+  seenAt: many(t.nullable(t.date)),
+}) {}
+
+const raw = {
+  sample: ["temp", null] as [string, number | null],
+  range: [1] as [number],
+  series: ["rain", 0.5, 1.5] as [string, ...number[]],
+  gauges: { a: 1, b: null },
+  seenAt: [null, "2024-05-01T12:00:00.000Z"],
+};
+
+describe("Nullable and optional elements", () => {
+  it("accept null, omitted and variadic elements", () => {
+    const { val, errs } = Reading.fromJSON(raw);
+    expect(errs).toBeUndefined();
+    expect(val!.sample).toEqual(["temp", null]);
+    expect(val!.range).toEqual([1]);
+    expect(val!.series).toEqual(["rain", 0.5, 1.5]);
+    expect(val!.seenAt[0]).toBeNull();
+    expect(val!.seenAt[1]).toEqual(new Date("2024-05-01T12:00:00Z"));
+    expect(val!.toJSON()).toEqual(raw);
+  });
+
+  it("report tuple lengths and element issues", () => {
+    const { errs } = Reading.fromJSON({
+      ...raw,
+      sample: ["temp", "hot"],
+      range: [1, 2, 3],
+      series: [],
+      gauges: { a: "x" },
+    });
+    expect(errs?.summarize()).toEqual([
+      "sample[1]: expected number",
+      "range: expected tuple length 1 to 2",
+      "series: expected tuple length at least 1",
+      "gauges.a: expected number",
+    ]);
+  });
+
+  it("validate rest elements by index", () => {
+    const { errs } = Reading.fromJSON({ ...raw, series: ["rain", 1, "2"] });
+    expect(errs?.summarize()).toEqual(["series[2]: expected number"]);
+  });
+
+  it("treat field-level wrappers as field options", () => {
+    class Profile extends Schema.from({
+      nickname: one(t.nullable(t.string)),
+      bio: one(t.optional(t.string)),
+    }) {}
+    expect(new Profile({ nickname: null }).validate()).toEqual([]);
+    expect(Profile.jsonSchema()).toEqual({
+      type: "object",
+      properties: {
+        nickname: { type: ["string", "null"] },
+        bio: { type: "string" },
+      },
+      required: ["nickname"],
+    });
+  });
+
+  it("reject misplaced tuple elements", () => {
+    expect(() => t.tuple(t.optional(t.string), t.number)).toThrow(
+      "t.tuple: a required element follows t.optional",
+    );
+    expect(() => t.tuple(t.rest(t.string) as never, t.number)).toThrow(
+      "t.tuple: t.rest must come last",
+    );
+  });
+
+  /* ---------------------------------------------------------------------- */
+  /*  Compile-time expectations (non-executed arrow functions)               */
+  /* ---------------------------------------------------------------------- */
+
+  // @ts-expect-error – the second element of `range` is a number
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Reading({ ...raw, range: [1, "2"] });
+
+  // @ts-expect-error – `series` needs its leading string
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Reading({ ...raw, series: [] });
+});
+
+describe("Emitters", () => {
+  it("emit JSON Schema tuple bounds and rest items", () => {
+    const props = Reading.jsonSchema().properties as Record<string, unknown>;
+    expect(props.sample).toEqual({
+      type: "array",
+      items: [{ type: "string" }, { type: ["number", "null"] }],
+      minItems: 2,
+      maxItems: 2,
+    });
+    expect(props.range).toEqual({
+      type: "array",
+      items: [{ type: "number" }, { type: "number" }],
+      minItems: 1,
+      maxItems: 2,
+    });
+    expect(props.series).toEqual({
+      type: "array",
+      items: [{ type: "string" }],
+      additionalItems: { type: "number" },
+      minItems: 1,
+    });
+    const next = Reading.jsonSchema({ target: "2020-12" }).properties as Record<
+      string,
+      unknown
+    >;
+    expect(next.series).toEqual({
+      type: "array",
+      prefixItems: [{ type: "string" }],
+      items: { type: "number" },
+      minItems: 1,
+    });
+  });
+
+  it("add null to the values of nullable literals and enums", () => {
+    class Ticket extends Schema.from({
+      kind: one(t.literal("bug"), { nullable: true }),
+      size: one(t.oneOf("s", "m"), { nullable: true }),
+      pair: one(t.tuple(t.nullable(t.literal(1)), t.string)),
+    }) {}
+    const props = Ticket.jsonSchema().properties as Record<string, unknown>;
+    expect(props.kind).toEqual({
+      type: ["string", "null"],
+      enum: ["bug", null],
+    });
+    expect(props.size).toEqual({
+      type: ["string", "null"],
+      enum: ["s", "m", null],
+    });
+    expect(props.pair).toMatchObject({
+      items: [
+        { type: ["number", "null"], enum: [1, null] },
+        { type: "string" },
+      ],
+    });
+    const oas = Ticket.jsonSchema({ target: "openapi-3.0" })
+      .properties as Record<string, unknown>;
+    expect(oas.kind).toEqual({
+      type: "string",
+      enum: ["bug", null],
+      nullable: true,
+    });
+  });
+
+  it("emit TypeScript tuple elements", () => {
+    const dts = emitDeclarations(Reading);
+    expect(dts).toContain(
+      "export type ReadingSample = [string, number | null];",
+    );
+    expect(dts).toContain("export type ReadingRange = [number, number?];");
+    expect(dts).toContain("export type ReadingSeries = [string, ...number[]];");
+  });
+
+  it("round-trip through binary codecs", () => {
+    const reading = Reading.fromJSON(raw).val!;
+    for (const decoded of [
+      Reading.fromMsgpack(reading.toMsgpack()),
+      Reading.fromAvro(reading.toAvro()),
+    ]) {
+      expect(decoded.errs).toBeUndefined();
+      expect(decoded.val!.toJSON()).toEqual(raw);
+    }
+  });
+
+  it("import nullable members, optional and rest tuple elements", () => {
+    const { schema: Imported, unsupported } = fromJsonSchema({
+      type: "object",
+      properties: {
+        pair: {
+          type: "array",
+          prefixItems: [{ type: "string" }, { type: ["number", "null"] }],
+          items: { type: "boolean" },
+          minItems: 1,
+        },
+      },
+      required: ["pair"],
+    });
+    expect(unsupported).toEqual([]);
+    expect(Imported.fromJSON({ pair: ["a"] }).errs).toBeUndefined();
+    expect(Imported.fromJSON({ pair: ["a", null, true] }).errs).toBeUndefined();
+    expect(
+      Imported.fromJSON({ pair: ["a", null, 1] }).errs?.summarize(),
+    ).toEqual(["pair[2]: expected boolean"]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * `openApiDocument()` – OpenAPI 3.1 documents from Schema classes + routes.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  openApiDocument,
+  typing as t,
+} from "@rybosome/type-a";
+
+class User extends Schema.from({
+  id: one(t.string, { is: c.uuid }),
+  name: one(t.string),
+}) {}
+
+class Product extends Schema.from({
+  sku: one(t.string),
+  price: one(t.number, { is: c.atLeast(0) }),
+}) {}
+
+class Order extends Schema.from({
+  buyer: one(User),
+  items: many(Product),
+  note: one(t.string, { nullable: true }),
+}) {}
+
+class NewOrder extends Schema.from({
+  items: many(Product),
+}) {}
+
+class OrderPath extends Schema.from({
+  orderId: one(t.string, { described: "Order identifier" }),
+}) {}
+
+class ListQuery extends Schema.from({
+  limit: one(t.number, { optional: true }),
+  cursor: one(t.string, { optional: true }),
+}) {}
+
+class ApiError extends Schema.from({
+  message: one(t.string),
+}) {}
+
+const doc = openApiDocument({
+  info: { title: "Shop", version: "1.0.0" },
+  servers: [{ url: "https://api.example.com" }],
+  schemas: { User, Order, Error: ApiError },
+  routes: [
+    {
+      method: "get",
+      path: "/orders/{orderId}",
+      operationId: "getOrder",
+      params: { path: OrderPath },
+      responses: {
+        200: Order,
+        404: { description: "Not found", body: ApiError },
+      },
+    },
+    {
+      method: "post",
+      path: "/orders",
+      tags: ["orders"],
+      body: NewOrder,
+      responses: { 201: Order, 204: { description: "Queued" } },
+    },
+    {
+      method: "get",
+      path: "/orders",
+      params: { query: ListQuery },
+      responses: { 200: Order },
+    },
+  ],
+}) as Record<string, any>;
+
+describe("openApiDocument", () => {
+  it("emits the document envelope", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info).toEqual({ title: "Shop", version: "1.0.0" });
+    expect(doc.servers).toEqual([{ url: "https://api.example.com" }]);
+  });
+
+  it("puts named and nested classes into components", () => {
+    const schemas = doc.components.schemas;
+    expect(Object.keys(schemas).sort()).toEqual(
+      ["Error", "NewOrder", "Order", "Product", "User"].sort(),
+    );
+    expect(schemas.Order.properties).toEqual({
+      buyer: { $ref: "#/components/schemas/User" },
+      items: {
+        type: "array",
+        items: { $ref: "#/components/schemas/Product" },
+      },
+      note: { type: ["string", "null"] },
+    });
+    expect(schemas.Product.properties.price).toEqual({
+      type: "number",
+      minimum: 0,
+    });
+  });
+
+  it("references bodies and responses", () => {
+    const getOrder = doc.paths["/orders/{orderId}"].get;
+    expect(getOrder.operationId).toBe("getOrder");
+    expect(getOrder.responses).toEqual({
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Order" },
+          },
+        },
+      },
+      404: {
+        description: "Not found",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    });
+
+    const create = doc.paths["/orders"].post;
+    expect(create.tags).toEqual(["orders"]);
+    expect(create.requestBody).toEqual({
+      required: true,
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/NewOrder" },
+        },
+      },
+    });
+    expect(create.responses[204]).toEqual({ description: "Queued" });
+  });
+
+  it("expands parameter classes field by field", () => {
+    expect(doc.paths["/orders/{orderId}"].get.parameters).toEqual([
+      {
+        name: "orderId",
+        in: "path",
+        required: true,
+        description: "Order identifier",
+        schema: { type: "string" },
+      },
+    ]);
+    expect(doc.paths["/orders"].get.parameters).toEqual([
+      {
+        name: "limit",
+        in: "query",
+        required: false,
+        schema: { type: "number" },
+      },
+      {
+        name: "cursor",
+        in: "query",
+        required: false,
+        schema: { type: "string" },
+      },
+    ]);
+  });
+
+  it("describes only 4xx and 5xx responses as errors by default", () => {
+    const redirects = openApiDocument({
+      info: { title: "Links", version: "1.0.0" },
+      routes: [
+        {
+          method: "get",
+          path: "/go",
+          responses: { 201: User, 302: User, 429: ApiError, 503: ApiError },
+        },
+      ],
+    }) as Record<string, any>;
+    const responses = redirects.paths["/go"].get.responses;
+    expect(
+      Object.fromEntries(
+        Object.entries<any>(responses).map(([k, v]) => [k, v.description]),
+      ),
+    ).toEqual({
+      201: "Successful response",
+      302: "Response",
+      429: "Error response",
+      503: "Error response",
+    });
+  });
+});
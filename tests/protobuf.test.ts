@@ -0,0 +1,202 @@
+/**
+ * `protoSchema()` and the protobuf wire codec (`toProtobuf` / `fromProtobuf`).
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, many, protoSchema, typing as t } from "@rybosome/type-a";
+
+class Cat extends Schema.from({
+  kind: one(t.literal("cat")),
+  lives: one(t.number),
+}) {}
+
+class Dog extends Schema.from({
+  kind: one(t.literal("dog")),
+  born: one(t.serdes(Date, t.string), {
+    serdes: [(d: Date) => d.toISOString(), (s: string) => new Date(s)],
+  }),
+}) {}
+
+const Size = { S: "small", L: "large" } as const;
+
+class Owner extends Schema.from({
+  name: one(t.string, { described: "Full name" }),
+  id: one(t.bigint, { fieldNumber: 1 }),
+  pets: many(t.variant([Cat, Dog])),
+  home: one(t.tuple(t.number, t.number)),
+  scores: one(t.map(t.string, t.number)),
+  tags: many(t.string, { asSet: true }),
+  size: one(t.enum(Size)),
+  nickname: one(t.string, { nullable: true }),
+  rank: one(t.number, { optional: true }),
+}) {}
+
+describe("protoSchema()", () => {
+  it("prints a proto3 file", () => {
+    expect(protoSchema(Owner, { package: "zoo.v1" })).toBe(
+      [
+        'syntax = "proto3";',
+        "",
+        "package zoo.v1;",
+        "",
+        "message Owner {",
+        "  // Full name",
+        "  string name = 2;",
+        "  int64 id = 1;",
+        "  repeated OwnerPets pets = 3;",
+        "  OwnerHome home = 4;",
+        "  map<string, double> scores = 5;",
+        "  repeated string tags = 6;",
+        "  OwnerSize size = 7;",
+        "  optional string nickname = 8;",
+        "  optional double rank = 9;",
+        "}",
+        "",
+        "message OwnerPets {",
+        "  oneof value {",
+        "    Cat cat = 1;",
+        "    Dog dog = 2;",
+        "  }",
+        "}",
+        "",
+        "message Cat {",
+        "  string kind = 1;",
+        "  double lives = 2;",
+        "}",
+        "",
+        "message Dog {",
+        "  string kind = 1;",
+        "  string born = 2;",
+        "}",
+        "",
+        "message OwnerHome {",
+        "  double item_0 = 1;",
+        "  double item_1 = 2;",
+        "}",
+        "",
+        "enum OwnerSize {",
+        "  OWNER_SIZE_UNSPECIFIED = 0;",
+        "  OWNER_SIZE_S = 1;",
+        "  OWNER_SIZE_L = 2;",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("rejects clashing field numbers", () => {
+    class Clash extends Schema.from({
+      a: one(t.string, { fieldNumber: 3 }),
+      b: one(t.string, { fieldNumber: 3 }),
+    }) {}
+    expect(() => protoSchema(Clash)).toThrow(
+      "protobuf: Clash.b reuses field number 3",
+    );
+  });
+});
+
+describe("protobuf wire codec", () => {
+  it("matches the reference encoding", () => {
+    class Test extends Schema.from({
+      a: one(t.bigint),
+      b: one(t.string),
+    }) {}
+    const bytes = new Test({ a: 150n, b: "testing" }).toProtobuf();
+    expect(Array.from(bytes)).toEqual([
+      0x08, 0x96, 0x01, 0x12, 0x07, 0x74, 0x65, 0x73, 0x74, 0x69, 0x6e, 0x67,
+    ]);
+  });
+
+  it("round-trips instances", () => {
+    const owner = Owner.fromJSON({
+      name: "Ada",
+      id: -42n,
+      pets: [
+        { kind: "cat", lives: 9 },
+        { kind: "dog", born: "2020-01-02T00:00:00.000Z" },
+      ],
+      home: [1.5, -2],
+      scores: { math: 10, art: 0 },
+      tags: new Set(["a", "b"]),
+      size: "large",
+      nickname: null,
+    }).val!;
+
+    const { val, errs } = Owner.fromProtobuf(owner.toProtobuf());
+    expect(errs).toBeUndefined();
+    expect(val!.toJSON()).toEqual(owner.toJSON());
+    expect(val!.id).toBe(-42n);
+    expect(val!.tags).toEqual(new Set(["a", "b"]));
+    expect(val!.pets[0]).toBeInstanceOf(Cat);
+    expect((val!.pets[1] as InstanceType<typeof Dog>).born).toBeInstanceOf(
+      Date,
+    );
+    expect(val!.rank).toBeUndefined();
+  });
+
+  it("decodes non-string map keys into a Map", () => {
+    class Counts extends Schema.from({
+      byYear: one(t.map(t.number, t.number)),
+    }) {}
+    const counts = new Counts({ byYear: new Map([[2024, 3]]) });
+    const { val } = Counts.fromProtobuf(counts.toProtobuf());
+    expect(val!.byYear).toEqual(new Map([[2024, 3]]));
+  });
+
+  it("skips unknown fields and validates the result", () => {
+    class Narrow extends Schema.from({
+      b: one(t.string, { fieldNumber: 2 }),
+    }) {}
+    class Wide extends Schema.from({
+      a: one(t.bigint),
+      b: one(t.string),
+    }) {}
+    const bytes = new Wide({ a: 7n, b: "kept" }).toProtobuf();
+    expect(Narrow.fromProtobuf(bytes).val!.b).toBe("kept");
+
+    // Messages and enums have no proto3 default, so absence is reported.
+    expect(Owner.fromProtobuf(new Uint8Array()).errs?.summarize()).toEqual([
+      "home: is required",
+      "size: is required",
+    ]);
+  });
+
+  it("boxes optional maps so that absence survives", () => {
+    class Prefs extends Schema.from({
+      flags: one(t.map(t.string, t.boolean), { optional: true }),
+    }) {}
+    expect(protoSchema(Prefs)).toContain(
+      [
+        "message Prefs {",
+        "  PrefsFlags flags = 1;",
+        "}",
+        "",
+        "message PrefsFlags {",
+        "  map<string, bool> value = 1;",
+        "}",
+      ].join("\n"),
+    );
+    const empty = Prefs.fromProtobuf(Prefs.fromJSON({}).val!.toProtobuf()).val!;
+    expect(empty.flags).toBeUndefined();
+    const set = new Prefs({ flags: { dark: true } });
+    expect(Prefs.fromProtobuf(set.toProtobuf()).val!.toJSON()).toEqual({
+      flags: { dark: true },
+    });
+  });
+
+  it("throws for bigints outside the int64 range", () => {
+    class Big extends Schema.from({ a: one(t.bigint) }) {}
+    expect(() => new Big({ a: 2n ** 70n }).toProtobuf()).toThrow(
+      `protobuf: ${2n ** 70n} does not fit an int64`,
+    );
+    const min = -(2n ** 63n);
+    const { val } = Big.fromProtobuf(new Big({ a: min }).toProtobuf());
+    expect(val!.a).toBe(min);
+  });
+
+  it("throws on truncated input", () => {
+    expect(() => Owner.fromProtobuf(Uint8Array.of(0x12, 0x05, 0x41))).toThrow(
+      "protobuf: unexpected end of input",
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Async constraints – `validateAsync()` / `fromJSONAsync()`.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
+import type { AsyncLogicalConstraint } from "@rybosome/type-a";
+
+const taken = new Set(["admin", "root"]);
+const calls: string[] = [];
+
+const available: AsyncLogicalConstraint<string> = async (name) => {
+  calls.push(name);
+  await new Promise((r) => setTimeout(r, 5));
+  return taken.has(name) ? `${name} is taken` : true;
+};
+
+const exists: AsyncLogicalConstraint<number> = async (id) =>
+  id < 100 ? true : `no record with id ${id}`;
+
+class Member extends Schema.from({
+  username: one(t.string, { is: [c.nonEmpty, available] }),
+}) {}
+
+class Team extends Schema.from({
+  lead: one(Member),
+  members: many(Member),
+  projectId: one(t.number, { is: exists }),
+}) {}
+
+describe("async constraints", () => {
+  it("awaits async constraints across fields, nested schemas and collections", async () => {
+    const team = new Team({
+      lead: { username: "admin" },
+      members: [{ username: "ada" }, { username: "root" }],
+      projectId: 200,
+    });
+
+    expect(await team.validateAsync()).toEqual([
+      "lead.username: admin is taken",
+      "members[1].username: root is taken",
+      "projectId: no record with id 200",
+    ]);
+  });
+
+  it("stops at the first failing constraint before reaching async ones", async () => {
+    calls.length = 0;
+    const m = new Member({ username: "" });
+    expect(await m.validateAsync()).toEqual(["username: must not be empty"]);
+    expect(calls).toEqual([]);
+  });
+
+  it("reports async constraints from synchronous validate()", () => {
+    const m = new Member({ username: "ada" });
+    expect(m.validateIssues()).toEqual([
+      {
+        path: ["username"],
+        code: "async_constraint",
+        message: "has an async constraint; use validateAsync()",
+      },
+    ]);
+  });
+
+  it("fromJSONAsync resolves to the usual Result shape", async () => {
+    const ok = await Member.fromJSONAsync({ username: "grace" });
+    expect(ok.errs).toBeUndefined();
+    expect(ok.val).toBeInstanceOf(Member);
+
+    const bad = await Member.fromJSONAsync({ username: "root" });
+    expect(bad.val).toBeUndefined();
+    expect(bad.errs?.username?._errors).toEqual(["root is taken"]);
+  });
+});
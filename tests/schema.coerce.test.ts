@@ -0,0 +1,105 @@
+/**
+ * Coercing parse mode – `fromJSON(input, { coerce: true })`.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
+
+enum Priority {
+  Low = 1,
+  High = 2,
+}
+
+class Filter extends Schema.from({
+  page: one(t.number, { is: c.atLeast(1) }),
+  active: one(t.boolean),
+  cursor: one(t.bigint),
+  priority: one(t.enum(Priority)),
+  ids: many(t.number),
+  labels: many(t.string, { asSet: true }),
+}) {}
+
+class Query extends Schema.from({
+  filter: one(Filter),
+  range: one(t.tuple(t.number, t.number)),
+  weights: one(t.map(t.string, t.number)),
+}) {}
+
+const query = {
+  filter: {
+    page: "2",
+    active: "true",
+    cursor: "9007199254740993",
+    priority: "2",
+    ids: "7",
+    labels: "urgent",
+  },
+  range: ["0", " 10 "],
+  weights: { a: "0.5" },
+};
+
+describe("fromJSON – coerce mode", () => {
+  it("rejects string inputs without coercion", () => {
+    const res = Query.fromJSON(query);
+    expect(res.errs?.filter?.page?._errors).toContain("expected number");
+  });
+
+  it("converts strings recursively through nested schemas, tuples and maps", () => {
+    const res = Query.fromJSON(query, { coerce: true });
+
+    expect(res.errs).toBeUndefined();
+    const q = res.val!;
+    expect(q.filter.page).toBe(2);
+    expect(q.filter.active).toBe(true);
+    expect(q.filter.cursor).toBe(9007199254740993n);
+    expect(q.filter.priority).toBe(Priority.High);
+    expect(q.filter.ids).toEqual([7]);
+    expect(q.filter.labels).toEqual(new Set(["urgent"]));
+    expect(q.range).toEqual([0, 10]);
+    expect(q.weights).toEqual({ a: 0.5 });
+  });
+
+  it("reports values that cannot be converted", () => {
+    const res = Query.fromJSON(
+      {
+        ...query,
+        filter: { ...query.filter, page: "two", active: "yes" },
+        range: ["0", ""],
+      },
+      { coerce: true },
+    );
+
+    expect(res.errs?.summarize()).toEqual([
+      'filter.page: cannot coerce "two" to number',
+      'filter.active: cannot coerce "yes" to boolean',
+      'range[1]: cannot coerce "" to number',
+    ]);
+  });
+
+  it("recovers non-string map keys from their JSON form", () => {
+    class Scores extends Schema.from({
+      byRank: one(t.map(t.number, t.number)),
+    }) {}
+
+    const res = Scores.fromJSON({ byRank: { "1": "2" } }, { coerce: true });
+    expect(res.errs).toBeUndefined();
+    expect(res.val!.byRank).toEqual(new Map([[1, 2]]));
+
+    const bad = Scores.fromJSON({ byRank: { x: "2" } }, { coerce: true });
+    expect(bad.errs?.summarize()).toEqual(["byRank.x: key x: expected number"]);
+  });
+
+  it("still runs constraints after coercion", () => {
+    const res = Query.fromJSON(
+      { ...query, filter: { ...query.filter, page: "0" } },
+      { coerce: true },
+    );
+    expect(res.errs?.filter?.page?._errors).toEqual(["0 is not atLeast(1)"]);
+  });
+});
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { Schema, one, constraints as c, typing as t } from "@rybosome/type-a";
+import {
+  Schema,
+  one,
+  many,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
 
 // Minimal schema with two constrained fields
 const User = Schema.from({
@@ -31,8 +37,8 @@ describe("Schema.fromJSON", () => {
     expect(res.errs).toBeDefined();
 
     const errs = res.errs!;
-    expect(errs.name).toBe("must not be empty");
-    expect(errs.age).toBe("10 is not atLeast(18)");
+    expect(errs.name?._errors).toEqual(["must not be empty"]);
+    expect(errs.age?._errors).toEqual(["10 is not atLeast(18)"]);
 
     expect(Object.keys(errs)).toEqual(expect.arrayContaining(["name", "age"]));
     expect(errs.summarize()).toEqual(
@@ -42,4 +48,51 @@ describe("Schema.fromJSON", () => {
       ]),
     );
   });
+
+  it("nests errors under schema fields, indices and map keys", () => {
+    class Address extends Schema.from({
+      zip: one(t.string, { is: c.length(5) }),
+    }) {}
+
+    class Account extends Schema.from({
+      user: one(User),
+      address: one(Address),
+      tags: many(t.string),
+      point: one(t.tuple(t.number, t.number)),
+      limits: one(t.map(t.string, t.number)),
+    }) {}
+
+    const res = Account.fromJSON({
+      user: { name: "", age: 30 },
+      address: { zip: "1" },
+      tags: ["ok", 2],
+      point: [1, "y"],
+      limits: { daily: "lots" },
+    });
+
+    const errs = res.errs!;
+    expect(errs.user?.name?._errors).toEqual(["must not be empty"]);
+    expect(errs.user?._errors).toEqual([]);
+    expect(errs.user?.age).toBeUndefined();
+    expect(errs.address?.zip?._errors).toEqual(["length 1 must be exactly 5"]);
+    expect(errs.tags?.[1]?._errors).toEqual(["expected string"]);
+    expect(errs.point?.[1]?._errors).toEqual(["expected number"]);
+    expect(errs.limits?.["daily"]?._errors).toEqual(["expected number"]);
+    expect(errs.summarize()).toEqual([
+      "user.name: must not be empty",
+      "address.zip: length 1 must be exactly 5",
+      "tags[1]: expected string",
+      "point[1]: expected number",
+      "limits.daily: expected number",
+    ]);
+  });
+
+  it("keeps every message reported for the same field", () => {
+    const res = User.fromJSON({ name: "Bob", age: "12" });
+
+    expect(res.errs?.age?._errors).toEqual([
+      "expected number",
+      "12 is not atLeast(18)",
+    ]);
+  });
 });
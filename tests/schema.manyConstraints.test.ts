@@ -0,0 +1,48 @@
+/**
+ * `many()` constraints – `is` runs once per element and is typed over it.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, many, constraints as c, typing as t } from "@rybosome/type-a";
+
+class Scores extends Schema.from({
+  points: many(t.number, { is: c.atLeast(0) }),
+  emails: many(t.string, { is: [c.minLength(3), c.email] }),
+  tags: many(t.string, { is: c.minLength(2), asSet: true }),
+}) {}
+
+describe("many() constraints", () => {
+  it("check each element and report its index", () => {
+    const s = new Scores({
+      points: [1, -2, 3],
+      emails: ["ada@example.com", "x"],
+      tags: new Set(["ok", "a"]),
+    });
+    expect(s.validate()).toEqual([
+      "points[1]: -2 is not atLeast(0)",
+      "emails[1]: length 1 is not atLeast(3)",
+      "tags[1]: length 1 is not atLeast(2)",
+    ]);
+  });
+
+  it("accept collections whose elements all pass", () => {
+    const { errs } = Scores.fromJSON({
+      points: [0, 1],
+      emails: ["ada@example.com"],
+      tags: ["ok"],
+    });
+    expect(errs).toBeUndefined();
+  });
+
+  /* ---------------------------------------------------------------------- */
+  /*  Compile-time expectations (non-executed arrow functions)               */
+  /* ---------------------------------------------------------------------- */
+
+  // @ts-expect-error – a string constraint cannot check number elements
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => many(t.number, { is: c.email });
+
+  // @ts-expect-error – constraints take the element, not the whole array
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => many(t.number, { is: (xs: number[]) => xs.length > 0 || "empty" });
+});
@@ -16,7 +16,7 @@ describe("Schema - strict primitive validation", () => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const f = Flags.fromJSON({ active: 1, score: "bad" } as any);
     const errs = f.errs!;
-    expect(errs.active).toBe("expected boolean");
-    expect(errs.score).toBe("expected number");
+    expect(errs.active?._errors).toEqual(["expected boolean"]);
+    expect(errs.score?._errors).toEqual(["expected number"]);
   });
 });
@@ -0,0 +1,153 @@
+/**
+ * Schema-level (cross-field) refinements – `Schema.from(fields, { refine })`.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, typing as t } from "@rybosome/type-a";
+import type { AsyncLogicalConstraint, SchemaOptions } from "@rybosome/type-a";
+
+class Booking extends Schema.from(
+  {
+    startDate: one(t.number),
+    endDate: one(t.number),
+  },
+  {
+    refine: (b) =>
+      b.endDate > b.startDate
+        ? true
+        : { path: ["endDate"], message: "must be after startDate" },
+  },
+) {}
+
+class Signup extends Schema.from(
+  {
+    password: one(t.string),
+    confirmPassword: one(t.string),
+  },
+  {
+    refine: [
+      (s) => (s.password === s.confirmPassword ? true : "passwords differ"),
+      (s) =>
+        s.password.length >= 8
+          ? true
+          : [
+              { path: ["password"], message: "too short" },
+              { path: ["confirmPassword"], message: "too short" },
+            ],
+    ],
+  },
+) {}
+
+class RoomBooking extends Booking {}
+
+describe("schema-level refinements", () => {
+  it("attaches issues to specific field paths", () => {
+    const b = new Booking({ startDate: 5, endDate: 1 });
+    expect(b.validateIssues()).toEqual([
+      {
+        path: ["endDate"],
+        code: "refinement",
+        message: "must be after startDate",
+      },
+    ]);
+
+    const res = Booking.fromJSON({ startDate: 5, endDate: 1 });
+    expect(res.errs?.endDate?._errors).toEqual(["must be after startDate"]);
+  });
+
+  it("reports instance-level failures under the root `_errors`", () => {
+    const res = Signup.fromJSON({ password: "hunter2", confirmPassword: "x" });
+    expect(res.errs?._errors).toEqual(["passwords differ"]);
+    expect(res.errs?.summarize()).toEqual([
+      "passwords differ",
+      "password: too short",
+      "confirmPassword: too short",
+    ]);
+  });
+
+  it("runs only after the per-field checks pass", () => {
+    const b = new Booking({
+      startDate: 5,
+      endDate: "1" as unknown as number,
+    });
+    expect(b.validate()).toEqual(["endDate: expected number"]);
+  });
+
+  it("is skipped entirely when any field fails, even one it does not read", () => {
+    class NotedBooking extends Schema.from(
+      {
+        startDate: one(t.number),
+        endDate: one(t.number),
+        note: one(t.string),
+      },
+      {
+        refine: (b) =>
+          b.endDate > b.startDate ? true : "must end after it starts",
+      },
+    ) {}
+
+    const b = new NotedBooking({
+      startDate: 5,
+      endDate: 1,
+      note: 7 as unknown as string,
+    });
+    expect(b.validate()).toEqual(["note: expected string"]);
+
+    b.note = "late checkout";
+    expect(b.validate()).toEqual(["must end after it starts"]);
+  });
+
+  it("waits for async constraints before running", async () => {
+    const free: AsyncLogicalConstraint<string> = async (name) =>
+      name === "admin" ? "taken" : true;
+    class Account extends Schema.from(
+      {
+        name: one(t.string, { is: free }),
+        confirm: one(t.string),
+      },
+      {
+        refine: (a) =>
+          a.name === a.confirm
+            ? true
+            : { path: ["confirm"], message: "mismatch" },
+      },
+    ) {}
+    class Signup extends Schema.from({ u: one(Account) }) {}
+
+    expect(
+      await new Signup({ u: { name: "admin", confirm: "x" } }).validateAsync(),
+    ).toEqual(["u.name: taken"]);
+    expect(
+      await new Signup({ u: { name: "ada", confirm: "x" } }).validateAsync(),
+    ).toEqual(["u.confirm: mismatch"]);
+    expect(
+      await new Account({ name: "ada", confirm: "ada" }).validateAsync(),
+    ).toEqual([]);
+  });
+
+  it("is inherited by subclasses and nested instances", () => {
+    expect(new RoomBooking({ startDate: 2, endDate: 1 }).validate()).toEqual([
+      "endDate: must be after startDate",
+    ]);
+
+    class Trip extends Schema.from({ booking: one(Booking) }) {}
+    expect(
+      new Trip({ booking: { startDate: 2, endDate: 1 } }).validate(),
+    ).toEqual(["booking.endDate: must be after startDate"]);
+  });
+
+  it("combines base and subclass refinements, base first", () => {
+    class ShortBooking extends Booking {
+      static _options: SchemaOptions<ShortBooking> = {
+        refine: (b) => (b.endDate - b.startDate <= 7 ? true : "too long"),
+      };
+    }
+
+    expect(new ShortBooking({ startDate: 9, endDate: 1 }).validate()).toEqual([
+      "endDate: must be after startDate",
+    ]);
+    expect(new ShortBooking({ startDate: 1, endDate: 9 }).validate()).toEqual([
+      "too long",
+    ]);
+  });
+});
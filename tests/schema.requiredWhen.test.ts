@@ -0,0 +1,95 @@
+/**
+ * Conditional requirements – field-level `requiredWhen` and schema-level
+ * `dependentRequired`.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, typing as t } from "@rybosome/type-a";
+
+const Delivery = {
+  ship: "ship",
+  pickup: "pickup",
+  courier: "courier",
+} as const;
+
+class Address extends Schema.from({
+  street: one(t.string),
+}) {}
+
+class Checkout extends Schema.from(
+  {
+    delivery: one(t.enum(Delivery)),
+    shippingAddress: one(Address, {
+      optional: true,
+      requiredWhen: { delivery: ["ship", "courier"] },
+    }),
+    pickupStore: one(t.string, {
+      optional: true,
+      requiredWhen: { delivery: "pickup" },
+    }),
+    creditCard: one(t.string, { optional: true }),
+    billingAddress: one(Address, { optional: true }),
+  },
+  { dependentRequired: { creditCard: ["billingAddress"] } },
+) {}
+
+describe("conditional requirements", () => {
+  it("requires a field only while its condition holds", () => {
+    expect(
+      Checkout.fromJSON({ delivery: "pickup", pickupStore: "A" }).errs,
+    ).toBeUndefined();
+
+    expect(Checkout.fromJSON({ delivery: "ship" }).errs?.summarize()).toEqual([
+      'shippingAddress: is required when delivery is one of "ship", "courier"',
+    ]);
+
+    expect(Checkout.fromJSON({ delivery: "pickup" }).errs?.summarize()).toEqual(
+      ['pickupStore: is required when delivery is "pickup"'],
+    );
+  });
+
+  it("enforces dependentRequired", () => {
+    const res = Checkout.fromJSON({
+      delivery: "pickup",
+      pickupStore: "A",
+      creditCard: "4242",
+    });
+    expect(res.errs?.billingAddress?._errors).toEqual([
+      "is required when creditCard is present",
+    ]);
+  });
+
+  it("emits if/then and draft-07 dependencies in jsonSchema()", () => {
+    const schema = Checkout.jsonSchema();
+
+    expect(schema.required).toEqual(["delivery"]);
+    expect(schema.allOf).toEqual([
+      {
+        if: {
+          properties: { delivery: { enum: ["ship", "courier"] } },
+          required: ["delivery"],
+        },
+        then: { required: ["shippingAddress"] },
+      },
+      {
+        if: {
+          properties: { delivery: { const: "pickup" } },
+          required: ["delivery"],
+        },
+        then: { required: ["pickupStore"] },
+      },
+    ]);
+    expect(schema.dependencies).toEqual({ creditCard: ["billingAddress"] });
+    expect(schema.dependentRequired).toBeUndefined();
+  });
+
+  it("emits dependentRequired for 2020-12 and OpenAPI 3.1", () => {
+    for (const target of ["2020-12", "openapi-3.1"] as const) {
+      const schema = Checkout.jsonSchema({ target });
+      expect(schema.dependentRequired).toEqual({
+        creditCard: ["billingAddress"],
+      });
+      expect(schema.dependencies).toBeUndefined();
+    }
+  });
+});
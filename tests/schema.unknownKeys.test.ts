@@ -0,0 +1,84 @@
+/**
+ * Unknown-key policy – `Schema.from(fields, { unknownKeys })`.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Schema, one, typing as t } from "@rybosome/type-a";
+
+const fields = {
+  name: one(t.string),
+};
+
+class Stripped extends Schema.from(fields) {}
+class Strict extends Schema.from(fields, { unknownKeys: "strict" }) {}
+class Passthrough extends Schema.from(fields, { unknownKeys: "passthrough" }) {}
+
+const input = { name: "Ada", nmae: "typo", extra: { n: 1 } } as {
+  name: string;
+};
+
+describe("unknownKeys policy", () => {
+  it("strips undeclared keys by default", () => {
+    const s = new Stripped(input);
+    expect(s.validate()).toEqual([]);
+    expect(s.toJSON()).toEqual({ name: "Ada" });
+  });
+
+  it("reports each undeclared key in strict mode", () => {
+    const s = new Strict(input);
+    expect(s.validateIssues()).toEqual([
+      {
+        path: ["nmae"],
+        code: "unrecognized_key",
+        message: "is not a declared field",
+      },
+      {
+        path: ["extra"],
+        code: "unrecognized_key",
+        message: "is not a declared field",
+      },
+    ]);
+    expect(s.toJSON()).toEqual({ name: "Ada" });
+
+    const res = Strict.fromJSON(input);
+    expect(res.errs?.summarize()).toEqual([
+      "nmae: is not a declared field",
+      "extra: is not a declared field",
+    ]);
+  });
+
+  it("keeps undeclared keys and round-trips them in passthrough mode", () => {
+    const p = new Passthrough(input);
+    expect(p.validate()).toEqual([]);
+    expect(p.toJSON()).toEqual({ name: "Ada", nmae: "typo", extra: { n: 1 } });
+  });
+
+  it("treats keys inherited from Object.prototype as undeclared", () => {
+    const odd = { name: "Ada", constructor: "x", toString: "y" } as {
+      name: string;
+    };
+    expect(new Strict(odd).validate()).toEqual([
+      "constructor: is not a declared field",
+      "toString: is not a declared field",
+    ]);
+    expect(new Passthrough(odd).toJSON()).toEqual({
+      name: "Ada",
+      constructor: "x",
+      toString: "y",
+    });
+  });
+
+  it("is inherited by subclasses and applies to nested schemas", () => {
+    class Outer extends Schema.from({ inner: one(Strict) }) {}
+    const o = new Outer({ inner: { name: "x", bogus: 1 } as { name: string } });
+    expect(o.validate()).toEqual(["inner.bogus: is not a declared field"]);
+  });
+
+  it("emits additionalProperties in jsonSchema()", () => {
+    expect(Stripped.jsonSchema()).not.toHaveProperty("additionalProperties");
+    expect(Strict.jsonSchema()).toMatchObject({ additionalProperties: false });
+    expect(Passthrough.jsonSchema()).toMatchObject({
+      additionalProperties: true,
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * `sqlTable()` – CREATE TABLE statements and row mapping.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  sqlTable,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
+
+class Address extends Schema.from({
+  city: one(t.string),
+  zip: one(t.string),
+}) {}
+
+const Role = { Admin: "admin", Member: "member" } as const;
+
+class UserAccount extends Schema.from({
+  id: one(t.bigint),
+  displayName: one(t.string),
+  age: one(t.number, { is: c.isInteger, optional: true }),
+  score: one(t.number, { default: 0 }),
+  active: one(t.boolean, { default: true }),
+  role: one(t.enum(Role)),
+  kind: one(t.literal("user")),
+  createdAt: one(t.serdes(Date, t.string), {
+    serdes: [(d: Date) => d.toISOString(), (s: string) => new Date(s)],
+  }),
+  address: one(Address),
+  tags: many(t.string),
+  limits: one(t.map(t.string, t.number)),
+  point: one(t.tuple(t.number, t.number)),
+  note: one(t.string, { nullable: true }),
+}) {}
+
+const user = new UserAccount({
+  id: 9007199254740993n,
+  displayName: "Ada",
+  age: 36,
+  score: 1.5,
+  active: false,
+  role: "admin",
+  kind: "user",
+  createdAt: "2024-05-01T12:00:00.000Z",
+  address: { city: "London", zip: "N1" },
+  tags: ["a", "b"],
+  limits: { daily: 10 },
+  point: [1, 2],
+  note: "prefers email",
+});
+
+describe("sqlTable()", () => {
+  it("emits PostgreSQL DDL", () => {
+    const table = sqlTable(UserAccount, { primaryKey: "id" });
+    expect(table.createTable()).toBe(
+      [
+        "CREATE TABLE user_account (",
+        "  id BIGINT NOT NULL,",
+        "  display_name TEXT NOT NULL,",
+        "  age BIGINT,",
+        "  score DOUBLE PRECISION NOT NULL DEFAULT 0,",
+        "  active BOOLEAN NOT NULL DEFAULT TRUE,",
+        "  role TEXT NOT NULL CHECK (role IN ('admin', 'member')),",
+        "  kind TEXT NOT NULL CHECK (kind = 'user'),",
+        "  created_at TIMESTAMPTZ NOT NULL,",
+        "  address JSONB NOT NULL,",
+        "  tags JSONB NOT NULL,",
+        "  limits JSONB NOT NULL,",
+        "  point JSONB NOT NULL,",
+        "  note TEXT,",
+        "  PRIMARY KEY (id)",
+        ");",
+      ].join("\n"),
+    );
+  });
+
+  it("emits SQLite DDL", () => {
+    const ddl = sqlTable(UserAccount, { dialect: "sqlite" }).createTable({
+      ifNotExists: true,
+    });
+    expect(ddl).toContain("CREATE TABLE IF NOT EXISTS user_account (");
+    expect(ddl).toContain("  score REAL NOT NULL DEFAULT 0,");
+    expect(ddl).toContain(
+      "  active INTEGER NOT NULL DEFAULT 1 CHECK (active IN (0, 1)),",
+    );
+    expect(ddl).toContain("  created_at TEXT NOT NULL,");
+    expect(ddl).toContain("  address TEXT NOT NULL,");
+  });
+
+  it("quotes reserved and non-simple identifiers", () => {
+    class Order extends Schema.from({ user: one(t.string) }) {}
+    const ddl = sqlTable(Order, { table: "Order Items" }).createTable();
+    expect(ddl).toBe(
+      'CREATE TABLE "Order Items" (\n  "user" TEXT NOT NULL\n);',
+    );
+  });
+
+  it("rejects an unknown primary key field", () => {
+    expect(() => sqlTable(Address, { primaryKey: "street" })).toThrow(
+      "sql: address has no field street",
+    );
+  });
+
+  it("converts instances to rows", () => {
+    const row = sqlTable(UserAccount, { dialect: "sqlite" }).toRow(user);
+    expect(row).toEqual({
+      id: 9007199254740993n,
+      display_name: "Ada",
+      age: 36,
+      score: 1.5,
+      active: 0,
+      role: "admin",
+      kind: "user",
+      created_at: "2024-05-01T12:00:00.000Z",
+      address: '{"city":"London","zip":"N1"}',
+      tags: '["a","b"]',
+      limits: '{"daily":10}',
+      point: "[1,2]",
+      note: "prefers email",
+    });
+  });
+
+  it("round-trips rows through both dialects", () => {
+    for (const dialect of ["postgres", "sqlite"] as const) {
+      const table = sqlTable(UserAccount, { dialect });
+      const { val, errs } = table.fromRow(table.toRow(user));
+      expect(errs).toBeUndefined();
+      expect(val!.toJSON()).toEqual(user.toJSON());
+      expect(val!.createdAt).toBeInstanceOf(Date);
+    }
+  });
+
+  it("accepts driver-native values", () => {
+    const table = sqlTable(UserAccount);
+    const { val, errs } = table.fromRow({
+      ...table.toRow(user),
+      id: "9007199254740993",
+      age: "36",
+      created_at: new Date("2024-05-01T12:00:00.000Z"),
+      address: { city: "Paris", zip: "75001" },
+      note: null,
+    });
+    expect(errs).toBeUndefined();
+    expect(val!.id).toBe(9007199254740993n);
+    expect(val!.age).toBe(36);
+    expect(val!.address.city).toBe("Paris");
+    expect(val!.note).toBeNull();
+  });
+
+  it("validates rows", () => {
+    const table = sqlTable(UserAccount, { dialect: "sqlite" });
+    const { val, errs } = table.fromRow({
+      ...table.toRow(user),
+      role: "owner",
+    });
+    expect(val).toBeUndefined();
+    expect(errs?.role).toBeDefined();
+  });
+
+  it("round-trips maps with numeric keys", () => {
+    class Ladder extends Schema.from({
+      byRank: one(t.map(t.number, t.string)),
+    }) {}
+    const table = sqlTable(Ladder);
+    const ladder = new Ladder({ byRank: new Map([[1, "ada"]]) });
+    const { val, errs } = table.fromRow(table.toRow(ladder));
+    expect(errs).toBeUndefined();
+    expect(val!.byRank).toEqual(new Map([[1, "ada"]]));
+  });
+
+  it("reports unreadable columns instead of throwing", () => {
+    const table = sqlTable(UserAccount);
+    const { val, errs } = table.fromRow({
+      ...table.toRow(user),
+      address: "{oops",
+      created_at: "someday",
+    });
+    expect(val).toBeUndefined();
+    expect(errs?.summarize()).toEqual([
+      "createdAt: column does not hold a valid timestamp",
+      "address: column does not hold valid JSON",
+    ]);
+
+    const bigint = table.fromRow({ ...table.toRow(user), id: "x1" });
+    expect(bigint.errs?.summarize()).toEqual([
+      'id: cannot coerce "x1" to bigint',
+    ]);
+  });
+
+  it("emits serialised static defaults only", () => {
+    class Event extends Schema.from({
+      at: one(t.serdes(Date, t.string), {
+        default: new Date(0),
+        serdes: [(d: Date) => d.toISOString(), (s: string) => new Date(s)],
+      }),
+      tags: many(t.string, { default: () => [] }),
+      size: one(t.bigint, { default: 5n }),
+    }) {}
+    expect(sqlTable(Event).createTable()).toBe(
+      [
+        "CREATE TABLE event (",
+        "  at TIMESTAMPTZ NOT NULL DEFAULT '1970-01-01T00:00:00.000Z',",
+        "  tags JSONB NOT NULL,",
+        "  size BIGINT NOT NULL DEFAULT 5",
+        ");",
+      ].join("\n"),
+    );
+  });
+});
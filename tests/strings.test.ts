@@ -93,4 +93,13 @@ describe("String validators", () => {
     expect(snakeCase("hello_world")).toBe(true);
     expect(kebabCase("hello-world")).toBe(true);
   });
+
+  it("ipAddress accepts exactly IPv4 and IPv6 text forms", () => {
+    for (const ip of ["::1", "::", "fe80::1:2", "::ffff:10.0.0.1"]) {
+      expect(ipAddress(ip)).toBe(true);
+    }
+    for (const ip of ["1::2::3", "256.0.0.1", "1:2:3:4:5:6:7:8::", ":1"]) {
+      expect(ipAddress(ip)).toBe("must be a valid IP address");
+    }
+  });
 });
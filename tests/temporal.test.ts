@@ -0,0 +1,183 @@
+/**
+ * Temporal descriptors (`t.date`, `t.dateOnly`, `t.time`, `t.duration`) and
+ * the `before` / `after` / `within` constraints.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Schema,
+  one,
+  many,
+  PlainDate,
+  PlainTime,
+  Duration,
+  constraints as c,
+  typing as t,
+} from "@rybosome/type-a";
+
+class Shift extends Schema.from({
+  startsAt: one(t.date),
+  day: one(t.dateOnly),
+  opensAt: one(t.time),
+  length: one(t.duration),
+  breaks: many(t.time),
+  endedAt: one(t.date, { optional: true }),
+}) {}
+
+const raw = {
+  startsAt: "2024-05-01T09:00:00+02:00",
+  day: "2024-02-29",
+  opensAt: "08:30:00",
+  length: "PT7H30M",
+  breaks: ["10:15:00", "12:30:00.500"],
+};
+
+describe("temporal descriptors", () => {
+  it("deserialise ISO 8601 strings", () => {
+    const { val, errs } = Shift.fromJSON(raw);
+    expect(errs).toBeUndefined();
+    expect(val!.startsAt).toBeInstanceOf(Date);
+    expect(val!.startsAt.toISOString()).toBe("2024-05-01T07:00:00.000Z");
+    expect(val!.day).toEqual(new PlainDate(2024, 2, 29));
+    expect(val!.opensAt).toEqual(new PlainTime(8, 30));
+    expect(val!.length).toEqual(new Duration({ hours: 7, minutes: 30 }));
+    expect(val!.breaks[1]).toEqual(new PlainTime(12, 30, 0, 500));
+    expect(val!.endedAt).toBeUndefined();
+  });
+
+  it("serialise back in toJSON()", () => {
+    expect(Shift.fromJSON(raw).val!.toJSON()).toEqual({
+      ...raw,
+      startsAt: "2024-05-01T07:00:00.000Z",
+    });
+  });
+
+  it("report malformed raw strings", () => {
+    const { errs } = Shift.fromJSON({
+      ...raw,
+      day: "2023-02-29",
+      startsAt: "2024-05-01T09:00:00",
+      breaks: ["25:00:00"],
+      length: "P",
+    });
+    expect(errs?.summarize()).toEqual([
+      "startsAt: expected an ISO 8601 date-time",
+      "day: expected an ISO 8601 date",
+      "length: expected an ISO 8601 duration",
+      "breaks[0]: expected an ISO 8601 time",
+    ]);
+  });
+
+  it("report raw values of the wrong type", () => {
+    const input = { ...raw, startsAt: 123, breaks: ["10:15:00", 9] };
+    for (const opts of [{}, { coerce: true }]) {
+      const { val, errs } = Shift.fromJSON(input, opts);
+      expect(val).toBeUndefined();
+      expect(errs?.summarize()).toEqual([
+        "startsAt: expected string",
+        "breaks[1]: expected string",
+      ]);
+    }
+  });
+
+  it("report malformed nullable elements as invalid_format", () => {
+    class Log extends Schema.from({
+      seenAt: many(t.nullable(t.date)),
+    }) {}
+    const log = new Log({ seenAt: [null, "yesterday"] as never });
+    expect(log.validateIssues()).toEqual([
+      {
+        path: ["seenAt", 1],
+        code: "invalid_format",
+        message: "expected an ISO 8601 date-time",
+        expected: "date-time",
+        received: "string",
+      },
+    ]);
+  });
+
+  it("emit JSON Schema formats", () => {
+    const props = Shift.jsonSchema().properties as Record<string, unknown>;
+    expect(props.startsAt).toEqual({ type: "string", format: "date-time" });
+    expect(props.day).toEqual({ type: "string", format: "date" });
+    expect(props.length).toEqual({ type: "string", format: "duration" });
+    expect(props.breaks).toEqual({
+      type: "array",
+      items: { type: "string", format: "time" },
+    });
+  });
+
+  it("keep an explicit serdes option", () => {
+    class Tick extends Schema.from({
+      at: one(t.date, {
+        serdes: [
+          (d: Date) => d.toISOString().slice(0, 19) + "Z",
+          (s) => new Date(s),
+        ],
+      }),
+    }) {}
+    const tick = new Tick({ at: "2024-01-01T00:00:00.250Z" });
+    expect(tick.toJSON().at).toBe("2024-01-01T00:00:00Z");
+  });
+});
+
+describe("Duration", () => {
+  it("formats and applies calendar units", () => {
+    const d = Duration.parse("P1M2DT3H");
+    expect(d.toString()).toBe("P1M2DT3H");
+    expect(new Duration().toString()).toBe("PT0S");
+    expect(d.addTo(new Date("2024-01-31T00:00:00Z")).toISOString()).toBe(
+      "2024-03-04T03:00:00.000Z",
+    );
+  });
+});
+
+describe("temporal constraints", () => {
+  class Booking extends Schema.from({
+    at: one(t.date, { is: c.after("2024-01-01T00:00:00Z") }),
+    day: one(t.dateOnly, { is: c.before("2025-01-01") }),
+    opensAt: one(t.time, { is: [c.after("06:00:00"), c.before("22:00:00")] }),
+    reminder: one(t.date, {
+      is: c.within("P7D", () => new Date("2024-06-01T00:00:00Z")),
+    }),
+  }) {}
+
+  it("accept values in range", () => {
+    const { errs } = Booking.fromJSON({
+      at: "2024-06-01T10:00:00Z",
+      day: "2024-12-31",
+      opensAt: "09:00:00",
+      reminder: "2024-06-08T00:00:00Z",
+    });
+    expect(errs).toBeUndefined();
+  });
+
+  it("report values out of range", () => {
+    const { errs } = Booking.fromJSON({
+      at: "2023-12-31T23:59:59Z",
+      day: "2025-01-01",
+      opensAt: "23:00:00",
+      reminder: "2024-06-08T00:00:01Z",
+    });
+    expect(errs?.at?._errors).toEqual([
+      "2023-12-31T23:59:59.000Z is not after(2024-01-01T00:00:00Z)",
+    ]);
+    expect(errs?.day?._errors).toEqual([
+      "2025-01-01 is not before(2025-01-01)",
+    ]);
+    expect(errs?.opensAt?._errors).toEqual([
+      "23:00:00 is not before(22:00:00)",
+    ]);
+    expect(errs?.reminder?._errors).toEqual([
+      "2024-06-08T00:00:01.000Z is not within(P7D) of 2024-06-01T00:00:00.000Z",
+    ]);
+  });
+
+  it("reject malformed limits when declared", () => {
+    expect(() => c.before("2025-1-1")).toThrow(
+      new RangeError("invalid ISO 8601 limit: 2025-1-1"),
+    );
+    expect(() => c.before("22:00")).toThrow(RangeError);
+    expect(() => c.after("yesterday")).toThrow(RangeError);
+  });
+});
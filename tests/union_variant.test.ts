@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { Schema, one, typed as t } from "@rybosome/type-a";
+import { Schema, one, many, typed as t } from "@rybosome/type-a";
 
 /* ------------------------------------------------------------------------- */
 /* Union (`t.union`)                                                         */
@@ -88,3 +88,102 @@ describe("Union & variant integration", () => {
     });
   });
 });
+
+/* ------------------------------------------------------------------------- */
+/* Unions over descriptors                                                   */
+/* ------------------------------------------------------------------------- */
+
+describe("Unions over descriptors", () => {
+  class User extends Schema.from({
+    name: one(t.string),
+  }) {}
+
+  class Widget extends Schema.from({
+    width: one(t.union([t.literal("auto"), t.number])),
+    owner: one(t.union([t.string, User])),
+    ids: many(t.union([t.number, t.string])),
+    anchor: one(t.union([t.tuple(t.number, t.number), t.date]), {
+      optional: true,
+    }),
+  }) {}
+
+  it("builds the member each value matches", () => {
+    const w = Widget.fromJSON({
+      width: "auto",
+      owner: { name: "Ada" },
+      ids: [1, "two"],
+      anchor: "2024-05-01T12:00:00Z",
+    }).val!;
+    const width: "auto" | number = w.width;
+    expect(width).toBe("auto");
+    expect(w.owner).toBeInstanceOf(User);
+    expect(w.ids).toEqual([1, "two"]);
+    expect(w.anchor).toBeInstanceOf(Date);
+
+    const pinned = Widget.fromJSON({
+      width: 120,
+      owner: "ada",
+      ids: [],
+      anchor: [3, 4],
+    }).val!;
+    expect(pinned.owner).toBe("ada");
+    expect(pinned.anchor).toEqual([3, 4]);
+    expect(pinned.toJSON()).toEqual({
+      width: 120,
+      owner: "ada",
+      ids: [],
+      anchor: [3, 4],
+    });
+    expect(w.toJSON().anchor).toBe("2024-05-01T12:00:00.000Z");
+  });
+
+  it("reports values no member accepts", () => {
+    const { errs } = Widget.fromJSON({
+      width: "wide",
+      owner: { name: 7 },
+      ids: [true],
+      anchor: [1, 2, 3],
+    });
+    expect(errs?.summarize()).toEqual([
+      'width: expected "auto" | number',
+      "owner.name: expected string",
+      "ids[0]: expected number | string",
+      "anchor: expected tuple | date-time",
+    ]);
+  });
+
+  it("coerces towards the first member that converts", () => {
+    const { val } = Widget.fromJSON(
+      { width: "80", owner: "ada", ids: ["1"] },
+      { coerce: true },
+    );
+    expect(val!.width).toBe(80);
+    expect(val!.ids).toEqual(["1"]);
+  });
+
+  it("emits anyOf in JSON Schema", () => {
+    const props = Widget.jsonSchema().properties as Record<string, unknown>;
+    expect(props.width).toEqual({
+      anyOf: [{ type: "string", const: "auto" }, { type: "number" }],
+    });
+    expect(props.owner).toEqual({
+      anyOf: [{ type: "string" }, User.jsonSchema()],
+    });
+    expect(props.ids).toEqual({
+      type: "array",
+      items: { anyOf: [{ type: "number" }, { type: "string" }] },
+    });
+  });
+
+  /* ---------------------------------------------------------------------- */
+  /*  Compile-time expectations (non-executed arrow functions)               */
+  /* ---------------------------------------------------------------------- */
+
+  // @ts-expect-error – "wide" is neither "auto" nor a number
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Widget({ width: "wide", owner: "ada", ids: [] });
+
+  // @ts-expect-error – booleans are not members
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  () => new Widget({ width: 1, owner: "ada", ids: [true] });
+});